@@ -0,0 +1,21 @@
+-- Persisted job queue used by CallOrchestrator (see src/lib/job-queue.ts)
+create table if not exists jobs (
+  id uuid primary key,
+  type text not null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued',
+  run_at timestamptz not null,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  last_error text,
+  locked_by text,
+  locked_at timestamptz,
+  dedupe_key text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists jobs_due_idx on jobs (status, run_at);
+
+-- At most one queued job per dedupe key
+create unique index if not exists jobs_queued_dedupe_key_idx on jobs (dedupe_key) where status = 'queued';
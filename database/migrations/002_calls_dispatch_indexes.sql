@@ -0,0 +1,3 @@
+-- Campaign-scoped pending lookups and active-call counts used by the dispatcher
+create index if not exists calls_campaign_status_scheduled_idx on calls (campaign_id, status, scheduled_at);
+create index if not exists calls_status_idx on calls (status);
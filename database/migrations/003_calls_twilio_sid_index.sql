@@ -0,0 +1,2 @@
+-- Direct lookup of calls from Twilio status callbacks
+create unique index if not exists calls_twilio_sid_idx on calls (twilio_sid) where twilio_sid is not null;
@@ -0,0 +1,12 @@
+-- Call status transition history (see src/lib/call-state-machine.ts)
+create table if not exists call_events (
+  id uuid primary key,
+  call_id uuid not null references calls (id) on delete cascade,
+  campaign_id uuid not null,
+  from_status text not null,
+  to_status text not null,
+  cause text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists call_events_call_id_idx on call_events (call_id, created_at);
@@ -0,0 +1,3 @@
+-- Voicemail handling for answering machine detection
+alter table campaigns add column if not exists retry_on_voicemail boolean not null default true;
+alter table campaigns add column if not exists voicemail_message text;
\ No newline at end of file
@@ -0,0 +1,21 @@
+-- Retry bookkeeping and per-attempt history
+alter table campaigns add column if not exists retry_backoff text not null default 'fixed';
+
+alter table calls alter column retry_count set default 0;
+update calls set retry_count = 0 where retry_count is null;
+alter table calls add column if not exists next_attempt_at timestamptz;
+
+create table if not exists call_attempts (
+  id uuid primary key,
+  call_id uuid not null references calls (id) on delete cascade,
+  campaign_id uuid not null,
+  attempt_number integer not null,
+  twilio_sid text,
+  outcome text not null,
+  error_message text,
+  duration integer,
+  started_at timestamptz,
+  ended_at timestamptz not null
+);
+
+create index if not exists call_attempts_call_id_idx on call_attempts (call_id, attempt_number);
\ No newline at end of file
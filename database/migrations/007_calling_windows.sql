@@ -0,0 +1,4 @@
+-- Calling-hours windows and customer time zones
+alter table campaigns add column if not exists calling_window jsonb;
+alter table customers add column if not exists time_zone text;
+alter table calls add column if not exists time_zone text;
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Numbers that must never be called again (see src/lib/do-not-call.ts)
+create table if not exists do_not_call (
+  phone text primary key,
+  source text not null,
+  reason text,
+  call_id uuid,
+  created_at timestamptz not null default now()
+);
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Per-campaign conversation policies and topics covered per conversation
+alter table campaigns add column if not exists conversation_policy jsonb;
+alter table conversations add column if not exists covered_topics jsonb default '[]'::jsonb;
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Bot scripts become structured templates; existing text scripts keep working as the system prompt
+alter table campaigns
+  alter column bot_script type jsonb
+  using case when bot_script is null then null else jsonb_build_object('systemPrompt', bot_script) end;
\ No newline at end of file
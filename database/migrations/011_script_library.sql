@@ -0,0 +1,24 @@
+-- Versioned script library and script A/B variants per campaign
+create table if not exists scripts (
+  id uuid primary key,
+  name text not null,
+  description text,
+  latest_version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists script_versions (
+  id uuid primary key,
+  script_id uuid not null references scripts(id) on delete cascade,
+  version integer not null,
+  bot_script jsonb not null,
+  notes text,
+  created_at timestamptz not null default now(),
+  unique (script_id, version)
+);
+
+alter table campaigns add column if not exists script_variants jsonb default '[]'::jsonb;
+alter table calls add column if not exists script_variant text;
+
+create index if not exists calls_campaign_script_variant_idx on calls (campaign_id, script_variant);
\ No newline at end of file
@@ -0,0 +1,16 @@
+-- Structured survey questions per campaign and their typed answers per call
+alter table campaigns add column if not exists survey_questions jsonb default '[]'::jsonb;
+
+create table if not exists survey_answers (
+  call_id uuid not null,
+  campaign_id uuid not null,
+  question_id text not null,
+  type text not null,
+  value jsonb, -- null when the question went unanswered
+  source text not null,
+  raw_input text,
+  answered_at timestamptz not null default now(),
+  primary key (call_id, question_id)
+);
+
+create index if not exists survey_answers_campaign_idx on survey_answers (campaign_id, question_id);
\ No newline at end of file
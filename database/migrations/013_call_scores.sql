@@ -0,0 +1,7 @@
+-- NPS and CSAT scores captured per call, for score reporting
+alter table calls add column if not exists nps_score smallint check (nps_score between 0 and 10);
+alter table calls add column if not exists csat_score smallint check (csat_score between 1 and 5);
+alter table calls add column if not exists scored_at timestamptz;
+
+create index if not exists calls_scored_at_idx on calls (scored_at) where scored_at is not null;
+create index if not exists calls_campaign_scored_at_idx on calls (campaign_id, scored_at) where scored_at is not null;
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- Configurable issue taxonomy and per-call issue classifications
+create table if not exists issue_categories (
+  code text primary key,
+  label text not null,
+  keywords text[] not null default '{}',
+  subcategories jsonb not null default '[]'::jsonb, -- [{code, label, keywords}]
+  position integer not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+alter table calls add column if not exists issue_classifications jsonb; -- [{issue, code, category, subcategory, confidence, source}]
\ No newline at end of file
@@ -0,0 +1,87 @@
+-- Aggregates behind /api/analytics, computed in the database instead of loading every call.
+-- Calls are dated by when they started, or were scheduled if they never started (UTC).
+create or replace function call_analytics(
+  p_campaign_id uuid default null,
+  p_services text[] default null,
+  p_date_from timestamptz default null,
+  p_date_to timestamptz default null
+) returns jsonb
+language sql
+stable
+as $$
+  with filtered as (
+    select
+      c.campaign_id,
+      c.status,
+      c.duration,
+      c.sentiment,
+      c.services,
+      c.key_issues,
+      c.issue_classifications,
+      coalesce(c.started_at, c.scheduled_at) as call_date
+    from calls c
+    where (p_campaign_id is null or c.campaign_id = p_campaign_id)
+      and (p_services is null or c.services && p_services)
+      and (p_date_from is null or coalesce(c.started_at, c.scheduled_at) >= p_date_from)
+      and (p_date_to is null or coalesce(c.started_at, c.scheduled_at) <= p_date_to)
+  ),
+  -- Taxonomy codes where the call was classified, the raw key issues of older calls otherwise
+  issues as (
+    select issue->>'code' as issue, count(*) as count
+    from filtered, jsonb_array_elements(filtered.issue_classifications) as issue
+    where jsonb_typeof(filtered.issue_classifications) = 'array'
+    group by 1
+    union all
+    select lower(trim(issue)) as issue, count(*) as count
+    from filtered, unnest(filtered.key_issues) as issue
+    where filtered.issue_classifications is null
+    group by 1
+  )
+  select jsonb_build_object(
+    'overview', (
+      select jsonb_build_object(
+        'totalCampaigns', count(distinct campaign_id),
+        'totalCalls', count(*),
+        'completedCalls', count(*) filter (where status = 'completed'),
+        'finishedCalls', count(*) filter (where status in ('completed', 'failed', 'voicemail')),
+        'averageDuration', coalesce(round(avg(duration) filter (where status = 'completed' and duration is not null)), 0)
+      )
+      from filtered
+    ),
+    'callsByStatus', coalesce((
+      select jsonb_object_agg(status, count)
+      from (select status, count(*) as count from filtered group by status) by_status
+    ), '{}'::jsonb),
+    'callsByService', coalesce((
+      select jsonb_object_agg(service, count)
+      from (select service, count(*) as count from filtered, unnest(filtered.services) as service group by service) by_service
+    ), '{}'::jsonb),
+    'sentiment', (
+      select jsonb_build_object(
+        'positive', count(*) filter (where sentiment = 'positive'),
+        'negative', count(*) filter (where sentiment = 'negative'),
+        'neutral', count(*) filter (where sentiment = 'neutral')
+      )
+      from filtered
+    ),
+    'totalIssues', (select coalesce(sum(count), 0) from issues),
+    'topIssues', coalesce((
+      select jsonb_agg(jsonb_build_object('issue', issue, 'count', total) order by total desc)
+      from (select issue, sum(count) as total from issues group by issue order by total desc limit 10) top_issues
+    ), '[]'::jsonb),
+    'timeSeries', coalesce((
+      select jsonb_agg(jsonb_build_object('date', day, 'calls', calls, 'completed', completed, 'failed', failed) order by day)
+      from (
+        select
+          to_char(call_date at time zone 'UTC', 'YYYY-MM-DD') as day,
+          count(*) as calls,
+          count(*) filter (where status = 'completed') as completed,
+          count(*) filter (where status = 'failed') as failed
+        from filtered
+        group by 1
+      ) by_day
+    ), '[]'::jsonb)
+  )
+$$;
+
+create index if not exists calls_call_date_idx on calls ((coalesce(started_at, scheduled_at)));
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Change lookups behind the /api/events stream
+create index if not exists calls_updated_at_idx on calls (updated_at);
+create index if not exists calls_campaign_updated_at_idx on calls (campaign_id, updated_at);
+create index if not exists campaigns_updated_at_idx on campaigns (updated_at);
\ No newline at end of file
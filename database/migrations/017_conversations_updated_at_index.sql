@@ -0,0 +1,3 @@
+-- Live transcript lookups behind the /api/events stream
+create index if not exists conversations_updated_at_idx on conversations (updated_at);
+create index if not exists conversations_call_id_idx on conversations (call_id);
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Per-campaign voice and language settings, with a per-customer locale override
+alter table campaigns add column if not exists voice_settings jsonb;
+alter table customers add column if not exists locale text;
+alter table calls add column if not exists locale text;
+alter table conversations add column if not exists locale text;
\ No newline at end of file
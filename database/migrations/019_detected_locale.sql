@@ -0,0 +1,2 @@
+-- Language detected from the customer's first answer, for reporting
+alter table calls add column if not exists detected_locale text;
\ No newline at end of file
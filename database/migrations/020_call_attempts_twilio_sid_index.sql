@@ -0,0 +1,2 @@
+-- Lookup of earlier dial attempts from late Twilio status callbacks
+create index if not exists call_attempts_twilio_sid_idx on call_attempts (twilio_sid) where twilio_sid is not null;
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- Calls per status for each campaign, counted in the database instead of loading every call
+create or replace function call_status_counts(p_campaign_ids uuid[])
+returns table (campaign_id uuid, status text, count bigint)
+language sql
+stable
+as $$
+  select c.campaign_id, c.status, count(*) as count
+  from calls c
+  where c.campaign_id = any(p_campaign_ids)
+  group by c.campaign_id, c.status
+$$;
\ No newline at end of file
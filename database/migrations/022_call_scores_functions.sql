@@ -0,0 +1,81 @@
+-- Score report counts, computed in the database instead of loading every scored call,
+-- and the atomic recording of a call's first NPS/CSAT score.
+-- Calls are dated by when they were scored (UTC); weeks start on Sunday.
+create or replace function call_score_counts(
+  p_campaign_id uuid default null,
+  p_service text default null,
+  p_date_from timestamptz default null,
+  p_date_to timestamptz default null,
+  p_interval text default 'day'
+) returns jsonb
+language sql
+stable
+as $$
+  with filtered as (
+    select
+      c.campaign_id,
+      c.services,
+      c.nps_score,
+      c.csat_score,
+      to_char(case p_interval
+        when 'week' then date_trunc('day', c.scored_at at time zone 'UTC') - extract(dow from c.scored_at at time zone 'UTC') * interval '1 day'
+        when 'month' then date_trunc('month', c.scored_at at time zone 'UTC')
+        else date_trunc('day', c.scored_at at time zone 'UTC')
+      end, 'YYYY-MM-DD') as period
+    from calls c
+    where c.scored_at is not null
+      and (p_campaign_id is null or c.campaign_id = p_campaign_id)
+      and (p_service is null or c.services @> array[p_service])
+      and (p_date_from is null or c.scored_at >= p_date_from)
+      and (p_date_to is null or c.scored_at <= p_date_to)
+  ),
+  -- A call about several services counts towards each of them
+  grouped as (
+    select 'overall' as dimension, '' as key, nps_score, csat_score from filtered
+    union all
+    select 'trend', period, nps_score, csat_score from filtered
+    union all
+    select 'campaign', campaign_id::text, nps_score, csat_score from filtered
+    union all
+    select 'service', service, nps_score, csat_score from filtered, unnest(filtered.services) as service
+  ),
+  counts as (
+    select dimension, key, 'nps' as type, nps_score as score, count(*) as count
+    from grouped
+    where nps_score is not null
+    group by dimension, key, nps_score
+    union all
+    select dimension, key, 'csat', csat_score, count(*)
+    from grouped
+    where csat_score is not null
+    group by dimension, key, csat_score
+  )
+  select coalesce(
+    jsonb_agg(jsonb_build_object('dimension', dimension, 'key', key, 'type', type, 'score', score, 'count', count)),
+    '[]'::jsonb
+  )
+  from counts
+$$;
+
+-- Scores already captured for the call are kept
+create or replace function record_call_scores(
+  p_call_id uuid,
+  p_nps_score smallint default null,
+  p_csat_score smallint default null
+) returns void
+language plpgsql
+as $$
+begin
+  update calls set
+    nps_score = coalesce(nps_score, p_nps_score),
+    csat_score = coalesce(csat_score, p_csat_score),
+    scored_at = coalesce(scored_at, now()),
+    updated_at = now()
+  where id = p_call_id
+    and ((nps_score is null and p_nps_score is not null) or (csat_score is null and p_csat_score is not null));
+
+  if not found and not exists (select 1 from calls where id = p_call_id) then
+    raise exception 'Call % not found', p_call_id;
+  end if;
+end;
+$$;
\ No newline at end of file
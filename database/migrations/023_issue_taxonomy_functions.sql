@@ -0,0 +1,60 @@
+-- Issue report counts, computed in the database instead of loading every classified call,
+-- and the replacement of the issue taxonomy in one transaction
+create or replace function issue_classification_counts(
+  p_campaign_id uuid default null,
+  p_service text default null,
+  p_date_from timestamptz default null,
+  p_date_to timestamptz default null,
+  p_min_confidence numeric default 0
+) returns jsonb
+language sql
+stable
+as $$
+  select coalesce(
+    jsonb_agg(jsonb_build_object('code', code, 'category', category, 'subcategory', subcategory, 'count', count)),
+    '[]'::jsonb
+  )
+  from (
+    select
+      classification->>'code' as code,
+      min(classification->>'category') as category,
+      min(classification->>'subcategory') as subcategory,
+      count(*) as count
+    from calls c, jsonb_array_elements(c.issue_classifications) as classification
+    where c.status = 'completed'
+      and jsonb_typeof(c.issue_classifications) = 'array'
+      and (p_campaign_id is null or c.campaign_id = p_campaign_id)
+      and (p_service is null or c.services @> array[p_service])
+      and (p_date_from is null or c.ended_at >= p_date_from)
+      and (p_date_to is null or c.ended_at <= p_date_to)
+      and coalesce((classification->>'confidence')::numeric, 0) >= p_min_confidence
+    group by 1
+  ) counts
+$$;
+
+-- Categories left out of the list are removed
+create or replace function save_issue_taxonomy(p_categories jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  insert into issue_categories (code, label, keywords, subcategories, position, updated_at)
+  select
+    category->>'code',
+    category->>'label',
+    array(select jsonb_array_elements_text(coalesce(category->'keywords', '[]'::jsonb))),
+    coalesce(category->'subcategories', '[]'::jsonb),
+    (ordinal - 1)::integer,
+    now()
+  from jsonb_array_elements(p_categories) with ordinality as categories(category, ordinal)
+  on conflict (code) do update set
+    label = excluded.label,
+    keywords = excluded.keywords,
+    subcategories = excluded.subcategories,
+    position = excluded.position,
+    updated_at = excluded.updated_at;
+
+  delete from issue_categories
+  where code not in (select category->>'code' from jsonb_array_elements(p_categories) as category);
+end;
+$$;
\ No newline at end of file
@@ -0,0 +1,24 @@
+-- Phone numbers as dialed (see normalizeDoNotCallPhone in src/lib/do-not-call.ts), so opt-outs
+-- and lookups across campaigns match however a customer file wrote the number
+alter table customers add column if not exists phone_normalized text;
+alter table calls add column if not exists customer_phone_normalized text;
+
+-- Rows written before this migration, normalized like TwilioClient.formatPhoneNumber
+create or replace function pg_temp.normalize_phone(phone text) returns text
+language sql
+immutable
+as $$
+  select case
+    when cleaned like '+%' then cleaned
+    when length(cleaned) = 9 and cleaned like '5%' then '+966' || cleaned
+    when length(cleaned) = 10 and cleaned like '05%' then '+966' || substr(cleaned, 2)
+    else '+' || cleaned
+  end
+  from (select regexp_replace(phone, '[^0-9+]', '', 'g') as cleaned) as phones
+$$;
+
+update customers set phone_normalized = pg_temp.normalize_phone(phone) where phone_normalized is null;
+update calls set customer_phone_normalized = pg_temp.normalize_phone(customer_phone) where customer_phone_normalized is null;
+
+create index if not exists customers_phone_normalized_idx on customers (phone_normalized);
+create index if not exists calls_customer_phone_normalized_status_idx on calls (customer_phone_normalized, status);
\ No newline at end of file
@@ -0,0 +1,48 @@
+-- Script library writes that must not interleave: a script is created together with its first
+-- version, and each new version takes the next number under the script's row lock
+create or replace function create_script(
+  p_script_id uuid,
+  p_name text,
+  p_description text,
+  p_version_id uuid,
+  p_bot_script jsonb,
+  p_notes text default null
+) returns void
+language plpgsql
+as $$
+begin
+  insert into scripts (id, name, description, latest_version, created_at, updated_at)
+  values (p_script_id, p_name, p_description, 1, now(), now());
+
+  insert into script_versions (id, script_id, version, bot_script, notes, created_at)
+  values (p_version_id, p_script_id, 1, p_bot_script, p_notes, now());
+end;
+$$;
+
+-- Returns the number of the new version
+create or replace function add_script_version(
+  p_script_id uuid,
+  p_version_id uuid,
+  p_bot_script jsonb,
+  p_notes text default null
+) returns integer
+language plpgsql
+as $$
+declare
+  v_version integer;
+begin
+  update scripts
+  set latest_version = latest_version + 1, updated_at = now()
+  where id = p_script_id
+  returning latest_version into v_version;
+
+  if v_version is null then
+    raise exception 'Script % not found', p_script_id;
+  end if;
+
+  insert into script_versions (id, script_id, version, bot_script, notes, created_at)
+  values (p_version_id, p_script_id, v_version, p_bot_script, p_notes, now());
+
+  return v_version;
+end;
+$$;
\ No newline at end of file
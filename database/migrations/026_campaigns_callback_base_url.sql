@@ -0,0 +1,2 @@
+-- Public URL a campaign was started on; the worker dials its calls with callbacks to it
+alter table campaigns add column if not exists callback_base_url text;
\ No newline at end of file
@@ -0,0 +1,40 @@
+-- Outcomes of each campaign's script variants, next to call_analytics and with the same filters.
+-- Finished calls are completed, failed or voicemail; durations and sentiment are of completed calls.
+create or replace function script_variant_counts(
+  p_campaign_id uuid default null,
+  p_services text[] default null,
+  p_date_from timestamptz default null,
+  p_date_to timestamptz default null
+) returns jsonb
+language sql
+stable
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'campaignId', campaign_id,
+    'variantId', script_variant,
+    'totalCalls', total_calls,
+    'finishedCalls', finished_calls,
+    'completedCalls', completed_calls,
+    'averageDuration', average_duration,
+    'sentiment', jsonb_build_object('positive', positive, 'negative', negative, 'neutral', neutral)
+  ) order by campaign_id, script_variant), '[]'::jsonb)
+  from (
+    select
+      c.campaign_id,
+      c.script_variant,
+      count(*) as total_calls,
+      count(*) filter (where c.status in ('completed', 'failed', 'voicemail')) as finished_calls,
+      count(*) filter (where c.status = 'completed') as completed_calls,
+      coalesce(round(avg(c.duration) filter (where c.status = 'completed' and c.duration > 0)), 0) as average_duration,
+      count(*) filter (where c.status = 'completed' and c.sentiment = 'positive') as positive,
+      count(*) filter (where c.status = 'completed' and c.sentiment = 'negative') as negative,
+      count(*) filter (where c.status = 'completed' and c.sentiment = 'neutral') as neutral
+    from calls c
+    where c.script_variant is not null
+      and (p_campaign_id is null or c.campaign_id = p_campaign_id)
+      and (p_services is null or c.services && p_services)
+      and (p_date_from is null or coalesce(c.started_at, c.scheduled_at) >= p_date_from)
+      and (p_date_to is null or coalesce(c.started_at, c.scheduled_at) <= p_date_to)
+    group by c.campaign_id, c.script_variant
+  ) by_variant
+$$;
\ No newline at end of file
@@ -0,0 +1,48 @@
+import Database from '@/lib/database'
+import { CallOrchestrator } from '@/lib/call-orchestrator'
+import { TwilioClient } from '@/lib/twilio-client'
+import { createMediaStreamServer, MEDIA_STREAM_PATH } from '@/lib/media-stream-server'
+import { MediaStreamSession } from '@/lib/media-stream-session'
+import { OpenAISpeechSynthesizer, OpenAISpeechTranscriber } from '@/lib/openai-speech'
+import { verifyTwilioStreamRequest } from '@/lib/twilio-signature'
+
+/**
+ * Media stream server for live calls. Twilio connects to MEDIA_STREAM_URL, which has to
+ * route to this process (wss, path /api/calls/stream).
+ */
+async function main() {
+  const port = parseInt(process.env.MEDIA_STREAM_PORT || '8081')
+  const streamUrl = process.env.MEDIA_STREAM_URL
+  
+  if (!streamUrl) {
+    throw new Error('MEDIA_STREAM_URL is required')
+  }
+  
+  await Database.getInstance().connect()
+  
+  const orchestrator = new CallOrchestrator()
+  const twilioClient = new TwilioClient()
+  const transcriber = new OpenAISpeechTranscriber()
+  const synthesizer = new OpenAISpeechSynthesizer()
+  
+  createMediaStreamServer({
+    port,
+    createSession: (send) => new MediaStreamSession({
+      conversation: orchestrator,
+      transcriber,
+      synthesizer,
+      send,
+      hangUp: async (callSid) => {
+        await twilioClient.cancelCall(callSid)
+      }
+    }),
+    verifyRequest: (request) => verifyTwilioStreamRequest(request.headers['x-twilio-signature'] as string | undefined, streamUrl)
+  })
+  
+  console.log(`Media stream server listening on port ${port}, path ${MEDIA_STREAM_PATH}`)
+}
+
+main().catch(error => {
+  console.error('Media stream server failed to start:', error)
+  process.exit(1)
+})
\ No newline at end of file
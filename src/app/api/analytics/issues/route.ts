@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { getIssueTaxonomy, rollUpIssueCategories, rollUpIssues } from '@/lib/issue-taxonomy'
+import { ApiResponse, IssueReportResponse } from '@/types/api'
+
+/**
+ * Classified issues of completed calls, counted per taxonomy category and subcategory
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const campaignId = url.searchParams.get('campaignId') || undefined
+    const service = url.searchParams.get('service') || undefined
+    const dateFrom = url.searchParams.get('dateFrom') || undefined
+    const dateTo = url.searchParams.get('dateTo') || undefined
+    const minConfidence = parseFloat(url.searchParams.get('minConfidence') || '0')
+    
+    // Validate parameters
+    if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Minimum confidence must be between 0 and 1',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    if ((dateFrom && isNaN(Date.parse(dateFrom))) || (dateTo && isNaN(Date.parse(dateTo)))) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Dates must be ISO 8601 strings',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const counts = await db.getIssueClassificationCounts({ campaignId, service, dateFrom, dateTo, minConfidence })
+    const issues = rollUpIssues(counts, await getIssueTaxonomy())
+    
+    const response: IssueReportResponse = {
+      totalIssues: issues.reduce((sum, issue) => sum + issue.count, 0),
+      byCategory: rollUpIssueCategories(issues),
+      issues
+    }
+    
+    return NextResponse.json<ApiResponse<IssueReportResponse>>({
+      success: true,
+      data: response,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Issue report API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build issue report',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { buildAnalyticsResponse } from '@/lib/analytics'
+import { getIssueTaxonomy } from '@/lib/issue-taxonomy'
+import { summarizeCampaignScriptVariants } from '@/lib/script-library'
+import { AnalyticsRequest, AnalyticsResponse, ApiResponse } from '@/types/api'
+
+/**
+ * Call analytics across campaigns, filtered by date range, campaign and services
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const filters: AnalyticsRequest = {
+      campaignId: url.searchParams.get('campaignId') || undefined,
+      dateFrom: url.searchParams.get('dateFrom') || undefined,
+      dateTo: url.searchParams.get('dateTo') || undefined,
+      services: (url.searchParams.get('services') || '')
+        .split(',')
+        .map(service => service.trim())
+        .filter(service => service.length > 0)
+    }
+    
+    // Validate parameters
+    if ((filters.dateFrom && isNaN(Date.parse(filters.dateFrom))) || (filters.dateTo && isNaN(Date.parse(filters.dateTo)))) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Dates must be ISO 8601 strings',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    if (filters.dateFrom && filters.dateTo && Date.parse(filters.dateFrom) > Date.parse(filters.dateTo)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Start date must be before end date',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const aggregates = await db.getCallAnalytics(filters)
+    const variantCounts = await db.getScriptVariantCounts(filters)
+    const variantCampaigns = await db.getCampaignsByIds(Array.from(new Set(variantCounts.map(count => count.campaignId))))
+    const scriptVariants = summarizeCampaignScriptVariants(variantCampaigns, variantCounts)
+    const response = buildAnalyticsResponse(aggregates, await getIssueTaxonomy(), scriptVariants)
+    
+    return NextResponse.json<ApiResponse<AnalyticsResponse>>({
+      success: true,
+      data: response,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Analytics API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compute analytics',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { buildScoreReport } from '@/lib/scoring'
+import { ApiResponse, ScoreReportResponse, ScoreTrendInterval } from '@/types/api'
+
+/**
+ * NPS and CSAT report: score distribution, promoters/detractors and trends per service and campaign
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const campaignId = url.searchParams.get('campaignId') || undefined
+    const service = url.searchParams.get('service') || undefined
+    const dateFrom = url.searchParams.get('dateFrom') || undefined
+    const dateTo = url.searchParams.get('dateTo') || undefined
+    const interval = (url.searchParams.get('interval') || 'day') as ScoreTrendInterval
+    
+    // Validate parameters
+    if (!['day', 'week', 'month'].includes(interval)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Interval must be day, week or month',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    if ((dateFrom && isNaN(Date.parse(dateFrom))) || (dateTo && isNaN(Date.parse(dateTo)))) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Dates must be ISO 8601 strings',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const counts = await db.getCallScoreCounts({ campaignId, service, dateFrom, dateTo, interval })
+    const campaignIds = counts.filter(count => count.dimension === 'campaign').map(count => count.key)
+    const campaignNames = await db.getCampaignNames(Array.from(new Set(campaignIds)))
+    
+    const response = buildScoreReport(counts, campaignNames)
+    
+    return NextResponse.json<ApiResponse<ScoreReportResponse>>({
+      success: true,
+      data: response,
+      message: `${response.nps.responses} NPS and ${response.csat.responses} CSAT responses`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Score report API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build score report',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getTemplateVariables,
+  renderBotScript,
+  resolveBotScript,
+  validateBotScript
+} from '@/lib/bot-script'
+import { ApiResponse, BotScriptPreviewRequest, BotScriptPreviewResponse } from '@/types/api'
+
+/**
+ * Render a bot script for a sample customer, so it can be checked before starting a campaign
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: BotScriptPreviewRequest = await request.json()
+    
+    const botScript = resolveBotScript(body.botScript)
+    const botScriptError = validateBotScript(botScript)
+    if (botScriptError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: botScriptError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const rendered = renderBotScript(botScript, {
+      customerName: body.customerName?.trim() || 'Sarah',
+      customerReason: body.customerReason,
+      services: Array.isArray(body.services) && body.services.length > 0 ? body.services : ['credit-card'],
+      bankName: process.env.BANK_NAME || 'Your Bank',
+      botName: process.env.BOT_NAME || 'Customer Care Assistant'
+    })
+    
+    const variables = getTemplateVariables(
+      [botScript.systemPrompt, botScript.openingLine, botScript.closingLine].join('\n')
+    )
+    
+    return NextResponse.json<ApiResponse<BotScriptPreviewResponse>>({
+      success: true,
+      data: { botScript: rendered, variables },
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Bot script preview API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to preview bot script',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { getLiveCalls } from '@/lib/live-calls'
+import { ApiResponse, LiveCallsResponse } from '@/types/api'
+
+/**
+ * In-progress calls with their transcript so far, elapsed time and turn count
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const campaignId = url.searchParams.get('campaignId') || undefined
+    
+    await DatabaseClass.getInstance().connect()
+    
+    const calls = await getLiveCalls(campaignId)
+    
+    return NextResponse.json<ApiResponse<LiveCallsResponse>>({
+      success: true,
+      data: { calls },
+      message: `${calls.length} calls in progress`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Live calls API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve live calls',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
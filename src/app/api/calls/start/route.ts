@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { CallOrchestrator } from '@/lib/call-orchestrator'
-import { ApiResponse, StartCampaignRequest, StartCampaignResponse } from '@/types/api'
+import { CallOrchestrator, CampaignConfig } from '@/lib/call-orchestrator'
+import { ApiResponse, CampaignControlRequest, CampaignControlResponse, StartCampaignRequest, StartCampaignResponse } from '@/types/api'
+import { ExcelParser } from '@/lib/excel-parser'
+import { getAppBaseUrl } from '@/lib/callback-url'
+import { DEFAULT_CALLING_WINDOW, isValidTimeZone, validateCallingWindow } from '@/lib/calling-window'
+import { resolveConversationPolicy, validateConversationPolicy } from '@/lib/conversation-policy'
+import { resolveBotScript, validateBotScript } from '@/lib/bot-script'
+import { resolveScriptVariants, validateScriptVariantRequests } from '@/lib/script-library'
+import { resolveSurveyQuestions, validateSurveyQuestions } from '@/lib/survey'
+import { getSupportedLocale, resolveVoiceSettings, validateVoiceSettings } from '@/lib/voice-settings'
 import { ProcessedCustomer } from '@/types/customer'
 import { v4 as uuidv4 } from 'uuid'
 
@@ -54,12 +62,85 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
     
+    const callingWindow = body.settings?.callingWindow || DEFAULT_CALLING_WINDOW
+    const callingWindowError = validateCallingWindow(callingWindow)
+    if (callingWindowError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: callingWindowError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const conversationPolicy = resolveConversationPolicy(body.settings?.conversationPolicy)
+    const conversationPolicyError = validateConversationPolicy(conversationPolicy)
+    if (conversationPolicyError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: conversationPolicyError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const botScript = resolveBotScript(body.settings?.botScript)
+    const botScriptError = validateBotScript(botScript)
+    if (botScriptError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: botScriptError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const surveyQuestions = resolveSurveyQuestions(body.settings?.surveyQuestions)
+    const surveyQuestionsError = validateSurveyQuestions(surveyQuestions)
+    if (surveyQuestionsError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: surveyQuestionsError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const voiceSettings = resolveVoiceSettings(body.settings?.voiceSettings)
+    const voiceSettingsError = validateVoiceSettings(voiceSettings)
+    if (voiceSettingsError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: voiceSettingsError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const scriptVariantRequests = body.settings?.scriptVariants || []
+    const scriptVariantsError = validateScriptVariantRequests(scriptVariantRequests)
+    if (scriptVariantsError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: scriptVariantsError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const { variants: scriptVariants, error: scriptVariantLookupError } = await resolveScriptVariants(scriptVariantRequests)
+    if (scriptVariantLookupError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: scriptVariantLookupError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
     // Convert customers to ProcessedCustomer format
     const processedCustomers: ProcessedCustomer[] = body.customers.map(customer => ({
       id: uuidv4(),
       name: customer.name.trim(),
       phone: customer.phone.trim(),
       reason: customer.reason?.trim(), // Optional now
+      timeZone: customer.timeZone && isValidTimeZone(customer.timeZone)
+        ? customer.timeZone
+        : ExcelParser.inferTimeZone(customer.phone.trim()),
+      locale: getSupportedLocale(customer.locale) || undefined,
       matchedServices: body.services, // Use selected services directly
       priority: 'medium', // Default priority
       callEligible: true,
@@ -96,7 +177,7 @@ export async function POST(request: NextRequest) {
     }
     
     // Create campaign configuration
-    const campaignConfig = {
+    const campaignConfig: CampaignConfig = {
       name: `Campaign ${new Date().toLocaleString()}`,
       services: body.services,
       customers: eligibleCustomers,
@@ -104,11 +185,20 @@ export async function POST(request: NextRequest) {
       retrySettings: {
         maxRetries: body.settings?.retrySettings?.maxRetries || 3,
         retryDelay: Math.max(body.settings?.retrySettings?.retryDelay || 5, 1), // Min 1 minute delay
+        backoff: body.settings?.retrySettings?.backoff === 'exponential' ? 'exponential' : 'fixed',
         retryOnBusy: true,
         retryOnNoAnswer: true,
-        retryOnFailed: true
+        retryOnFailed: true,
+        retryOnVoicemail: body.settings?.retrySettings?.retryOnVoicemail ?? true
       },
-      botScript: body.settings?.botScript || generateDefaultBotScript()
+      callingWindow,
+      conversationPolicy,
+      botScript,
+      scriptVariants,
+      surveyQuestions,
+      voicemailMessage: body.settings?.voicemailMessage?.trim() || undefined,
+      voiceSettings,
+      callbackBaseUrl: getAppBaseUrl(request)
     }
     
     // Start the campaign
@@ -118,12 +208,13 @@ export async function POST(request: NextRequest) {
     // Calculate estimated duration (rough estimate: 3-5 minutes per call)
     const avgCallDuration = 4 * 60 // 4 minutes in seconds
     const estimatedDuration = Math.ceil(
-      (eligibleCustomers.length * avgCallDuration) / campaignConfig.maxConcurrentCalls
+      (result.callsScheduled * avgCallDuration) / campaignConfig.maxConcurrentCalls
     )
     
     const response: StartCampaignResponse = {
       campaignId: result.campaignId,
       callsScheduled: result.callsScheduled,
+      callsSuppressed: result.callsSuppressed,
       estimatedDuration,
       status: 'running'
     }
@@ -131,7 +222,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json<ApiResponse<StartCampaignResponse>>({
       success: true,
       data: response,
-      message: `Campaign started successfully. ${result.callsScheduled} calls scheduled for ${eligibleCustomers.length} customers.`,
+      message: `Campaign started successfully. ${result.callsScheduled} calls scheduled for ${eligibleCustomers.length} customers` +
+        (result.callsSuppressed > 0 ? `, ${result.callsSuppressed} skipped (do-not-call list).` : '.'),
       timestamp: new Date().toISOString()
     })
     
@@ -146,16 +238,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Generate default bot script
- */
-function generateDefaultBotScript(): string {
-  const bankName = process.env.BANK_NAME || 'Your Bank'
-  const botName = process.env.BOT_NAME || 'Customer Care Assistant'
-  
-  return `You are ${botName} from ${bankName}. Your role is to listen empathetically to customer feedback about their experience. Be understanding, ask follow-up questions, and make them feel heard. Do not try to solve problems - just gather their feedback and understand their perspective.`
-}
-
 // Handle other HTTP methods
 export async function GET() {
   return NextResponse.json<ApiResponse<null>>({
@@ -165,18 +247,104 @@ export async function GET() {
   }, { status: 405 })
 }
 
-export async function PUT() {
-  return NextResponse.json<ApiResponse<null>>({
-    success: false,
-    error: 'Method not allowed',
-    timestamp: new Date().toISOString()
-  }, { status: 405 })
+/**
+ * Pause or resume a campaign
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body: CampaignControlRequest = await request.json()
+    const { campaignId, action, hangUpActiveCalls } = body
+    
+    if (!campaignId || !action) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Missing required fields: campaignId and action',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    if (!['pause', 'resume'].includes(action)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Invalid action. Must be one of: pause, resume',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const orchestrator = new CallOrchestrator()
+    const result = action === 'pause'
+      ? await orchestrator.pauseCampaign(campaignId, { hangUpActiveCalls })
+      : await orchestrator.resumeCampaign(campaignId)
+    
+    if (!result.success) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: result.error,
+        timestamp: new Date().toISOString()
+      }, { status: result.error === 'Campaign not found' ? 404 : 409 })
+    }
+    
+    const status = action === 'pause' ? 'paused' : 'running'
+    
+    return NextResponse.json<ApiResponse<CampaignControlResponse>>({
+      success: true,
+      data: { campaignId, status },
+      message: `Campaign ${status}`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Campaign control API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update campaign',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
 }
 
-export async function DELETE() {
-  return NextResponse.json<ApiResponse<null>>({
-    success: false,
-    error: 'Method not allowed',
-    timestamp: new Date().toISOString()
-  }, { status: 405 })
+/**
+ * Cancel a campaign
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const body: CampaignControlRequest = await request.json()
+    const { campaignId, hangUpActiveCalls } = body
+    
+    if (!campaignId) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Missing required field: campaignId',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const orchestrator = new CallOrchestrator()
+    const result = await orchestrator.cancelCampaign(campaignId, { hangUpActiveCalls })
+    
+    if (!result.success) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: result.error,
+        timestamp: new Date().toISOString()
+      }, { status: result.error === 'Campaign not found' ? 404 : 409 })
+    }
+    
+    return NextResponse.json<ApiResponse<CampaignControlResponse>>({
+      success: true,
+      data: { campaignId, status: 'cancelled', callsCancelled: result.callsCancelled },
+      message: `Campaign cancelled. ${result.callsCancelled} calls cancelled.`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Campaign cancel API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel campaign',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
 }
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { CallOrchestrator } from '@/lib/call-orchestrator'
 import DatabaseClass from '@/lib/database'
+import { formatCallForResponse } from '@/lib/call-format'
+import { RealtimePublisher } from '@/lib/realtime'
 import { ApiResponse, CallStatusResponse, PaginatedResponse } from '@/types/api'
+import { InvalidCallTransitionError } from '@/lib/call-state-machine'
 import { Call, CallStatus } from '@/types/call'
 
 /**
@@ -46,7 +49,29 @@ export async function GET(request: NextRequest) {
         success: true,
         data: {
           call: formatCallForResponse(call),
-          campaign: await getCampaignSummary(call.campaignId)
+          campaign: await getCampaignSummary(call.campaignId),
+          events: (await db.getCallEvents(callId)).map(event => ({
+            fromStatus: event.fromStatus,
+            toStatus: event.toStatus,
+            cause: event.cause,
+            timestamp: event.createdAt.toISOString()
+          })),
+          attempts: (await db.getCallAttempts(callId)).map(attempt => ({
+            attemptNumber: attempt.attemptNumber,
+            outcome: attempt.outcome,
+            errorMessage: attempt.errorMessage,
+            duration: attempt.duration,
+            startedAt: attempt.startedAt?.toISOString(),
+            endedAt: attempt.endedAt.toISOString()
+          })),
+          surveyAnswers: (await db.getSurveyAnswersByCall(callId)).map(answer => ({
+            questionId: answer.questionId,
+            type: answer.type,
+            value: answer.value,
+            source: answer.source,
+            rawInput: answer.rawInput,
+            answeredAt: answer.answeredAt.toISOString()
+          }))
         },
         timestamp: new Date().toISOString()
       })
@@ -159,10 +184,8 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 })
     }
     
-    // Validate status
-    const validStatuses: CallStatus[] = [
-      'pending', 'calling', 'ringing', 'answered', 'completed', 'failed', 'cancelled', 'voicemail', 'retry'
-    ]
+    // Validate status - only manual interventions, the call state machine decides the rest
+    const validStatuses: CallStatus[] = ['pending', 'completed', 'failed', 'cancelled']
     
     if (!validStatuses.includes(status)) {
       return NextResponse.json<ApiResponse<null>>({
@@ -185,7 +208,16 @@ export async function PUT(request: NextRequest) {
       updates.endedAt = new Date()
     }
     
-    await db.updateCallStatus(callId, status, updates)
+    await db.updateCallStatus(callId, status, updates, 'manual')
+    await new RealtimePublisher(db).publishCallChange(callId)
+    
+    // Manually retried calls go straight back into the dispatch queue
+    if (status === 'pending') {
+      const call = await db.getCallById(callId)
+      if (call) {
+        await new CallOrchestrator().requestDispatch(call.campaignId)
+      }
+    }
     
     return NextResponse.json<ApiResponse<{ callId: string; status: CallStatus }>>({
       success: true,
@@ -197,6 +229,14 @@ export async function PUT(request: NextRequest) {
   } catch (error) {
     console.error('Call status update error:', error)
     
+    if (error instanceof InvalidCallTransitionError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: 409 })
+    }
+    
     return NextResponse.json<ApiResponse<null>>({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to update call status',
@@ -225,11 +265,19 @@ export async function DELETE(request: NextRequest) {
     
     if (campaignId) {
       // Cancel entire campaign
-      await orchestrator.cancelCampaign(campaignId)
+      const result = await orchestrator.cancelCampaign(campaignId)
+      
+      if (!result.success) {
+        return NextResponse.json<ApiResponse<null>>({
+          success: false,
+          error: result.error,
+          timestamp: new Date().toISOString()
+        }, { status: result.error === 'Campaign not found' ? 404 : 409 })
+      }
       
-      return NextResponse.json<ApiResponse<{ campaignId: string }>>({
+      return NextResponse.json<ApiResponse<{ campaignId: string; callsCancelled: number }>>({
         success: true,
-        data: { campaignId },
+        data: { campaignId, callsCancelled: result.callsCancelled },
         message: 'Campaign cancelled successfully',
         timestamp: new Date().toISOString()
       })
@@ -238,11 +286,13 @@ export async function DELETE(request: NextRequest) {
       const db = DatabaseClass.getInstance()
       await db.connect()
       
+      const realtime = new RealtimePublisher(db)
       let cancelledCount = 0
       
       for (const callId of callIds) {
         try {
-          await db.updateCallStatus(callId, 'cancelled')
+          await db.updateCallStatus(callId, 'cancelled', undefined, 'manual')
+          await realtime.publishCallChange(callId)
           cancelledCount++
         } catch (error) {
           console.error(`Failed to cancel call ${callId}:`, error)
@@ -268,31 +318,6 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-/**
- * Format call object for API response
- */
-function formatCallForResponse(call: Call) {
-  return {
-    id: call.id,
-    customerName: call.customerName,
-    customerPhone: call.customerPhone,
-    status: call.status,
-    scheduledAt: call.scheduledAt.toISOString(),
-    startedAt: call.startedAt?.toISOString(),
-    endedAt: call.endedAt?.toISOString(),
-    duration: call.duration,
-    transcript: call.transcript,
-    summary: call.summary,
-    sentiment: call.sentiment,
-    keyIssues: call.keyIssues,
-    errorMessage: call.errorMessage,
-    retryCount: call.retryCount,
-    maxRetries: call.maxRetries,
-    services: call.services,
-    campaignId: call.campaignId
-  }
-}
-
 /**
  * Sort calls by specified field and order
  */
@@ -1,6 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { CallOrchestrator } from '@/lib/call-orchestrator'
+import { CallOrchestrator, CustomerTurnResult } from '@/lib/call-orchestrator'
 import Database from '@/lib/database'
+import { TwilioClient } from '@/lib/twilio-client'
+import { forbiddenTwilioResponse, verifyTwilioRequest } from '@/lib/twilio-signature'
+import { OPT_OUT_DIGIT } from '@/lib/do-not-call'
+import { DEFAULT_BOT_SCRIPT, getOpeningLine, renderTemplate } from '@/lib/bot-script'
+import { getCallPrompt } from '@/lib/call-prompts'
+import { estimateSpeechDurationMs, wasPromptInterrupted } from '@/lib/barge-in'
+import { buildCallbackUrl, CallbackParams, escapeXml, getAppBaseUrl } from '@/lib/callback-url'
+import {
+  DEFAULT_VOICE_SETTINGS,
+  getCallVoiceSettings,
+  getGatherLanguageAttributes,
+  getSayAttributes
+} from '@/lib/voice-settings'
+import { VoiceSettings } from '@/types/call'
 
 /**
  * Generate TwiML for call conversation flow
@@ -10,12 +24,22 @@ export async function POST(request: NextRequest) {
     const url = new URL(request.url)
     const callId = url.searchParams.get('callId')
     const campaignId = url.searchParams.get('campaignId')
+    const questionId = url.searchParams.get('questionId')
+    const questionAttempt = parseInt(url.searchParams.get('questionAttempt') || '0') || 0
+    const promptAt = parseInt(url.searchParams.get('promptAt') || '')
+    const promptMs = parseInt(url.searchParams.get('promptMs') || '')
     
-    console.log('TwiML request received:', { callId, campaignId })
+    console.log('TwiML request received:', { callId, campaignId, questionId })
     
     // Parse form data from Twilio
     const body = await request.text()
+    
+    if (!verifyTwilioRequest(request, body)) {
+      return forbiddenTwilioResponse()
+    }
+    
     const formData = new URLSearchParams(body)
+    const baseUrl = getAppBaseUrl(request)
     
     const callSid = formData.get('CallSid')
     const callStatus = formData.get('CallStatus')
@@ -24,6 +48,7 @@ export async function POST(request: NextRequest) {
     const digits = formData.get('Digits')
     const speechResult = formData.get('SpeechResult')
     const confidence = formData.get('Confidence')
+    const answeredBy = formData.get('AnsweredBy')
     
     console.log('TwiML parsed data:', {
       callId,
@@ -34,7 +59,8 @@ export async function POST(request: NextRequest) {
       to,
       digits,
       speechResult: speechResult?.substring(0, 100),
-      confidence
+      confidence,
+      answeredBy
     })
     
     // Get call and customer information
@@ -43,6 +69,8 @@ export async function POST(request: NextRequest) {
     
     let customerName = 'Valued Customer'
     let services: string[] = []
+    let voice = DEFAULT_VOICE_SETTINGS
+    let detectingLanguage = false
     
     if (callId && campaignId) {
       try {
@@ -51,6 +79,11 @@ export async function POST(request: NextRequest) {
         if (call) {
           customerName = call.customerName
           services = call.services || []
+          
+          // The language the customer answered in, or their locale, overrides the campaign's voice
+          const campaign = await db.getCampaignById(call.campaignId)
+          voice = getCallVoiceSettings(campaign?.voiceSettings, call.detectedLocale || call.locale)
+          detectingLanguage = !call.detectedLocale
         } else {
           console.log(`Call not found for callId: ${callId}`)
         }
@@ -59,16 +92,69 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    // Answering machine detection - never start the survey with a voicemail box
+    if (!speechResult && !digits && callId && answeredBy && (answeredBy.startsWith('machine') || answeredBy === 'fax')) {
+      console.log(`Answering machine detected (${answeredBy}) for call:`, callId)
+      const orchestrator = new CallOrchestrator()
+      const voicemailTwiML = await orchestrator.handleAnsweringMachine(callId, answeredBy)
+      return new NextResponse(voicemailTwiML, {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+    
+    // Real-time conversation over a media stream, when a stream server is configured
+    if (!speechResult && !digits && callId && process.env.MEDIA_STREAM_URL) {
+      console.log('Connecting call to the media stream:', callId)
+      return new NextResponse(new TwilioClient().generateTwiML(callId, campaignId || '', baseUrl, voice), {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+    
     // Handle different stages of the conversation
     if (!speechResult && !digits) {
-      // Initial call - generate opening message
+      // Initial call - generate opening message from the campaign's bot script
       console.log('Generating opening TwiML for:', customerName, 'Services:', services)
-      const openingTwiML = generateOpeningTwiML(customerName, services, callId || '', campaignId || '')
+      const openingMessage = callId
+        ? await new CallOrchestrator().getOpeningMessage(callId)
+        : renderTemplate(getOpeningLine(DEFAULT_BOT_SCRIPT, voice.locale), {
+          customerName,
+          services,
+          bankName: process.env.BANK_NAME || 'Your Bank',
+          botName: process.env.BOT_NAME || 'Customer Care Assistant',
+          locale: voice.locale
+        })
+      const openingTwiML = generateOpeningTwiML(openingMessage, callId || '', campaignId || '', baseUrl, voice, detectingLanguage)
       return new NextResponse(openingTwiML, {
         headers: { 'Content-Type': 'text/xml' }
       })
     }
     
+    // Barge-in - the customer answered over the bot's prompt
+    if (callId && (speechResult || digits) && !isNaN(promptAt) && !isNaN(promptMs) &&
+        wasPromptInterrupted({ issuedAt: promptAt, durationMs: promptMs }, speechResult || '')) {
+      console.log('Customer interrupted the prompt for call:', callId)
+      await new CallOrchestrator().markReplyInterrupted(callId)
+    }
+    
+    // Answer to a survey question - key presses are answers here, not menu choices
+    if (questionId && callId && (speechResult || digits)) {
+      console.log(`Handling answer to survey question ${questionId}:`, (speechResult || digits || '').substring(0, 100))
+      const surveyTwiML = await handleSurveyAnswer(
+        callId,
+        campaignId || '',
+        questionId,
+        questionAttempt,
+        speechResult ? { input: speechResult, source: 'speech' } : { input: digits || '', source: 'dtmf' },
+        customerName,
+        baseUrl,
+        voice
+      )
+      
+      return new NextResponse(surveyTwiML, {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+    
     // Handle customer response
     if (speechResult && callId) {
       console.log('Handling customer response:', speechResult.substring(0, 100))
@@ -76,7 +162,9 @@ export async function POST(request: NextRequest) {
         callId,
         campaignId || '',
         speechResult, 
-        customerName
+        customerName,
+        baseUrl,
+        voice
       )
       
       return new NextResponse(conversationTwiML, {
@@ -84,10 +172,20 @@ export async function POST(request: NextRequest) {
       })
     }
     
+    // Opt-out key - never call this customer again
+    if (digits === OPT_OUT_DIGIT && callId) {
+      console.log('Customer pressed the opt-out key for call:', callId)
+      const orchestrator = new CallOrchestrator()
+      const closingMessage = await orchestrator.optOutCustomer(callId, 'dtmf')
+      return new NextResponse(generateClosingTwiML(closingMessage, customerName, voice), {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+    
     // Handle DTMF digits (if customer presses keys)
     if (digits) {
       console.log('Handling DTMF digits:', digits)
-      const dtmfTwiML = handleDTMFResponse(digits, customerName)
+      const dtmfTwiML = handleDTMFResponse(digits, customerName, baseUrl, voice)
       return new NextResponse(dtmfTwiML, {
         headers: { 'Content-Type': 'application/xml' }
       })
@@ -95,7 +193,7 @@ export async function POST(request: NextRequest) {
     
     // Fallback TwiML
     console.log('Using fallback TwiML')
-    const fallbackTwiML = generateFallbackTwiML()
+    const fallbackTwiML = generateFallbackTwiML(voice)
     return new NextResponse(fallbackTwiML, {
       headers: { 'Content-Type': 'application/xml' }
     })
@@ -105,7 +203,7 @@ export async function POST(request: NextRequest) {
     
     const errorTwiML = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">
+    <Say ${getSayAttributes(DEFAULT_VOICE_SETTINGS)}>
         I apologize, but we're experiencing technical difficulties. 
         Thank you for your time, and please feel free to call our customer service line directly.
     </Say>
@@ -121,62 +219,33 @@ export async function POST(request: NextRequest) {
 /**
  * Generate opening TwiML for the call
  */
-function generateOpeningTwiML(customerName: string, services: string[], callId: string, campaignId: string): string {
-  const bankName = process.env.BANK_NAME || 'Your Bank'
-  const botName = process.env.BOT_NAME || 'Customer Care Assistant'
-  
-  // Determine service context and question based on selected services
-  let serviceContext = 'your experience with us'
-  let question = 'Could you share your thoughts about your recent experience?'
-  
-  // Check the first service in the array (primary service)
-  if (services && services.length > 0) {
-    const primaryService = services[0].toLowerCase().replace(/-/g, ' ').replace(/_/g, ' ')
-    
-    if (primaryService.includes('credit') && primaryService.includes('card')) {
-      serviceContext = 'your credit card experience'
-      question = 'Could you share what has been on your mind regarding your credit card?'
-    } else if (primaryService.includes('personal') && primaryService.includes('bank')) {
-      serviceContext = 'your personal banking experience'
-      question = 'Could you tell me about your recent banking experience?'
-    } else if (primaryService.includes('loan')) {
-      serviceContext = 'your loan experience'
-      question = 'Could you share your thoughts about your loan experience?'
-    } else if (primaryService.includes('mortgage')) {
-      serviceContext = 'your mortgage experience'
-      question = 'Could you tell me about your mortgage experience with us?'
-    } else if (primaryService.includes('business')) {
-      serviceContext = 'your business banking experience'
-      question = 'Could you share your thoughts about our business banking services?'
-    } else if (primaryService.includes('investment')) {
-      serviceContext = 'your investment experience'
-      question = 'Could you tell me about your experience with our investment services?'
-    } else if (primaryService.includes('mobile') || primaryService.includes('online')) {
-      serviceContext = 'your digital banking experience'
-      question = 'Could you share your thoughts about our mobile or online banking?'
-    } else if (primaryService.includes('customer') && primaryService.includes('service')) {
-      serviceContext = 'your customer service experience'
-      question = 'Could you tell me about your recent experience with our customer service?'
-    }
-  }
-  
-  const openingMessage = `Hello ${customerName}, this is ${botName} from ${bankName}. I'm calling about ${serviceContext}. ${question}`
+function generateOpeningTwiML(
+  openingMessage: string,
+  callId: string,
+  campaignId: string,
+  baseUrl: string,
+  voice: VoiceSettings,
+  detectingLanguage: boolean
+): string {
+  const message = `${openingMessage} ${getCallPrompt('optOutNotice', voice.locale, { digit: OPT_OUT_DIGIT })}`
   
+  // The prompt plays inside the Gather so the customer can talk over it
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">${openingMessage}</Say>
-    <Pause length="1"/>
     <Gather 
-        input="speech" 
+        input="speech dtmf" 
+        numDigits="1"
         timeout="30"
         speechTimeout="auto"
-        language="en-US"
-        action="https://voice-bot-grievance-survey.vercel.app/api/calls/twiml?callId=${callId}&amp;campaignId=${campaignId}"
+        ${getGatherLanguageAttributes(voice, detectingLanguage)}
+        bargeIn="true"
+        action="${escapeXml(buildCallbackUrl('/api/calls/twiml', { callId, campaignId, ...getPromptParams(message) }, baseUrl))}"
         method="POST">
+        <Say ${getSayAttributes(voice)}>${escapeXml(message)}</Say>
     </Gather>
     
-    <Say voice="Polly.Joanna-Neural" language="en-US">
-        I didn't hear a response. Thank you for your time.
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('noResponse', voice.locale))}
     </Say>
     <Hangup />
 </Response>`
@@ -189,87 +258,162 @@ async function handleCustomerResponse(
   callId: string,
   campaignId: string,
   speechResult: string, 
-  customerName: string
+  customerName: string,
+  baseUrl: string,
+  voice: VoiceSettings
 ): Promise<string> {
   try {
     // Use CallOrchestrator to process the response with OpenAI
     const orchestrator = new CallOrchestrator()
-    const aiResponse = await orchestrator.handleCustomerInput(callId, speechResult)
+    const result = await orchestrator.handleCustomerInput(callId, speechResult)
     
-    // Check if this response indicates the call should end
-    const shouldEndCall = checkIfShouldEndCall(speechResult, aiResponse)
+    return generateTurnTwiML(result, callId, campaignId, customerName, baseUrl, voice)
     
-    if (shouldEndCall) {
-      // End call immediately with ONLY the AI response and hangup - NO Gather
-      return `<?xml version="1.0" encoding="UTF-8"?>
+  } catch (error) {
+    console.error('Error handling customer response:', error)
+    
+    return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">${aiResponse.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</Say>
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('feedbackThanks', voice.locale, { customerName }))}
+    </Say>
     <Hangup />
 </Response>`
-    }
+  }
+}
+
+/**
+ * Record the answer to a survey question and continue the survey
+ */
+async function handleSurveyAnswer(
+  callId: string,
+  campaignId: string,
+  questionId: string,
+  questionAttempt: number,
+  answer: { input: string; source: 'speech' | 'dtmf' },
+  customerName: string,
+  baseUrl: string,
+  voice: VoiceSettings
+): Promise<string> {
+  try {
+    const orchestrator = new CallOrchestrator()
+    const result = await orchestrator.answerSurveyQuestion(callId, questionId, answer.input, answer.source, questionAttempt)
+    
+    return generateTurnTwiML(result, callId, campaignId, customerName, baseUrl, voice)
+    
+  } catch (error) {
+    console.error('Error handling survey answer:', error)
     
-    // Continue conversation
     return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('feedbackThanks', voice.locale, { customerName }))}
+    </Say>
+    <Hangup />
+</Response>`
+  }
+}
+
+/**
+ * Speak the bot's reply, then either hang up or listen for the customer's next answer
+ */
+function generateTurnTwiML(
+  result: CustomerTurnResult,
+  callId: string,
+  campaignId: string,
+  customerName: string,
+  baseUrl: string,
+  callVoice: VoiceSettings
+): string {
+  // The call may have just switched to the customer's language
+  const voice = getCallVoiceSettings(callVoice, result.locale)
+  
+  if (result.endCall) {
+    // End call immediately with ONLY the closing message and hangup - NO Gather
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Say ${getSayAttributes(voice)}>${escapeXml(result.message)}</Say>
+    <Hangup />
+</Response>`
+  }
+  
+  const { question } = result
+  const params: CallbackParams = { callId, campaignId }
+  let inputAttributes = `input="speech dtmf" 
+        numDigits="1"`
+  
+  if (question) {
+    params.questionId = question.id
+    params.questionAttempt = result.questionAttempt || 0
+    
+    // Scores can take two keys; free text answers are spoken only
+    if (question.type === 'nps') {
+      inputAttributes = `input="speech dtmf" 
+        numDigits="2"
+        finishOnKey="#"`
+    } else if (question.type === 'free_text') {
+      inputAttributes = `input="speech"`
+    }
+  }
+  
+  const action = buildCallbackUrl('/api/calls/twiml', { ...params, ...getPromptParams(result.message) }, baseUrl)
+  
+  // Continue conversation - the reply plays inside the Gather so the customer can interrupt it
+  return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
     <Pause length="0.5"/>
-    <Say voice="Polly.Joanna-Neural" language="en-US">${aiResponse.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</Say>
-    <Pause length="1"/>
     <Gather 
-        input="speech" 
+        ${inputAttributes}
         timeout="30"
         speechTimeout="auto"
-        language="en-US"
-        action="https://voice-bot-grievance-survey.vercel.app/api/calls/twiml?callId=${callId}&amp;campaignId=${campaignId}"
+        ${getGatherLanguageAttributes(voice, result.detectingLanguage)}
+        bargeIn="true"
+        action="${escapeXml(action)}"
         method="POST">
+        <Say ${getSayAttributes(voice)}>${escapeXml(result.message)}</Say>
     </Gather>
     
-    <Say voice="Polly.Joanna-Neural" language="en-US">
-        Thank you for sharing your feedback, ${customerName}. Have a wonderful day.
-    </Say>
-    <Hangup />
-</Response>`
-    
-  } catch (error) {
-    console.error('Error handling customer response:', error)
-    
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">
-        Thank you for your time, ${customerName}. Your feedback is very important to us.
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('turnGoodbye', voice.locale, { customerName }))}
     </Say>
     <Hangup />
 </Response>`
-  }
+}
+
+/**
+ * When a prompt was served and how long it takes to say, for barge-in detection on the answer
+ */
+function getPromptParams(prompt: string): CallbackParams {
+  return { promptAt: Date.now(), promptMs: estimateSpeechDurationMs(prompt) }
 }
 
 /**
  * Handle DTMF key press responses
  */
-function handleDTMFResponse(digits: string, customerName: string): string {
+function handleDTMFResponse(digits: string, customerName: string, baseUrl: string, voice: VoiceSettings): string {
   switch (digits) {
     case '1':
       return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">
-        Great! I'd love to hear about your experience. Please tell me what happened.
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('keyContinue', voice.locale))}
     </Say>
     <Gather 
         input="speech" 
         timeout="30" 
         speechTimeout="auto"
-        language="en-US"
-        action="https://voice-bot-grievance-survey.vercel.app/api/calls/twiml"
+        ${getGatherLanguageAttributes(voice)}
+        action="${escapeXml(buildCallbackUrl('/api/calls/twiml', {}, baseUrl))}"
         method="POST">
     </Gather>
     <Hangup />
 </Response>`
     
     case '2':
-    case '9':
       return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">
-        I completely understand, ${customerName}. Thank you for your time.
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('keyDecline', voice.locale, { customerName }))}
     </Say>
     <Hangup />
 </Response>`
@@ -277,15 +421,15 @@ function handleDTMFResponse(digits: string, customerName: string): string {
     default:
       return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">
-        I'm sorry, I didn't understand that. If you'd like to continue, just start speaking.
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('keyNotUnderstood', voice.locale))}
     </Say>
     <Gather 
         input="speech" 
         timeout="30"
         speechTimeout="auto"
-        language="en-US"
-        action="https://voice-bot-grievance-survey.vercel.app/api/calls/twiml"
+        ${getGatherLanguageAttributes(voice)}
+        action="${escapeXml(buildCallbackUrl('/api/calls/twiml', {}, baseUrl))}"
         method="POST">
     </Gather>
     <Hangup />
@@ -293,32 +437,15 @@ function handleDTMFResponse(digits: string, customerName: string): string {
   }
 }
 
-/**
- * Check if call should end based on customer response
- */
-function checkIfShouldEndCall(speechResult: string, aiResponse: string): boolean {
-  const lowerAI = aiResponse.toLowerCase()
-  
-  // ONLY end if the AI response contains VERY specific closing phrases from generateClosingMessage()
-  const strictEndIndicators = [
-    'we value your feedback tremendously',
-    'everything you\'ve shared will be passed along',
-    'giving us this opportunity to listen',
-    'we\'ve heard everything you\'ve shared'
-  ]
-  
-  return strictEndIndicators.some(indicator => lowerAI.includes(indicator))
-}
-
 /**
  * Generate closing TwiML
  */
-function generateClosingTwiML(message: string, customerName: string): string {
+function generateClosingTwiML(message: string, customerName: string, voice: VoiceSettings): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">${message.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</Say>
-    <Say voice="Polly.Joanna-Neural" language="en-US">
-        Have a wonderful day, ${customerName}.
+    <Say ${getSayAttributes(voice)}>${escapeXml(message)}</Say>
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('closingGoodbye', voice.locale, { customerName }))}
     </Say>
     <Hangup />
 </Response>`
@@ -327,11 +454,11 @@ function generateClosingTwiML(message: string, customerName: string): string {
 /**
  * Generate fallback TwiML for unexpected scenarios
  */
-function generateFallbackTwiML(): string {
+function generateFallbackTwiML(voice: VoiceSettings): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">
-        Thank you for your time. Have a great day.
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('fallbackGoodbye', voice.locale))}
     </Say>
     <Hangup />
 </Response>`
@@ -347,7 +474,7 @@ export async function GET(request: NextRequest) {
   if (test === 'true') {
     const testTwiML = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="Polly.Joanna-Neural" language="en-US">
+    <Say ${getSayAttributes(DEFAULT_VOICE_SETTINGS)}>
         This is a test of the TwiML endpoint. The system is working correctly.
     </Say>
     <Hangup />
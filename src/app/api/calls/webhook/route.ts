@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { CallOrchestrator } from '@/lib/call-orchestrator'
+import { forbiddenTwilioResponse, verifyTwilioRequest } from '@/lib/twilio-signature'
 import { TwilioWebhookPayload } from '@/types/api'
 
 /**
@@ -13,6 +14,10 @@ export async function POST(request: NextRequest) {
     
     console.log('Twilio webhook received')
     
+    if (!verifyTwilioRequest(request, body)) {
+      return forbiddenTwilioResponse()
+    }
+    
     // Parse form data from Twilio
     let webhookData: TwilioWebhookPayload
     
@@ -91,6 +96,7 @@ function parseFormData(formData: URLSearchParams): TwilioWebhookPayload {
     RecordingSid: formData.get('RecordingSid') || undefined,
     TranscriptionText: formData.get('TranscriptionText') || undefined,
     TranscriptionStatus: formData.get('TranscriptionStatus') || undefined,
+    AnsweredBy: formData.get('AnsweredBy') || undefined,
     campaignId: formData.get('campaignId') || undefined,
     customerId: formData.get('customerId') || undefined
   }
@@ -139,50 +145,6 @@ function generateTwiMLResponse(webhookData: TwilioWebhookPayload): string {
   return '<?xml version="1.0" encoding="UTF-8"?><Response></Response>'
 }
 
-/**
- * Handle machine detection webhook
- */
-async function handleMachineDetection(request: NextRequest) {
-  try {
-    const body = await request.text()
-    const formData = new URLSearchParams(body)
-    
-    const answeredBy = formData.get('AnsweredBy') // 'human' or 'machine'
-    const callSid = formData.get('CallSid')
-    
-    console.log(`Machine detection result for ${callSid}: ${answeredBy}`)
-    
-    if (answeredBy === 'machine') {
-      // Handle voicemail
-      const voicemailTwiML = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-    <Say voice="alice" language="en-US">
-        Hello, this is a message from ${process.env.BANK_NAME || 'your bank'} 
-        regarding your recent feedback. We would love to speak with you personally 
-        about your banking experience. Please call us back at your convenience 
-        at your earliest opportunity. Thank you for your time.
-    </Say>
-    <Hangup />
-</Response>`
-      
-      return new NextResponse(voicemailTwiML, {
-        headers: { 'Content-Type': 'application/xml' }
-      })
-    } else {
-      // Continue with human conversation
-      return new NextResponse('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
-        headers: { 'Content-Type': 'application/xml' }
-      })
-    }
-    
-  } catch (error) {
-    console.error('Machine detection error:', error)
-    return new NextResponse('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
-      headers: { 'Content-Type': 'application/xml' }
-    })
-  }
-}
-
 // Handle GET requests (for webhook verification)
 export async function GET(request: NextRequest) {
   const url = new URL(request.url)
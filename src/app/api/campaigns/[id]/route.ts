@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CallOrchestrator } from '@/lib/call-orchestrator'
+import { formatCampaignSummary } from '@/lib/campaign-summary'
+import { ApiResponse, CampaignDetailResponse } from '@/types/api'
+
+/**
+ * Get campaign detail with live call status counts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const orchestrator = new CallOrchestrator()
+    const campaignStatus = await orchestrator.getCampaignStatus(params.id)
+    
+    if (!campaignStatus) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Campaign not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    const { campaign, statusCounts } = campaignStatus
+    const summary = formatCampaignSummary(campaign, statusCounts)
+    
+    // Terminal calls count towards progress
+    const finishedCalls = summary.completedCalls + summary.failedCalls + (statusCounts.voicemail || 0)
+    
+    const response: CampaignDetailResponse = {
+      campaign: {
+        ...summary,
+        retrySettings: campaign.retrySettings,
+        callingWindow: campaign.callingWindow,
+        conversationPolicy: campaign.conversationPolicy,
+        botScript: campaign.botScript,
+        surveyQuestions: campaign.surveyQuestions,
+        voicemailMessage: campaign.voicemailMessage,
+        estimatedDuration: campaign.estimatedDuration
+      },
+      statusCounts,
+      progress: summary.totalCalls > 0 ? Math.round((finishedCalls / summary.totalCalls) * 100) : 0,
+      scriptVariants: campaignStatus.scriptVariants
+    }
+    
+    return NextResponse.json<ApiResponse<CampaignDetailResponse>>({
+      success: true,
+      data: response,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Campaign detail API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve campaign',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { summarizeSurveyAnswers } from '@/lib/survey'
+import { ApiResponse, SurveyResultsResponse } from '@/types/api'
+
+/**
+ * Survey answers of a campaign, aggregated per question
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const campaign = await db.getCampaignById(params.id)
+    if (!campaign) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Campaign not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    const answers = await db.getSurveyAnswersByCampaign(campaign.id)
+    
+    const response: SurveyResultsResponse = {
+      campaignId: campaign.id,
+      respondents: new Set(answers.filter(answer => answer.value !== null).map(answer => answer.callId)).size,
+      questions: summarizeSurveyAnswers(campaign.surveyQuestions, answers)
+    }
+    
+    return NextResponse.json<ApiResponse<SurveyResultsResponse>>({
+      success: true,
+      data: response,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Survey results API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve survey results',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { formatCampaignSummary } from '@/lib/campaign-summary'
+import { ApiResponse, CampaignSummary, PaginatedResponse } from '@/types/api'
+
+/**
+ * List campaigns with filters and pagination
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const status = url.searchParams.get('status') || undefined
+    const service = url.searchParams.get('service') || undefined
+    const dateFrom = url.searchParams.get('dateFrom') || undefined
+    const dateTo = url.searchParams.get('dateTo') || undefined
+    const search = url.searchParams.get('search') || undefined
+    const limit = parseInt(url.searchParams.get('limit') || '20')
+    const offset = parseInt(url.searchParams.get('offset') || '0')
+    const sortBy = url.searchParams.get('sortBy') || 'createdAt'
+    const sortOrder = url.searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc'
+    
+    // Validate parameters
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Limit must be between 1 and 100',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Offset must be a non-negative number',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const { campaigns, total } = await db.getCampaigns({
+      status,
+      service,
+      dateFrom,
+      dateTo,
+      search,
+      limit,
+      offset,
+      sortBy,
+      sortOrder
+    })
+    
+    // Live call counts for the campaigns on this page
+    const statusCounts = await db.getCallStatusCountsByCampaign(campaigns.map(c => c.id))
+    
+    const response: PaginatedResponse<CampaignSummary> = {
+      data: campaigns.map(campaign => formatCampaignSummary(campaign, statusCounts[campaign.id] || {})),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: Math.floor(offset / limit) + 1
+      }
+    }
+    
+    return NextResponse.json<ApiResponse<PaginatedResponse<CampaignSummary>>>({
+      success: true,
+      data: response,
+      message: `${campaigns.length} of ${total} campaigns retrieved`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Campaign list API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve campaigns',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+// Handle other methods
+export async function POST() {
+  return NextResponse.json<ApiResponse<null>>({
+    success: false,
+    error: 'Method not allowed. Use POST /api/calls/start to create a campaign.',
+    timestamp: new Date().toISOString()
+  }, { status: 405 })
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { ExcelParser } from '@/lib/excel-parser'
+import { addPhonesToDoNotCallList } from '@/lib/do-not-call'
+import { ApiResponse, DoNotCallAddResponse } from '@/types/api'
+
+/**
+ * Import a suppression file (Excel or CSV) into the do-not-call list
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    const reason = formData.get('reason')
+    
+    if (!file) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'No file provided',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    // Validate file size (10MB limit)
+    if (file.size > 10 * 1024 * 1024) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'File size exceeds 10MB limit',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const { phones, errors } = await ExcelParser.parsePhoneList(file)
+    
+    if (phones.length === 0) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: errors.length > 0 ? errors.slice(0, 10).join('; ') : 'No phone numbers found in file',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    await DatabaseClass.getInstance().connect()
+    
+    const result = await addPhonesToDoNotCallList(
+      phones,
+      'import',
+      typeof reason === 'string' && reason.trim() ? reason.trim() : `Imported from ${file.name}`
+    )
+    
+    const response: DoNotCallAddResponse = {
+      ...result,
+      invalid: [...errors, ...result.invalid]
+    }
+    
+    return NextResponse.json<ApiResponse<DoNotCallAddResponse>>({
+      success: true,
+      data: response,
+      message: `${response.added} numbers added to the do-not-call list, ${response.alreadyListed} already listed`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Do-not-call import API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import do-not-call list',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { addPhonesToDoNotCallList, normalizeDoNotCallPhone } from '@/lib/do-not-call'
+import {
+  ApiResponse,
+  DoNotCallAddRequest,
+  DoNotCallAddResponse,
+  DoNotCallEntryResponse,
+  PaginatedResponse
+} from '@/types/api'
+
+/**
+ * List numbers on the do-not-call list
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const search = url.searchParams.get('search') || undefined
+    const limit = parseInt(url.searchParams.get('limit') || '50')
+    const offset = parseInt(url.searchParams.get('offset') || '0')
+    
+    // Validate parameters
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Limit must be between 1 and 200',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Offset must be a non-negative number',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const { entries, total } = await db.getDoNotCallList({ search, limit, offset })
+    
+    const response: PaginatedResponse<DoNotCallEntryResponse> = {
+      data: entries.map(entry => ({
+        phone: entry.phone,
+        source: entry.source,
+        reason: entry.reason,
+        callId: entry.callId,
+        createdAt: entry.createdAt.toISOString()
+      })),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: Math.floor(offset / limit) + 1
+      }
+    }
+    
+    return NextResponse.json<ApiResponse<PaginatedResponse<DoNotCallEntryResponse>>>({
+      success: true,
+      data: response,
+      message: `${entries.length} of ${total} numbers retrieved`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Do-not-call list API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve do-not-call list',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Add numbers to the do-not-call list
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: DoNotCallAddRequest = await request.json()
+    
+    if (!body.phones || !Array.isArray(body.phones) || body.phones.length === 0) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'No phone numbers provided',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    await DatabaseClass.getInstance().connect()
+    
+    const response = await addPhonesToDoNotCallList(body.phones, 'api', body.reason?.trim() || undefined)
+    
+    return NextResponse.json<ApiResponse<DoNotCallAddResponse>>({
+      success: true,
+      data: response,
+      message: `${response.added} numbers added to the do-not-call list`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Do-not-call add API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update do-not-call list',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Remove a number from the do-not-call list
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const phone = url.searchParams.get('phone')
+    
+    if (!phone) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Phone number is required',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const removed = await db.removeFromDoNotCallList(normalizeDoNotCallPhone(phone))
+    
+    if (!removed) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Number is not on the do-not-call list',
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: true,
+      message: 'Number removed from the do-not-call list',
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Do-not-call remove API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update do-not-call list',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import {
+  formatServerSentEvent,
+  REALTIME_KEEP_ALIVE_MS,
+  REALTIME_RETRY_MS,
+  REALTIME_STREAM_MAX_DURATION_MS,
+  RealtimeFeed
+} from '@/lib/realtime'
+import { RealtimeUpdate } from '@/types/api'
+
+// Streams must never be cached or prerendered
+export const dynamic = 'force-dynamic'
+
+// Seconds; the stream closes itself after REALTIME_STREAM_MAX_DURATION_MS, well within this
+export const maxDuration = 300
+
+/**
+ * Server-Sent Events stream of call_update and campaign_update events, optionally for one campaign.
+ * With include=conversations, conversation_update events carry live transcripts too.
+ * Updates are pushed as they are published; reconnecting clients first catch up on what they
+ * missed since the Last-Event-ID header.
+ */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url)
+  const campaignId = url.searchParams.get('campaignId') || undefined
+  const includeConversations = url.searchParams.get('include') === 'conversations'
+  const lastEventId = request.headers.get('last-event-id')
+  const resumeFrom = lastEventId && !isNaN(Date.parse(lastEventId)) ? new Date(lastEventId) : null
+  
+  const db = DatabaseClass.getInstance()
+  await db.connect()
+  
+  const encoder = new TextEncoder()
+  let keepAlive: ReturnType<typeof setInterval> | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let unsubscribe: (() => void) | null = null
+  let closed = false
+  
+  const stop = () => {
+    closed = true
+    if (keepAlive) clearInterval(keepAlive)
+    if (timer) clearTimeout(timer)
+    if (unsubscribe) unsubscribe()
+  }
+  
+  const isWanted = (update: RealtimeUpdate) =>
+    (!campaignId || update.campaignId === campaignId) &&
+    (includeConversations || update.type !== 'conversation_update')
+  
+  const stream = new ReadableStream({
+    start(controller) {
+      const close = () => {
+        if (closed) return
+        stop()
+        try {
+          controller.close()
+        } catch (error) {
+          // Already closed by the client
+        }
+      }
+      
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text))
+      }
+      
+      request.signal.addEventListener('abort', close)
+      
+      // Tell the browser how soon to reconnect once the stream ends
+      send(`retry: ${REALTIME_RETRY_MS}\n\n`)
+      
+      unsubscribe = db.subscribeToRealtimeUpdates(update => {
+        if (isWanted(update)) send(formatServerSentEvent(update, update.timestamp))
+      })
+      
+      if (resumeFrom) {
+        const feed = new RealtimeFeed(campaignId, resumeFrom, includeConversations)
+        feed.poll()
+          .then(updates => updates.forEach(update => send(formatServerSentEvent(update, feed.getCursor().toISOString()))))
+          .catch(error => console.error('Event stream catch-up error:', error))
+      }
+      
+      keepAlive = setInterval(() => send(': keep-alive\n\n'), REALTIME_KEEP_ALIVE_MS)
+      timer = setTimeout(close, REALTIME_STREAM_MAX_DURATION_MS)
+    },
+    cancel() {
+      stop()
+    }
+  })
+  
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { DEFAULT_ISSUE_TAXONOMY, resolveIssueTaxonomy, validateIssueTaxonomy } from '@/lib/issue-taxonomy'
+import { ApiResponse, IssueTaxonomyResponse, IssueTaxonomyUpdateRequest } from '@/types/api'
+
+/**
+ * The issue taxonomy call summaries are classified against
+ */
+export async function GET() {
+  try {
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const categories = await db.getIssueTaxonomy()
+    
+    const response: IssueTaxonomyResponse = categories.length > 0
+      ? { categories, isDefault: false }
+      : { categories: DEFAULT_ISSUE_TAXONOMY, isDefault: true }
+    
+    return NextResponse.json<ApiResponse<IssueTaxonomyResponse>>({
+      success: true,
+      data: response,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Issue taxonomy API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve issue taxonomy',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Replace the issue taxonomy. Calls already classified keep their codes.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body: IssueTaxonomyUpdateRequest = await request.json()
+    
+    if (!body.categories || !Array.isArray(body.categories)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Categories are required',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const categories = resolveIssueTaxonomy(body.categories)
+    const taxonomyError = validateIssueTaxonomy(categories)
+    if (taxonomyError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: taxonomyError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    await db.saveIssueTaxonomy(categories)
+    
+    return NextResponse.json<ApiResponse<IssueTaxonomyResponse>>({
+      success: true,
+      data: { categories, isDefault: false },
+      message: `Issue taxonomy saved with ${categories.length} categories`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Issue taxonomy update API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save issue taxonomy',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
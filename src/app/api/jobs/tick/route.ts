@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CallOrchestrator } from '@/lib/call-orchestrator'
+import { ApiResponse } from '@/types/api'
+import { JobRunResult } from '@/types/job'
+
+/**
+ * Worker tick - claims due jobs (campaign dispatch, call retries, completions) and runs them.
+ * Called by the scheduled cron and safe to call manually; concurrent ticks never run the same job.
+ */
+async function handleTick(request: NextRequest) {
+  try {
+    // Vercel cron sends the secret as a bearer token
+    const cronSecret = process.env.CRON_SECRET
+    if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Unauthorized',
+        timestamp: new Date().toISOString()
+      }, { status: 401 })
+    }
+    
+    const url = new URL(request.url)
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '10') || 10, 50)
+    
+    const orchestrator = new CallOrchestrator()
+    const result = await orchestrator.processDueJobs(limit)
+    
+    return NextResponse.json<ApiResponse<JobRunResult>>({
+      success: true,
+      data: result,
+      message: `Processed ${result.claimed} jobs`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Job tick error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to process jobs',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleTick(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handleTick(request)
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import DatabaseClass from '@/lib/database'
+import { diffBotScripts } from '@/lib/script-library'
+import { ApiResponse, ScriptDiffResponse } from '@/types/api'
+
+/**
+ * Diff two versions of a script. Defaults to the latest version against the one before it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const script = await db.getScriptById(params.id)
+    if (!script) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Script not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    const url = new URL(request.url)
+    const to = parseInt(url.searchParams.get('to') || String(script.latestVersion))
+    const from = parseInt(url.searchParams.get('from') || String(Math.max(to - 1, 1)))
+    
+    if (isNaN(from) || isNaN(to)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Versions must be numbers',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const [fromVersion, toVersion] = await Promise.all([
+      db.getScriptVersion(script.id, from),
+      db.getScriptVersion(script.id, to)
+    ])
+    
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Version ${!fromVersion ? from : to} not found`,
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    return NextResponse.json<ApiResponse<ScriptDiffResponse>>({
+      success: true,
+      data: {
+        scriptId: script.id,
+        from,
+        to,
+        diff: diffBotScripts(fromVersion.botScript, toVersion.botScript)
+      },
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Script diff API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to diff script versions',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import DatabaseClass from '@/lib/database'
+import { resolveBotScript, validateBotScript } from '@/lib/bot-script'
+import { formatScriptForResponse, formatScriptVersionForResponse } from '@/lib/script-library'
+import { ApiResponse, ScriptDetailResponse, ScriptUpdateRequest } from '@/types/api'
+
+/**
+ * Get a script with all of its versions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const script = await db.getScriptById(params.id)
+    if (!script) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Script not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    const versions = await db.getScriptVersions(script.id)
+    
+    return NextResponse.json<ApiResponse<ScriptDetailResponse>>({
+      success: true,
+      data: {
+        script: formatScriptForResponse(script),
+        versions: versions.map(formatScriptVersionForResponse)
+      },
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Script detail API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve script',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Rename a script, or save new script content as its next version
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body: ScriptUpdateRequest = await request.json()
+    
+    if (body.name !== undefined && !body.name.trim()) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Script name cannot be empty',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const botScript = body.botScript !== undefined ? resolveBotScript(body.botScript) : null
+    const botScriptError = botScript ? validateBotScript(botScript) : null
+    if (botScriptError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: botScriptError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const script = await db.getScriptById(params.id)
+    if (!script) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Script not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    if (body.name !== undefined || body.description !== undefined) {
+      await db.updateScript(script.id, {
+        name: body.name?.trim(),
+        description: body.description?.trim()
+      })
+    }
+    
+    let savedVersion: number | null = null
+    if (botScript) {
+      savedVersion = await db.insertScriptVersion({
+        id: uuidv4(),
+        scriptId: script.id,
+        botScript,
+        notes: body.notes?.trim() || undefined
+      })
+    }
+    
+    const updated = await db.getScriptById(script.id)
+    const versions = await db.getScriptVersions(script.id)
+    
+    return NextResponse.json<ApiResponse<ScriptDetailResponse>>({
+      success: true,
+      data: {
+        script: formatScriptForResponse(updated || script),
+        versions: versions.map(formatScriptVersionForResponse)
+      },
+      message: savedVersion ? `Saved version ${savedVersion}` : 'Script updated',
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Script update API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update script',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Delete a script and its versions. Campaigns that used it keep their snapshot.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const deleted = await db.deleteScript(params.id)
+    if (!deleted) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Script not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: true,
+      message: 'Script deleted',
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Script delete API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete script',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
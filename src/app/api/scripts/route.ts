@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import DatabaseClass from '@/lib/database'
+import { resolveBotScript, validateBotScript } from '@/lib/bot-script'
+import { formatScriptForResponse } from '@/lib/script-library'
+import { ApiResponse, PaginatedResponse, ScriptCreateRequest, ScriptResponse } from '@/types/api'
+import { Script } from '@/types/script'
+
+/**
+ * List scripts in the library
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const search = url.searchParams.get('search') || undefined
+    const limit = parseInt(url.searchParams.get('limit') || '50')
+    const offset = parseInt(url.searchParams.get('offset') || '0')
+    
+    // Validate parameters
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Limit must be between 1 and 200',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Offset must be a non-negative number',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const { scripts, total } = await db.getScripts({ search, limit, offset })
+    
+    const response: PaginatedResponse<ScriptResponse> = {
+      data: scripts.map(formatScriptForResponse),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: Math.floor(offset / limit) + 1
+      }
+    }
+    
+    return NextResponse.json<ApiResponse<PaginatedResponse<ScriptResponse>>>({
+      success: true,
+      data: response,
+      message: `${scripts.length} of ${total} scripts retrieved`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Script list API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve scripts',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Add a script to the library as version 1
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: ScriptCreateRequest = await request.json()
+    
+    if (!body.name || !body.name.trim()) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Script name is required',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const botScript = resolveBotScript(body.botScript)
+    const botScriptError = validateBotScript(botScript)
+    if (botScriptError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: botScriptError,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    
+    const db = DatabaseClass.getInstance()
+    await db.connect()
+    
+    const script: Script = {
+      id: uuidv4(),
+      name: body.name.trim(),
+      description: body.description?.trim() || undefined,
+      latestVersion: 1,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+    
+    await db.insertScript(script, {
+      id: uuidv4(),
+      scriptId: script.id,
+      version: 1,
+      botScript,
+      notes: body.notes?.trim() || undefined,
+      createdAt: new Date()
+    })
+    
+    return NextResponse.json<ApiResponse<ScriptResponse>>({
+      success: true,
+      data: formatScriptForResponse(script),
+      message: `Script "${script.name}" created`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Script create API error:', error)
+    
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create script',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
\ No newline at end of file
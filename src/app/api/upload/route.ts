@@ -77,7 +77,9 @@ export async function POST(request: NextRequest) {
         name: customer.name,
         phone: customer.phone,
         reason: customer.reason, // May be undefined
-        matchedServices: customer.matchedServices || []
+        matchedServices: customer.matchedServices || [],
+        timeZone: customer.timeZone,
+        locale: customer.locale
       }))
       
       const response: UploadResponse = {
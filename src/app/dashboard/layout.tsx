@@ -0,0 +1,12 @@
+import RealtimeProvider from '@/components/RealtimeProvider'
+
+/**
+ * The dashboard's components share one live updates stream
+ */
+export default function DashboardLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return <RealtimeProvider>{children}</RealtimeProvider>
+}
\ No newline at end of file
@@ -1,8 +1,14 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import CallStatus from '@/components/CallStatus'
 import TranscriptViewer from '@/components/TranscriptViewer'
+import CampaignDetail from '@/components/CampaignDetail'
+import SurveyResults from '@/components/SurveyResults'
+import ScoreTrends from '@/components/ScoreTrends'
+import AnalyticsCharts from '@/components/AnalyticsCharts'
+import LiveCallMonitor from '@/components/LiveCallMonitor'
+import { useRealtimeUpdates } from '@/components/RealtimeProvider'
 
 interface DashboardData {
   summary: {
@@ -31,10 +37,13 @@ interface DashboardData {
     id: string
     name: string
     status: string
+    services: string[]
     totalCalls: number
     completedCalls: number
     failedCalls: number
     inProgressCalls: number
+    pendingCalls: number
+    startedAt: string
   }>
 }
 
@@ -46,6 +55,7 @@ export default function DashboardPage() {
   const [campaignFilter, setCampaignFilter] = useState<string>('all')
   const [autoRefresh, setAutoRefresh] = useState(true)
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date())
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   // Fetch dashboard data
   const fetchData = async () => {
@@ -81,22 +91,45 @@ export default function DashboardPage() {
   // Fetch campaign summaries
   const fetchCampaignData = async () => {
     try {
-      // This would need a campaigns API endpoint, for now return mock data
-      return []
+      const response = await fetch('/api/campaigns?limit=20&sortBy=createdAt&sortOrder=desc')
+      const result = await response.json()
+      
+      if (!result.success) {
+        console.error('Failed to fetch campaigns:', result.error)
+        return []
+      }
+      
+      return result.data.data
     } catch (error) {
       console.error('Failed to fetch campaigns:', error)
       return []
     }
   }
 
-  // Auto refresh every 10 seconds
+  // Refresh shortly after live updates, batching bursts of changes into one fetch
+  const liveConnected = useRealtimeUpdates(campaignFilter !== 'all' ? campaignFilter : undefined, (update) => {
+    if (update.type === 'conversation_update' || refreshTimer.current) return
+    refreshTimer.current = setTimeout(() => {
+      refreshTimer.current = null
+      fetchData()
+    }, 1000)
+  }, autoRefresh)
+
+  // Auto refresh every 10 seconds while live updates are unavailable
   useEffect(() => {
     fetchData()
     
-    if (autoRefresh) {
+    if (autoRefresh && !liveConnected) {
       const interval = setInterval(fetchData, 10000)
       return () => clearInterval(interval)
     }
+  }, [statusFilter, campaignFilter, autoRefresh, liveConnected])
+
+  useEffect(() => {
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current)
+      refreshTimer.current = null
+    }
   }, [statusFilter, campaignFilter, autoRefresh])
 
   const handleRefresh = () => {
@@ -114,6 +147,16 @@ export default function DashboardPage() {
     }
   }
 
+  const getCampaignStatusColor = (status: string) => {
+    switch (status) {
+      case 'running': return 'text-primary-600 bg-primary-100'
+      case 'completed': return 'text-success-600 bg-success-100'
+      case 'paused': return 'text-warning-600 bg-warning-100'
+      case 'cancelled': case 'error': return 'text-error-600 bg-error-100'
+      default: return 'text-gray-600 bg-gray-100'
+    }
+  }
+
   const getSentimentColor = (sentiment?: string) => {
     switch (sentiment) {
       case 'positive': return 'text-success-600'
@@ -177,6 +220,7 @@ export default function DashboardPage() {
           </button>
           
           <p className="text-xs text-gray-500">
+            {liveConnected && <span className="text-success-600 font-medium mr-1">● Live</span>}
             Last updated: {lastRefresh.toLocaleTimeString()}
           </p>
         </div>
@@ -223,6 +267,93 @@ export default function DashboardPage() {
         </div>
       )}
 
+      {/* Live Calls */}
+      <LiveCallMonitor
+        campaignId={campaignFilter !== 'all' ? campaignFilter : undefined}
+        refreshInterval={autoRefresh ? 3000 : 0}
+      />
+
+      {/* Campaigns */}
+      {data?.campaigns && data.campaigns.length > 0 && (
+        <div className="card">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Campaigns</h2>
+            <span className="text-sm text-gray-500">
+              {data.campaigns.length} campaign{data.campaigns.length !== 1 ? 's' : ''}
+            </span>
+          </div>
+          
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {data.campaigns.map(campaign => {
+              const finished = campaign.completedCalls + campaign.failedCalls
+              const progress = campaign.totalCalls > 0
+                ? Math.round((finished / campaign.totalCalls) * 100)
+                : 0
+              
+              return (
+                <button
+                  key={campaign.id}
+                  onClick={() => setCampaignFilter(campaign.id === campaignFilter ? 'all' : campaign.id)}
+                  className={`text-left border rounded-lg p-4 hover:shadow-md transition-shadow ${
+                    campaign.id === campaignFilter ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+                  }`}
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="text-sm font-medium text-gray-900 truncate">{campaign.name}</h3>
+                    <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getCampaignStatusColor(campaign.status)}`}>
+                      {campaign.status}
+                    </span>
+                  </div>
+                  
+                  <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                    <div
+                      className="bg-primary-600 h-2 rounded-full"
+                      style={{ width: `${progress}%` }}
+                    ></div>
+                  </div>
+                  
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>{campaign.totalCalls} calls</span>
+                    <span className="text-success-600">{campaign.completedCalls} done</span>
+                    <span className="text-primary-600">{campaign.inProgressCalls} active</span>
+                    <span className="text-error-600">{campaign.failedCalls} failed</span>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Selected Campaign */}
+      {campaignFilter !== 'all' && (
+        <CampaignDetail
+          campaignId={campaignFilter}
+          refreshInterval={autoRefresh ? 10000 : 0}
+          onClose={() => setCampaignFilter('all')}
+        />
+      )}
+
+      {/* Survey Results of the Selected Campaign */}
+      {campaignFilter !== 'all' && (
+        <SurveyResults
+          campaignId={campaignFilter}
+          refreshInterval={autoRefresh ? 10000 : 0}
+        />
+      )}
+
+      {/* Analytics */}
+      <AnalyticsCharts
+        campaignId={campaignFilter !== 'all' ? campaignFilter : undefined}
+        refreshInterval={autoRefresh ? 30000 : 0}
+      />
+
+      {/* NPS / CSAT */}
+      <ScoreTrends
+        campaignId={campaignFilter !== 'all' ? campaignFilter : undefined}
+        refreshInterval={autoRefresh ? 10000 : 0}
+      />
+
       {/* Filters */}
       <div className="card">
         <div className="flex flex-wrap gap-4 items-center">
@@ -3,11 +3,20 @@
 import { useState } from 'react'
 import FileUpload from '@/components/FileUpload'
 import ServiceSelector from '@/components/ServiceSelector'
+import ConversationPolicyEditor from '@/components/ConversationPolicyEditor'
+import SurveyQuestionsEditor from '@/components/SurveyQuestionsEditor'
+import { DEFAULT_CONVERSATION_POLICY } from '@/lib/conversation-policy'
+import { DEFAULT_VOICE_SETTINGS, getLanguageName, LOCALE_VOICE_SETTINGS } from '@/lib/voice-settings'
+import { ConversationPolicy } from '@/types/call'
+import { SurveyQuestion } from '@/types/survey'
 
 export default function HomePage() {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null)
   const [customers, setCustomers] = useState<any[]>([])
   const [selectedServices, setSelectedServices] = useState<string[]>([])
+  const [conversationPolicy, setConversationPolicy] = useState<ConversationPolicy>(DEFAULT_CONVERSATION_POLICY)
+  const [surveyQuestions, setSurveyQuestions] = useState<SurveyQuestion[]>([])
+  const [locale, setLocale] = useState(DEFAULT_VOICE_SETTINGS.locale)
   const [isProcessing, setIsProcessing] = useState(false)
   const [campaignStatus, setCampaignStatus] = useState<string>('')
 
@@ -57,6 +66,11 @@ export default function HomePage() {
         body: JSON.stringify({
           customers: customers,
           services: selectedServices,
+          settings: {
+            conversationPolicy,
+            surveyQuestions,
+            voiceSettings: { locale },
+          },
         }),
       })
 
@@ -162,6 +176,56 @@ export default function HomePage() {
         </div>
       </div>
 
+      {/* Conversation Policy */}
+      {customers.length > 0 && selectedServices.length > 0 && (
+        <div className="card">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Step 3: Conversation Policy
+          </h2>
+          <p className="text-gray-600 mb-6">
+            Control how long each call runs and what the bot has to cover before it wraps up.
+          </p>
+          
+          <ConversationPolicyEditor
+            policy={conversationPolicy}
+            onPolicyChange={setConversationPolicy}
+          />
+          
+          <label className="mt-4 block text-sm font-medium text-gray-900">
+            Call language
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              {Object.keys(LOCALE_VOICE_SETTINGS).map((option) => (
+                <option key={option} value={option}>{getLanguageName(option)} ({option})</option>
+              ))}
+            </select>
+            <span className="mt-1 block text-xs font-normal text-gray-500">
+              Customers with a language column in the upload are called in their own language.
+            </span>
+          </label>
+        </div>
+      )}
+
+      {/* Survey Questions */}
+      {customers.length > 0 && selectedServices.length > 0 && (
+        <div className="card">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Step 4: Survey Questions
+          </h2>
+          <p className="text-gray-600 mb-6">
+            Optional structured questions every customer is asked, with answers recorded as scores, yes/no or reason codes.
+          </p>
+          
+          <SurveyQuestionsEditor
+            questions={surveyQuestions}
+            onQuestionsChange={setSurveyQuestions}
+          />
+        </div>
+      )}
+
       {/* Start Campaign Button */}
       {customers.length > 0 && selectedServices.length > 0 && (
         <div className="text-center">
@@ -188,6 +252,7 @@ export default function HomePage() {
         <ol className="list-decimal list-inside space-y-2 text-blue-800">
           <li>Upload Excel file with customer phone numbers and names</li>
           <li>Select which banking services to target (Credit Card, Personal Banking, etc.)</li>
+          <li>Optionally adjust the conversation policy (call length and required topics)</li>
           <li>Click "Start Campaign" to begin automated voice surveys</li>
           <li>The AI bot will call customers and discover their reasons for leaving</li>
           <li>Monitor progress and view transcripts in the Dashboard</li>
@@ -0,0 +1,310 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AnalyticsResponse } from '@/types/api'
+
+interface AnalyticsChartsProps {
+  campaignId?: string
+  refreshInterval?: number
+}
+
+const SERVICE_OPTIONS = [
+  { id: 'credit-card', name: 'Credit Card' },
+  { id: 'personal-banking', name: 'Personal Banking' },
+  { id: 'loans', name: 'Loans' },
+  { id: 'mortgage', name: 'Mortgage' },
+  { id: 'business-banking', name: 'Business Banking' },
+  { id: 'investment', name: 'Investment Services' },
+  { id: 'mobile-online', name: 'Mobile & Online Banking' },
+  { id: 'customer-service', name: 'Customer Service' }
+]
+
+export default function AnalyticsCharts({ campaignId, refreshInterval = 10000 }: AnalyticsChartsProps) {
+  const [analytics, setAnalytics] = useState<AnalyticsResponse | null>(null)
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [service, setService] = useState('all')
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchAnalytics = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (campaignId) params.set('campaignId', campaignId)
+      if (service !== 'all') params.set('services', service)
+      if (dateFrom) params.set('dateFrom', new Date(`${dateFrom}T00:00:00`).toISOString())
+      if (dateTo) params.set('dateTo', new Date(`${dateTo}T23:59:59`).toISOString())
+
+      const response = await fetch(`/api/analytics?${params.toString()}`)
+      const result = await response.json()
+
+      if (result.success) {
+        setAnalytics(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to fetch analytics')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  useEffect(() => {
+    fetchAnalytics()
+
+    if (refreshInterval > 0) {
+      const interval = setInterval(fetchAnalytics, refreshInterval)
+      return () => clearInterval(interval)
+    }
+  }, [campaignId, service, dateFrom, dateTo, refreshInterval])
+
+  const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60)
+    const secs = Math.round(seconds % 60)
+    return `${mins}:${secs.toString().padStart(2, '0')}`
+  }
+
+  const getStatusBarColor = (status: string) => {
+    switch (status) {
+      case 'completed': return 'bg-success-500'
+      case 'failed': case 'cancelled': return 'bg-error-500'
+      case 'calling': case 'ringing': case 'answered': return 'bg-primary-600'
+      case 'pending': case 'retry': return 'bg-warning-500'
+      default: return 'bg-gray-400'
+    }
+  }
+
+  // Horizontal bars, largest first
+  const renderBars = (counts: Record<string, number>, getLabel: (key: string) => string, getColor: (key: string) => string) => {
+    const keys = Object.keys(counts).sort((a, b) => counts[b] - counts[a])
+    const max = Math.max(1, ...keys.map(key => counts[key]))
+
+    if (keys.length === 0) {
+      return <p className="text-sm text-gray-500">No calls yet</p>
+    }
+
+    return (
+      <div className="space-y-2">
+        {keys.map((key) => (
+          <div key={key} className="flex items-center text-xs">
+            <span className="w-36 truncate text-gray-600">{getLabel(key)}</span>
+            <div className="flex-1 bg-gray-100 rounded-full h-2 mx-2">
+              <div className={`${getColor(key)} h-2 rounded-full`} style={{ width: `${(counts[key] / max) * 100}%` }}></div>
+            </div>
+            <span className="w-10 text-right text-gray-900">{counts[key]}</span>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const sentimentTotal = analytics
+    ? analytics.sentimentAnalysis.positive + analytics.sentimentAnalysis.negative + analytics.sentimentAnalysis.neutral
+    : 0
+  const maxDailyCalls = analytics ? Math.max(1, ...analytics.timeSeriesData.map(point => point.calls)) : 1
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Analytics</h2>
+        <div className="flex flex-wrap gap-4 items-end">
+          <div>
+            <label htmlFor="analyticsFrom" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="analyticsFrom"
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="analyticsTo" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              id="analyticsTo"
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="analyticsService" className="block text-sm font-medium text-gray-700 mb-1">Service</label>
+            <select
+              id="analyticsService"
+              value={service}
+              onChange={(e) => setService(e.target.value)}
+              className="select-field"
+            >
+              <option value="all">All Services</option>
+              {SERVICE_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-error-700 mb-4">{error}</p>
+      )}
+
+      {analytics && (
+        <div className="space-y-8">
+          {/* Overview */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-gray-500">Campaigns</p>
+              <p className="text-2xl font-bold text-gray-900">{analytics.overview.totalCampaigns}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Calls</p>
+              <p className="text-2xl font-bold text-gray-900">{analytics.overview.totalCalls}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Success rate</p>
+              <p className="text-2xl font-bold text-success-600">{analytics.overview.successRate}%</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Average duration</p>
+              <p className="text-2xl font-bold text-gray-900">{formatDuration(analytics.overview.averageDuration)}</p>
+            </div>
+          </div>
+
+          {/* Calls Over Time */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Calls per day</h3>
+            {analytics.timeSeriesData.length === 0 ? (
+              <p className="text-sm text-gray-500">No calls yet</p>
+            ) : (
+              <>
+                <div className="flex items-end h-32 gap-px">
+                  {analytics.timeSeriesData.map((point) => (
+                    <div
+                      key={point.date}
+                      className="flex-1 flex flex-col justify-end h-full"
+                      title={`${point.date}: ${point.calls} calls, ${point.completed} completed, ${point.failed} failed`}
+                    >
+                      <div className="bg-error-500" style={{ height: `${(point.failed / maxDailyCalls) * 100}%` }}></div>
+                      <div className="bg-primary-100" style={{ height: `${((point.calls - point.completed - point.failed) / maxDailyCalls) * 100}%` }}></div>
+                      <div className="bg-success-500" style={{ height: `${(point.completed / maxDailyCalls) * 100}%` }}></div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>{analytics.timeSeriesData[0].date}</span>
+                  <span>
+                    <span className="text-success-600">■ completed</span>{' '}
+                    <span className="text-error-600">■ failed</span>{' '}
+                    <span className="text-primary-500">■ other</span>
+                  </span>
+                  <span>{analytics.timeSeriesData[analytics.timeSeriesData.length - 1].date}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {/* Calls by Status */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Calls by status</h3>
+              {renderBars(analytics.callsByStatus, status => status, getStatusBarColor)}
+            </div>
+
+            {/* Calls by Service */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Calls by service</h3>
+              {renderBars(
+                analytics.callsByService,
+                id => SERVICE_OPTIONS.find(option => option.id === id)?.name || id,
+                () => 'bg-primary-600'
+              )}
+            </div>
+
+            {/* Sentiment */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Sentiment</h3>
+              {sentimentTotal === 0 ? (
+                <p className="text-sm text-gray-500">No analyzed calls yet</p>
+              ) : (
+                <>
+                  <div className="flex w-full h-3 rounded-full overflow-hidden">
+                    <div className="bg-success-500" style={{ width: `${(analytics.sentimentAnalysis.positive / sentimentTotal) * 100}%` }}></div>
+                    <div className="bg-gray-300" style={{ width: `${(analytics.sentimentAnalysis.neutral / sentimentTotal) * 100}%` }}></div>
+                    <div className="bg-error-500" style={{ width: `${(analytics.sentimentAnalysis.negative / sentimentTotal) * 100}%` }}></div>
+                  </div>
+                  <div className="flex justify-between text-xs mt-1">
+                    <span className="text-success-600">{analytics.sentimentAnalysis.positive} positive</span>
+                    <span className="text-gray-500">{analytics.sentimentAnalysis.neutral} neutral</span>
+                    <span className="text-error-600">{analytics.sentimentAnalysis.negative} negative</span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Top Issues */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Top issues</h3>
+              {analytics.topIssues.length === 0 ? (
+                <p className="text-sm text-gray-500">No issues recorded yet</p>
+              ) : (
+                <ul className="space-y-2">
+                  {analytics.topIssues.map((issue) => (
+                    <li key={issue.issue} className="text-xs">
+                      <div className="flex justify-between">
+                        <span className="text-gray-900 truncate" title={issue.issue}>{issue.label}</span>
+                        <span className="text-gray-500 ml-2">{issue.count} ({issue.percentage}%)</span>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-1.5 mt-1">
+                        <div className="bg-warning-500 h-1.5 rounded-full" style={{ width: `${issue.percentage}%` }}></div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Script Variants */}
+          {analytics.scriptVariants.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Script variants</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaign</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variant</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calls</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Completion</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg duration</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sentiment (+ / = / −)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {analytics.scriptVariants.map(variant => (
+                      <tr key={`${variant.campaignId}:${variant.variantId}`}>
+                        <td className="px-3 py-2 text-gray-900">{variant.campaignName}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          <span className="font-medium">{variant.variantId}</span>
+                          {variant.scriptName && (
+                            <span className="text-gray-500"> · {variant.scriptName} v{variant.scriptVersion}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{variant.finishedCalls} / {variant.totalCalls}</td>
+                        <td className="px-3 py-2 text-gray-600">{variant.completionRate}%</td>
+                        <td className="px-3 py-2 text-gray-600">{formatDuration(variant.averageDuration)}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {variant.sentiment.positive} / {variant.sentiment.neutral} / {variant.sentiment.negative}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
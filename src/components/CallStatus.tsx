@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
+import { useRealtimeUpdates } from './RealtimeProvider'
 
 interface Call {
   id: string
@@ -19,6 +20,7 @@ interface Call {
   campaignId: string
   retryCount?: number
   maxRetries?: number
+  nextAttemptAt?: string
 }
 
 interface CallStatusProps {
@@ -40,6 +42,10 @@ export default function CallStatus({
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date())
+  const callsRef = useRef<Call[]>([])
+  const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  callsRef.current = calls
 
   // Fetch calls data
   const fetchCalls = async () => {
@@ -68,15 +74,38 @@ export default function CallStatus({
     }
   }
 
-  // Auto refresh
+  // Live updates patch calls in place; calls entering or leaving the list trigger a refetch
+  const liveConnected = useRealtimeUpdates(campaignId, (update) => {
+    if (update.type !== 'call_update') return
+
+    const updated = update.data as Call
+    const isListed = callsRef.current.some(call => call.id === updated.id)
+    const matchesFilter = statusFilter === 'all' || updated.status === statusFilter
+
+    if (isListed && matchesFilter) {
+      setCalls(current => current.map(call => call.id === updated.id ? { ...call, ...updated } : call))
+      setLastUpdate(new Date())
+    } else if (isListed || matchesFilter) {
+      if (refetchTimer.current) clearTimeout(refetchTimer.current)
+      refetchTimer.current = setTimeout(fetchCalls, 500)
+    }
+  }, refreshInterval > 0)
+
+  // Auto refresh, polling only while live updates are unavailable
   useEffect(() => {
     fetchCalls()
     
-    if (refreshInterval > 0) {
+    if (refreshInterval > 0 && !liveConnected) {
       const interval = setInterval(fetchCalls, refreshInterval)
       return () => clearInterval(interval)
     }
-  }, [campaignId, statusFilter, refreshInterval, maxCalls])
+  }, [campaignId, statusFilter, refreshInterval, maxCalls, liveConnected])
+
+  useEffect(() => {
+    return () => {
+      if (refetchTimer.current) clearTimeout(refetchTimer.current)
+    }
+  }, [])
 
   // Cancel individual call
   const handleCancelCall = async (callId: string) => {
@@ -173,7 +202,7 @@ export default function CallStatus({
       case 'completed': return 'status-completed'
       case 'failed': case 'cancelled': return 'status-failed'
       case 'calling': case 'ringing': case 'answered': return 'status-calling'
-      case 'pending': return 'status-pending'
+      case 'pending': case 'retry': return 'status-pending'
       default: return 'status-badge bg-gray-100 text-gray-800'
     }
   }
@@ -237,9 +266,9 @@ export default function CallStatus({
         </h3>
         <div className="flex items-center space-x-2">
           <span className="text-xs text-gray-500">
-            Updated {formatTime(lastUpdate.toISOString())}
+            {liveConnected ? 'Live' : 'Updated'} {formatTime(lastUpdate.toISOString())}
           </span>
-          <div className="w-2 h-2 bg-primary-500 rounded-full animate-pulse"></div>
+          <div className={`w-2 h-2 rounded-full animate-pulse ${liveConnected ? 'bg-success-500' : 'bg-primary-500'}`}></div>
         </div>
       </div>
 
@@ -318,7 +347,7 @@ export default function CallStatus({
                     {call.errorMessage && (
                       <div className="text-xs text-error-600 mt-1 bg-error-50 px-2 py-1 rounded">
                         {call.errorMessage}
-                        {call.retryCount && call.maxRetries && (
+                        {!!call.retryCount && !!call.maxRetries && (
                           <span className="ml-2">
                             (Retry {call.retryCount}/{call.maxRetries})
                           </span>
@@ -326,6 +355,13 @@ export default function CallStatus({
                       </div>
                     )}
                     
+                    {/* Scheduled Retry */}
+                    {call.status === 'retry' && call.nextAttemptAt && (
+                      <div className="text-xs text-warning-600 mt-1">
+                        Next attempt at {formatTime(call.nextAttemptAt)}
+                      </div>
+                    )}
+                    
                     {/* Key Issues */}
                     {call.keyIssues && call.keyIssues.length > 0 && (
                       <div className="flex flex-wrap gap-1 mt-2">
@@ -361,8 +397,8 @@ export default function CallStatus({
                       </button>
                     )}
                     
-                    {/* Failed - Retry button */}
-                    {call.status === 'failed' && call.retryCount !== undefined && call.retryCount < (call.maxRetries || 3) && (
+                    {/* Failed or waiting for a retry - Retry now button */}
+                    {['failed', 'voicemail', 'retry'].includes(call.status) && (call.status === 'retry' || (call.retryCount !== undefined && call.retryCount < (call.maxRetries || 3))) && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation()
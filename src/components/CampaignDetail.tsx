@@ -0,0 +1,322 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface CampaignDetailData {
+  campaign: {
+    id: string
+    name: string
+    status: string
+    services: string[]
+    totalCalls: number
+    completedCalls: number
+    failedCalls: number
+    inProgressCalls: number
+    pendingCalls: number
+    maxConcurrentCalls: number
+    startedAt: string
+    completedAt?: string
+    retrySettings: {
+      maxRetries: number
+      retryDelay: number
+      backoff: 'fixed' | 'exponential'
+    }
+    callingWindow: {
+      days: number[]
+      startTime: string
+      endTime: string
+      defaultTimeZone: string
+    }
+    conversationPolicy: {
+      maxTurns: number
+      maxDurationSeconds: number
+      requiredTopics: string[]
+    }
+  }
+  statusCounts: Record<string, number>
+  progress: number
+  scriptVariants: Array<{
+    variantId: string
+    scriptName?: string
+    scriptVersion?: number
+    weight: number
+    totalCalls: number
+    finishedCalls: number
+    completionRate: number
+    averageDuration: number
+    sentiment: {
+      positive: number
+      negative: number
+      neutral: number
+    }
+  }>
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+interface CampaignDetailProps {
+  campaignId: string
+  refreshInterval?: number
+  onClose?: () => void
+}
+
+export default function CampaignDetail({
+  campaignId,
+  refreshInterval = 10000,
+  onClose
+}: CampaignDetailProps) {
+  const [detail, setDetail] = useState<CampaignDetailData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [actionPending, setActionPending] = useState(false)
+  const [hangUpActiveCalls, setHangUpActiveCalls] = useState(false)
+
+  const fetchDetail = async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}`)
+      const result = await response.json()
+
+      if (result.success) {
+        setDetail(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to fetch campaign')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetchDetail()
+
+    if (refreshInterval > 0) {
+      const interval = setInterval(fetchDetail, refreshInterval)
+      return () => clearInterval(interval)
+    }
+  }, [campaignId, refreshInterval])
+
+  // Pause, resume or cancel the campaign
+  const handleCampaignAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !window.confirm('Cancel this campaign? Pending calls will not be dialed.')) {
+      return
+    }
+
+    setActionPending(true)
+    try {
+      const response = await fetch('/api/calls/start', {
+        method: action === 'cancel' ? 'DELETE' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          campaignId,
+          action: action === 'cancel' ? undefined : action,
+          hangUpActiveCalls
+        }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        fetchDetail()
+      } else {
+        setError(result.error || `Failed to ${action} campaign`)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} campaign`)
+    } finally {
+      setActionPending(false)
+    }
+  }
+
+  const getCampaignStatusColor = (status: string) => {
+    switch (status) {
+      case 'running': return 'status-calling'
+      case 'completed': return 'status-completed'
+      case 'paused': return 'status-pending'
+      case 'cancelled': case 'error': return 'status-failed'
+      default: return 'status-badge bg-gray-100 text-gray-800'
+    }
+  }
+
+  if (loading && !detail) {
+    return (
+      <div className="card">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-8 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!detail) {
+    return (
+      <div className="card bg-error-50 border-error-200">
+        <p className="text-sm text-error-700">{error || 'Campaign not found'}</p>
+      </div>
+    )
+  }
+
+  const { campaign, statusCounts, progress, scriptVariants } = detail
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <div className="flex items-center space-x-3">
+            <h2 className="text-xl font-semibold text-gray-900">{campaign.name}</h2>
+            <span className={getCampaignStatusColor(campaign.status)}>
+              {campaign.status}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            Started {new Date(campaign.startedAt).toLocaleString()} • {campaign.services.join(', ')}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {['running', 'paused'].includes(campaign.status) && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={hangUpActiveCalls}
+                onChange={(e) => setHangUpActiveCalls(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>Hang up active calls</span>
+            </label>
+          )}
+          {campaign.status === 'running' && (
+            <button
+              onClick={() => handleCampaignAction('pause')}
+              disabled={actionPending}
+              className="btn-warning text-sm"
+            >
+              Pause
+            </button>
+          )}
+          {campaign.status === 'paused' && (
+            <button
+              onClick={() => handleCampaignAction('resume')}
+              disabled={actionPending}
+              className="btn-success text-sm"
+            >
+              Resume
+            </button>
+          )}
+          {['draft', 'running', 'paused'].includes(campaign.status) && (
+            <button
+              onClick={() => handleCampaignAction('cancel')}
+              disabled={actionPending}
+              className="btn-error text-sm"
+            >
+              Cancel
+            </button>
+          )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 p-1"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-error-50 border border-error-200 rounded-lg p-3 mb-4">
+          <p className="text-sm text-error-700">{error}</p>
+        </div>
+      )}
+
+      {/* Progress */}
+      <div className="mb-4">
+        <div className="flex justify-between text-sm text-gray-600 mb-1">
+          <span>Progress</span>
+          <span>{progress}%</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-primary-600 h-2 rounded-full transition-all duration-500"
+            style={{ width: `${progress}%` }}
+          ></div>
+        </div>
+      </div>
+
+      {/* Status Counts */}
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
+        {Object.entries(statusCounts).map(([status, count]) => (
+          <div key={status} className="bg-gray-50 rounded-lg p-3">
+            <p className="text-xs text-gray-500 uppercase tracking-wider">{status}</p>
+            <p className="text-2xl font-bold text-gray-900">{count}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Script A/B Variants */}
+      {scriptVariants.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variant</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calls</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Completion</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg duration</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sentiment (+ / = / −)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {scriptVariants.map(variant => (
+                <tr key={variant.variantId}>
+                  <td className="px-3 py-2 text-gray-900">
+                    <span className="font-medium">{variant.variantId}</span>
+                    {variant.scriptName && (
+                      <span className="text-gray-500"> · {variant.scriptName} v{variant.scriptVersion}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">{variant.finishedCalls} / {variant.totalCalls}</td>
+                  <td className="px-3 py-2 text-gray-600">{variant.completionRate}%</td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {Math.floor(variant.averageDuration / 60)}:{(variant.averageDuration % 60).toString().padStart(2, '0')}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {variant.sentiment.positive} / {variant.sentiment.neutral} / {variant.sentiment.negative}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-6 text-xs text-gray-500 mt-4">
+        <span>Max concurrent calls: {campaign.maxConcurrentCalls}</span>
+        <span>
+          Retries: {campaign.retrySettings.maxRetries} every {campaign.retrySettings.retryDelay} min
+          {campaign.retrySettings.backoff === 'exponential' && ' (doubling)'}
+        </span>
+        <span>
+          Calling hours: {campaign.callingWindow.days.map(day => WEEKDAY_LABELS[day]).join(', ')}{' '}
+          {campaign.callingWindow.startTime}–{campaign.callingWindow.endTime} local
+        </span>
+        <span>
+          Conversation: up to {campaign.conversationPolicy.maxTurns} responses,{' '}
+          {Math.round(campaign.conversationPolicy.maxDurationSeconds / 60)} min
+          {campaign.conversationPolicy.requiredTopics.length > 0 &&
+            ` · covers ${campaign.conversationPolicy.requiredTopics.join(', ')}`}
+        </span>
+        {campaign.completedAt && (
+          <span>Completed {new Date(campaign.completedAt).toLocaleString()}</span>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
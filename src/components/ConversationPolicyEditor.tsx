@@ -0,0 +1,126 @@
+'use client'
+
+import { useState } from 'react'
+import { ConversationPolicy } from '@/types/call'
+
+interface ConversationPolicyEditorProps {
+  policy: ConversationPolicy
+  onPolicyChange: (policy: ConversationPolicy) => void
+}
+
+export default function ConversationPolicyEditor({ policy, onPolicyChange }: ConversationPolicyEditorProps) {
+  const [newTopic, setNewTopic] = useState('')
+
+  const updatePolicy = (updates: Partial<ConversationPolicy>) => {
+    onPolicyChange({ ...policy, ...updates })
+  }
+
+  const handleAddTopic = () => {
+    const topic = newTopic.trim()
+    if (!topic || policy.requiredTopics.some(existing => existing.toLowerCase() === topic.toLowerCase())) {
+      return
+    }
+    updatePolicy({ requiredTopics: [...policy.requiredTopics, topic] })
+    setNewTopic('')
+  }
+
+  const handleRemoveTopic = (topic: string) => {
+    updatePolicy({ requiredTopics: policy.requiredTopics.filter(existing => existing !== topic) })
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Limits */}
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-900">
+          Max customer responses
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={policy.maxTurns}
+            onChange={(e) => updatePolicy({ maxTurns: parseInt(e.target.value) || 1 })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-900">
+          Max call duration (minutes)
+          <input
+            type="number"
+            min={1}
+            max={30}
+            value={Math.round(policy.maxDurationSeconds / 60)}
+            onChange={(e) => updatePolicy({ maxDurationSeconds: (parseInt(e.target.value) || 1) * 60 })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+      </div>
+
+      {/* Required Topics */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">
+          Required topics ({policy.requiredTopics.length})
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          The bot won&apos;t wrap up early until the customer has talked about each of these.
+        </p>
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={newTopic}
+            onChange={(e) => setNewTopic(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddTopic()}
+            placeholder="e.g. fees"
+            className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+          <button
+            onClick={handleAddTopic}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+          >
+            Add
+          </button>
+        </div>
+        {policy.requiredTopics.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {policy.requiredTopics.map((topic) => (
+              <span
+                key={topic}
+                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800"
+              >
+                {topic}
+                <button
+                  onClick={() => handleRemoveTopic(topic)}
+                  className="ml-1 text-gray-400 hover:text-gray-600"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Early Exit Rules */}
+      <div className="space-y-2">
+        <label className="flex items-center text-sm text-gray-900">
+          <input
+            type="checkbox"
+            checked={policy.earlyExit.onAiDecision}
+            onChange={(e) => updatePolicy({ earlyExit: { ...policy.earlyExit, onAiDecision: e.target.checked } })}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+          />
+          Let the bot end the call once it has what it needs
+        </label>
+        <label className="flex items-center text-sm text-gray-900">
+          <input
+            type="checkbox"
+            checked={policy.earlyExit.onCustomerGoodbye}
+            onChange={(e) => updatePolicy({ earlyExit: { ...policy.earlyExit, onCustomerGoodbye: e.target.checked } })}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+          />
+          End the call when the customer says goodbye
+        </label>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { LiveCall, LiveConversation } from '@/types/api'
+import { useRealtimeUpdates } from './RealtimeProvider'
+
+interface LiveCallMonitorProps {
+  campaignId?: string
+  refreshInterval?: number
+}
+
+const ACTIVE_STATUSES = ['calling', 'ringing', 'answered']
+
+export default function LiveCallMonitor({ campaignId, refreshInterval = 3000 }: LiveCallMonitorProps) {
+  const [calls, setCalls] = useState<LiveCall[]>([])
+  const [now, setNow] = useState(Date.now())
+  const [error, setError] = useState<string | null>(null)
+  const callsRef = useRef<LiveCall[]>([])
+  const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  callsRef.current = calls
+
+  const fetchLiveCalls = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (campaignId) params.set('campaignId', campaignId)
+
+      const response = await fetch(`/api/calls/live?${params.toString()}`)
+      const result = await response.json()
+
+      if (result.success) {
+        setCalls(result.data.calls)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to fetch live calls')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  const scheduleRefetch = () => {
+    if (refetchTimer.current) clearTimeout(refetchTimer.current)
+    refetchTimer.current = setTimeout(fetchLiveCalls, 500)
+  }
+
+  // Live updates patch transcripts and statuses in place; calls not yet listed trigger a refetch
+  const liveConnected = useRealtimeUpdates(campaignId, (update) => {
+    const isListed = callsRef.current.some(call => call.callId === update.callId)
+
+    if (update.type === 'conversation_update') {
+      if (!isListed) {
+        scheduleRefetch()
+        return
+      }
+      const conversation = update.data as LiveConversation
+      setCalls(current => current.map(call => call.callId === conversation.callId ? { ...call, ...conversation } : call))
+    } else if (update.type === 'call_update') {
+      const status = update.data.status as string
+      if (!ACTIVE_STATUSES.includes(status)) {
+        setCalls(current => current.filter(call => call.callId !== update.callId))
+      } else if (!isListed) {
+        scheduleRefetch()
+      } else {
+        setCalls(current => current.map(call => call.callId === update.callId
+          ? { ...call, status, startedAt: update.data.startedAt || call.startedAt }
+          : call
+        ))
+      }
+    }
+  }, refreshInterval > 0)
+
+  // Poll only while live updates are unavailable
+  useEffect(() => {
+    fetchLiveCalls()
+
+    if (refreshInterval > 0 && !liveConnected) {
+      const interval = setInterval(fetchLiveCalls, refreshInterval)
+      return () => clearInterval(interval)
+    }
+  }, [campaignId, refreshInterval, liveConnected])
+
+  useEffect(() => {
+    return () => {
+      if (refetchTimer.current) clearTimeout(refetchTimer.current)
+    }
+  }, [])
+
+  // Tick elapsed times
+  useEffect(() => {
+    if (calls.length === 0) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [calls.length])
+
+  const formatElapsed = (seconds: number) => {
+    const mins = Math.floor(seconds / 60)
+    const secs = seconds % 60
+    return `${mins}:${secs.toString().padStart(2, '0')}`
+  }
+
+  const getElapsedSeconds = (call: LiveCall) =>
+    call.startedAt ? Math.max(0, Math.floor((now - new Date(call.startedAt).getTime()) / 1000)) : call.elapsedSeconds
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">
+          Live Calls
+          {calls.length > 0 && <span className="ml-2 text-sm font-normal text-gray-500">({calls.length})</span>}
+        </h2>
+        <span className={`text-xs ${liveConnected ? 'text-success-600' : 'text-gray-500'}`}>
+          {liveConnected ? '● Live' : 'Polling'}
+        </span>
+      </div>
+
+      {error && (
+        <p className="text-sm text-error-700 mb-4">{error}</p>
+      )}
+
+      {calls.length === 0 ? (
+        <p className="text-sm text-gray-500">No calls in progress</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {calls.map((call) => (
+            <LiveCallPanel
+              key={call.callId}
+              call={call}
+              elapsedSeconds={getElapsedSeconds(call)}
+              formatElapsed={formatElapsed}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface LiveCallPanelProps {
+  call: LiveCall
+  elapsedSeconds: number
+  formatElapsed: (seconds: number) => string
+}
+
+function LiveCallPanel({ call, elapsedSeconds, formatElapsed }: LiveCallPanelProps) {
+  const transcriptRef = useRef<HTMLDivElement>(null)
+
+  // Keep the newest turn in view
+  useEffect(() => {
+    if (transcriptRef.current) {
+      transcriptRef.current.scrollTop = transcriptRef.current.scrollHeight
+    }
+  }, [call.transcript.length])
+
+  const isOverTime = elapsedSeconds >= call.maxDurationSeconds
+  const coveredTopics = call.coveredTopics.map(topic => topic.toLowerCase())
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">{call.customerName}</h3>
+          <p className="text-xs text-gray-500">{call.customerPhone}</p>
+        </div>
+        <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full text-primary-600 bg-primary-100">
+          <span className="w-2 h-2 bg-primary-600 rounded-full animate-pulse mr-1"></span>
+          {call.status}
+        </span>
+      </div>
+
+      <div className="flex justify-between text-xs mb-3">
+        <span className={isOverTime ? 'text-error-600 font-medium' : 'text-gray-600'}>
+          {formatElapsed(elapsedSeconds)} / {formatElapsed(call.maxDurationSeconds)}
+        </span>
+        <span className={call.turnCount >= call.maxTurns ? 'text-warning-600 font-medium' : 'text-gray-600'}>
+          Turn {call.turnCount} of {call.maxTurns}
+        </span>
+      </div>
+
+      {call.requiredTopics.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {call.requiredTopics.map((topic) => (
+            <span
+              key={topic}
+              className={`px-2 py-0.5 rounded text-xs ${
+                coveredTopics.includes(topic.toLowerCase()) ? 'bg-success-100 text-success-800' : 'bg-gray-100 text-gray-500'
+              }`}
+            >
+              {topic}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div ref={transcriptRef} className="h-48 overflow-y-auto bg-gray-50 rounded p-2 space-y-2">
+        {call.transcript.length === 0 ? (
+          <p className="text-xs text-gray-400 text-center mt-16">
+            {call.status === 'answered' ? 'Waiting for the conversation to start…' : 'Waiting for the customer to answer…'}
+          </p>
+        ) : (
+          call.transcript.map((message, index) => (
+            <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-xs px-3 py-1.5 rounded-lg text-xs ${
+                message.role === 'user' ? 'bg-primary-600 text-white' : 'bg-white border border-gray-200 text-gray-800'
+              }`}>
+                {message.content}
+                {message.interrupted && <span className="ml-1 italic text-gray-400">(interrupted)</span>}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {call.lastActivityAt && (
+        <p className="text-xs text-gray-400 mt-2">
+          Last activity {new Date(call.lastActivityAt).toLocaleTimeString()}
+        </p>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
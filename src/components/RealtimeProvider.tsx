@@ -0,0 +1,72 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { RealtimeUpdate } from '@/types/api'
+import { subscribeToRealtimeUpdates } from '@/lib/realtime-client'
+
+type RealtimeListener = (update: RealtimeUpdate) => void
+
+interface RealtimeContextValue {
+  connected: boolean
+  addListener: (listener: RealtimeListener) => () => void
+}
+
+const RealtimeContext = createContext<RealtimeContextValue | null>(null)
+
+interface RealtimeProviderProps {
+  children: React.ReactNode
+}
+
+/**
+ * Opens one /api/events stream, live transcripts included, for all the components below it
+ */
+export default function RealtimeProvider({ children }: RealtimeProviderProps) {
+  const [connected, setConnected] = useState(false)
+  const listeners = useRef<RealtimeListener[]>([])
+
+  useEffect(() => {
+    const unsubscribe = subscribeToRealtimeUpdates(undefined, {
+      includeConversations: true,
+      onUpdate: (update) => listeners.current.forEach(listener => listener(update)),
+      onConnectionChange: setConnected
+    })
+
+    return () => {
+      unsubscribe()
+      setConnected(false)
+    }
+  }, [])
+
+  const addListener = useCallback((listener: RealtimeListener) => {
+    listeners.current = [...listeners.current, listener]
+    return () => {
+      listeners.current = listeners.current.filter(current => current !== listener)
+    }
+  }, [])
+
+  const value = useMemo(() => ({ connected, addListener }), [connected, addListener])
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>
+}
+
+/**
+ * Receive the shared stream's updates, optionally for one campaign. Returns whether updates are
+ * live; without a RealtimeProvider above, or while its stream is down, callers should poll.
+ */
+export function useRealtimeUpdates(campaignId: string | undefined, onUpdate: RealtimeListener, enabled = true): boolean {
+  const context = useContext(RealtimeContext)
+  const addListener = context?.addListener
+  const handler = useRef(onUpdate)
+
+  handler.current = onUpdate
+
+  useEffect(() => {
+    if (!addListener || !enabled) return
+
+    return addListener(update => {
+      if (!campaignId || update.campaignId === campaignId) handler.current(update)
+    })
+  }, [addListener, campaignId, enabled])
+
+  return !!context && enabled && context.connected
+}
\ No newline at end of file
@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { CsatSummary, NpsSummary, ScoreReportResponse, ScoreTrendInterval } from '@/types/api'
+
+interface ScoreTrendsProps {
+  campaignId?: string
+  refreshInterval?: number
+}
+
+export default function ScoreTrends({ campaignId, refreshInterval = 10000 }: ScoreTrendsProps) {
+  const [report, setReport] = useState<ScoreReportResponse | null>(null)
+  const [trendInterval, setTrendInterval] = useState<ScoreTrendInterval>('day')
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReport = async () => {
+    try {
+      const params = new URLSearchParams({ interval: trendInterval })
+      if (campaignId) params.set('campaignId', campaignId)
+
+      const response = await fetch(`/api/analytics/scores?${params.toString()}`)
+      const result = await response.json()
+
+      if (result.success) {
+        setReport(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to fetch scores')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  useEffect(() => {
+    fetchReport()
+
+    if (refreshInterval > 0) {
+      const interval = setInterval(fetchReport, refreshInterval)
+      return () => clearInterval(interval)
+    }
+  }, [campaignId, trendInterval, refreshInterval])
+
+  if (error && !report) {
+    return (
+      <div className="card bg-error-50 border-error-200">
+        <p className="text-sm text-error-700">{error}</p>
+      </div>
+    )
+  }
+
+  // Nothing to show until at least one call has a score
+  if (!report || (report.nps.responses === 0 && report.csat.responses === 0)) {
+    return null
+  }
+
+  const formatNps = (nps: NpsSummary) => nps.score === null ? '—' : `${nps.score > 0 ? '+' : ''}${nps.score}`
+  const formatCsat = (csat: CsatSummary) => csat.score === null ? '—' : `${csat.score}%`
+
+  const getNpsColor = (score: number | null) => {
+    if (score === null) return 'text-gray-400'
+    if (score >= 30) return 'text-success-600'
+    if (score >= 0) return 'text-warning-600'
+    return 'text-error-600'
+  }
+
+  const maxNpsCount = Math.max(1, ...Object.keys(report.distribution.nps).map(score => report.distribution.nps[score]))
+  const maxCsatCount = Math.max(1, ...Object.keys(report.distribution.csat).map(score => report.distribution.csat[score]))
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Customer Scores</h2>
+        <select
+          value={trendInterval}
+          onChange={(e) => setTrendInterval(e.target.value as ScoreTrendInterval)}
+          className="select-field"
+        >
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+          <option value="month">Monthly</option>
+        </select>
+      </div>
+
+      {/* Headline Scores */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">NPS</h3>
+          <p className={`text-3xl font-bold ${getNpsColor(report.nps.score)}`}>{formatNps(report.nps)}</p>
+          <p className="text-xs text-gray-500 mt-1">{report.nps.responses} responses</p>
+          {report.nps.responses > 0 && (
+            <>
+              <div className="flex w-full h-2 rounded-full overflow-hidden mt-2">
+                <div className="bg-error-500" style={{ width: `${(report.nps.detractors / report.nps.responses) * 100}%` }}></div>
+                <div className="bg-gray-300" style={{ width: `${(report.nps.passives / report.nps.responses) * 100}%` }}></div>
+                <div className="bg-success-500" style={{ width: `${(report.nps.promoters / report.nps.responses) * 100}%` }}></div>
+              </div>
+              <div className="flex justify-between text-xs mt-1">
+                <span className="text-error-600">{report.nps.detractors} detractors</span>
+                <span className="text-gray-500">{report.nps.passives} passives</span>
+                <span className="text-success-600">{report.nps.promoters} promoters</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">CSAT</h3>
+          <p className="text-3xl font-bold text-gray-900">{formatCsat(report.csat)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {report.csat.responses} responses{report.csat.average !== null && ` • average ${report.csat.average}/5`}
+          </p>
+        </div>
+      </div>
+
+      {/* Score Distribution */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">NPS distribution</h3>
+          <div className="flex items-end h-24 gap-1">
+            {Object.keys(report.distribution.nps).map((score) => (
+              <div key={score} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div
+                  className={`w-full rounded-t ${Number(score) >= 9 ? 'bg-success-500' : Number(score) >= 7 ? 'bg-gray-300' : 'bg-error-500'}`}
+                  style={{ height: `${(report.distribution.nps[score] / maxNpsCount) * 100}%` }}
+                  title={`${report.distribution.nps[score]} calls`}
+                ></div>
+                <span className="text-xs text-gray-500 mt-1">{score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">CSAT distribution</h3>
+          <div className="flex items-end h-24 gap-1">
+            {Object.keys(report.distribution.csat).map((score) => (
+              <div key={score} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div
+                  className="w-full rounded-t bg-primary-600"
+                  style={{ height: `${(report.distribution.csat[score] / maxCsatCount) * 100}%` }}
+                  title={`${report.distribution.csat[score]} calls`}
+                ></div>
+                <span className="text-xs text-gray-500 mt-1">{score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Trend */}
+      <div className="mb-6">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Trend</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 pr-4">Period</th>
+                <th className="py-2 pr-4">NPS</th>
+                <th className="py-2 pr-4">CSAT</th>
+                <th className="py-2">Responses</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.trend.map((point) => (
+                <tr key={point.period}>
+                  <td className="py-2 pr-4 text-gray-900">{new Date(point.period).toLocaleDateString()}</td>
+                  <td className={`py-2 pr-4 font-medium ${getNpsColor(point.nps.score)}`}>{formatNps(point.nps)}</td>
+                  <td className="py-2 pr-4 text-gray-900">{formatCsat(point.csat)}</td>
+                  <td className="py-2 text-gray-500">{Math.max(point.nps.responses, point.csat.responses)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Breakdowns */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">By service</h3>
+          <ul className="space-y-1 text-sm">
+            {report.byService.map((row) => (
+              <li key={row.service} className="flex justify-between">
+                <span className="text-gray-900 truncate">{row.service}</span>
+                <span>
+                  <span className={getNpsColor(row.nps.score)}>NPS {formatNps(row.nps)}</span>
+                  <span className="text-gray-500"> • CSAT {formatCsat(row.csat)}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {!campaignId && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">By campaign</h3>
+            <ul className="space-y-1 text-sm">
+              {report.byCampaign.map((row) => (
+                <li key={row.campaignId} className="flex justify-between">
+                  <span className="text-gray-900 truncate">{row.campaignName}</span>
+                  <span>
+                    <span className={getNpsColor(row.nps.score)}>NPS {formatNps(row.nps)}</span>
+                    <span className="text-gray-500"> • CSAT {formatCsat(row.csat)}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
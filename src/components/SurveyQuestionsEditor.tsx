@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import { SurveyQuestion, SurveyQuestionType } from '@/types/survey'
+
+interface SurveyQuestionsEditorProps {
+  questions: SurveyQuestion[]
+  onQuestionsChange: (questions: SurveyQuestion[]) => void
+}
+
+const QUESTION_TYPES: Array<{ value: SurveyQuestionType; label: string }> = [
+  { value: 'nps', label: 'NPS score 0–10' },
+  { value: 'csat', label: 'CSAT score 1–5' },
+  { value: 'yes_no', label: 'Yes / No' },
+  { value: 'multiple_choice', label: 'Multiple choice' },
+  { value: 'free_text', label: 'Free text' }
+]
+
+export default function SurveyQuestionsEditor({ questions, onQuestionsChange }: SurveyQuestionsEditorProps) {
+  const [prompt, setPrompt] = useState('')
+  const [type, setType] = useState<SurveyQuestionType>('nps')
+  const [options, setOptions] = useState('')
+
+  const handleAddQuestion = () => {
+    const text = prompt.trim()
+    if (!text || questions.length >= 10) {
+      return
+    }
+
+    const labels = options.split(',').map(option => option.trim()).filter(option => option.length > 0)
+    if (type === 'multiple_choice' && labels.length < 2) {
+      return
+    }
+
+    const ids = questions.map(question => question.id)
+    let index = questions.length + 1
+    while (ids.includes(`q${index}`)) index++
+
+    onQuestionsChange([
+      ...questions,
+      {
+        id: `q${index}`,
+        type,
+        prompt: text,
+        options: type === 'multiple_choice'
+          ? labels.map(label => ({ code: label.toLowerCase().replace(/\s+/g, '_'), label }))
+          : undefined,
+        required: true
+      }
+    ])
+    setPrompt('')
+    setOptions('')
+  }
+
+  const handleRemoveQuestion = (id: string) => {
+    onQuestionsChange(questions.filter(question => question.id !== id))
+  }
+
+  const handleToggleRequired = (id: string) => {
+    onQuestionsChange(questions.map(question =>
+      question.id === id ? { ...question, required: !question.required } : question
+    ))
+  }
+
+  return (
+    <div className="space-y-4">
+      {questions.length > 0 && (
+        <ol className="space-y-2">
+          {questions.map((question, index) => (
+            <li key={question.id} className="flex items-start justify-between p-3 border border-gray-200 rounded-md">
+              <div>
+                <p className="text-sm text-gray-900">{index + 1}. {question.prompt}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {QUESTION_TYPES.find(option => option.value === question.type)?.label}
+                  {question.options && ` • ${question.options.map(option => option.label).join(', ')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 ml-4">
+                <label className="flex items-center text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={question.required}
+                    onChange={() => handleToggleRequired(question.id)}
+                    className="h-3 w-3 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-1"
+                  />
+                  Required
+                </label>
+                <button
+                  onClick={() => handleRemoveQuestion(question.id)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* New Question */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as SurveyQuestionType)}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {QUESTION_TYPES.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddQuestion()}
+            placeholder="e.g. How likely are you to recommend us to a friend?"
+            className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+          <button
+            onClick={handleAddQuestion}
+            disabled={questions.length >= 10}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+        {type === 'multiple_choice' && (
+          <input
+            type="text"
+            value={options}
+            onChange={(e) => setOptions(e.target.value)}
+            placeholder="Comma-separated options, e.g. Fees, Waiting time, Staff"
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        )}
+        <p className="text-xs text-gray-500">
+          Customers answer by speaking or on the keypad. Questions are asked in order once the conversation wraps up.
+        </p>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface SurveyResultsData {
+  respondents: number
+  questions: Array<{
+    questionId: string
+    type: 'nps' | 'csat' | 'yes_no' | 'multiple_choice' | 'free_text'
+    prompt: string
+    options?: Array<{ code: string; label: string }>
+    responses: number
+    skipped: number
+    average?: number
+    distribution: Record<string, number>
+    recentTexts?: string[]
+  }>
+}
+
+interface SurveyResultsProps {
+  campaignId: string
+  refreshInterval?: number
+}
+
+export default function SurveyResults({ campaignId, refreshInterval = 10000 }: SurveyResultsProps) {
+  const [results, setResults] = useState<SurveyResultsData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchResults = async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/survey`)
+      const result = await response.json()
+
+      if (result.success) {
+        setResults(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to fetch survey results')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  useEffect(() => {
+    fetchResults()
+
+    if (refreshInterval > 0) {
+      const interval = setInterval(fetchResults, refreshInterval)
+      return () => clearInterval(interval)
+    }
+  }, [campaignId, refreshInterval])
+
+  // Campaigns without survey questions have nothing to show
+  if (!results || results.questions.length === 0) {
+    return error ? (
+      <div className="card bg-error-50 border-error-200">
+        <p className="text-sm text-error-700">{error}</p>
+      </div>
+    ) : null
+  }
+
+  // Bars in the order the answers were offered
+  const getDistributionRows = (question: SurveyResultsData['questions'][number]) => {
+    switch (question.type) {
+      case 'nps':
+        return Array.from({ length: 11 }, (_, score) => ({ label: String(score), count: question.distribution[String(score)] || 0 }))
+      case 'csat':
+        return Array.from({ length: 5 }, (_, index) => ({ label: String(index + 1), count: question.distribution[String(index + 1)] || 0 }))
+      case 'yes_no':
+        return [
+          { label: 'Yes', count: question.distribution.yes || 0 },
+          { label: 'No', count: question.distribution.no || 0 }
+        ]
+      default:
+        return (question.options || []).map(option => ({ label: option.label, count: question.distribution[option.code] || 0 }))
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Survey Results</h2>
+        <span className="text-sm text-gray-500">{results.respondents} respondents</span>
+      </div>
+
+      <div className="space-y-6">
+        {results.questions.map((question) => (
+          <div key={question.questionId}>
+            <div className="flex justify-between items-baseline">
+              <p className="text-sm font-medium text-gray-900">{question.prompt}</p>
+              <p className="text-xs text-gray-500">
+                {question.responses} answers{question.skipped > 0 && ` • ${question.skipped} not understood`}
+                {question.average !== undefined && ` • average ${question.average}`}
+              </p>
+            </div>
+
+            {question.type === 'free_text' ? (
+              <ul className="mt-2 space-y-1">
+                {(question.recentTexts || []).map((text, index) => (
+                  <li key={index} className="text-xs text-gray-700 bg-gray-50 rounded px-2 py-1">“{text}”</li>
+                ))}
+              </ul>
+            ) : (
+              <div className="mt-2 space-y-1">
+                {getDistributionRows(question).map((row) => (
+                  <div key={row.label} className="flex items-center text-xs">
+                    <span className="w-32 truncate text-gray-600">{row.label}</span>
+                    <div className="flex-1 bg-gray-200 rounded-full h-2 mx-2">
+                      <div
+                        className="bg-primary-600 h-2 rounded-full"
+                        style={{ width: `${question.responses > 0 ? (row.count / question.responses) * 100 : 0}%` }}
+                      ></div>
+                    </div>
+                    <span className="w-8 text-right text-gray-900">{row.count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -10,10 +10,40 @@ interface TranscriptData {
   summary?: string
   sentiment?: 'positive' | 'negative' | 'neutral'
   keyIssues?: string[]
+  issueClassifications?: Array<{
+    issue: string
+    code: string
+    confidence: number
+  }>
+  npsScore?: number
+  csatScore?: number
   duration: number
   timestamp: string
   startedAt?: string
   endedAt?: string
+  events: Array<{
+    fromStatus: string
+    toStatus: string
+    cause: string
+    timestamp: string
+  }>
+  attempts: Array<{
+    attemptNumber: number
+    outcome: string
+    errorMessage?: string
+    duration?: number
+    startedAt?: string
+    endedAt: string
+  }>
+  surveyAnswers: Array<{
+    questionId: string
+    value: number | boolean | string | null
+    source: 'speech' | 'dtmf'
+    rawInput: string
+  }>
+  retryCount: number
+  maxRetries: number
+  nextAttemptAt?: string
 }
 
 interface TranscriptViewerProps {
@@ -56,10 +86,19 @@ export default function TranscriptViewer({ callId, onClose }: TranscriptViewerPr
         summary: callData.summary,
         sentiment: callData.sentiment,
         keyIssues: callData.keyIssues,
+        issueClassifications: callData.issueClassifications,
+        npsScore: callData.npsScore ?? undefined,
+        csatScore: callData.csatScore ?? undefined,
         duration: callData.duration || 0,
         timestamp: callData.endedAt || callData.startedAt || new Date().toISOString(),
         startedAt: callData.startedAt,
-        endedAt: callData.endedAt
+        endedAt: callData.endedAt,
+        events: callResult.data.events || [],
+        attempts: callResult.data.attempts || [],
+        surveyAnswers: callResult.data.surveyAnswers || [],
+        retryCount: callData.retryCount || 0,
+        maxRetries: callData.maxRetries || 0,
+        nextAttemptAt: callData.nextAttemptAt
       }
       
       setTranscript(transcriptData)
@@ -282,18 +321,36 @@ ${transcript.transcript}`
                     </div>
                   )}
                   
+                  {(transcript.npsScore !== undefined || transcript.csatScore !== undefined) && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Scores</label>
+                      <p className="text-sm text-gray-900">
+                        {transcript.npsScore !== undefined && `NPS ${transcript.npsScore}/10`}
+                        {transcript.npsScore !== undefined && transcript.csatScore !== undefined && ' • '}
+                        {transcript.csatScore !== undefined && `CSAT ${transcript.csatScore}/5`}
+                      </p>
+                    </div>
+                  )}
+                  
                   {transcript.keyIssues && transcript.keyIssues.length > 0 && (
                     <div>
                       <label className="text-sm font-medium text-gray-700">Key Issues</label>
                       <div className="mt-2 space-y-1">
-                        {transcript.keyIssues.map((issue, index) => (
-                          <span
-                            key={index}
-                            className="inline-block px-2 py-1 text-xs bg-warning-100 text-warning-800 rounded mr-1 mb-1"
-                          >
-                            {issue}
-                          </span>
-                        ))}
+                        {transcript.keyIssues.map((issue, index) => {
+                          const classification = transcript.issueClassifications?.find(candidate => candidate.issue === issue)
+                          return (
+                            <span
+                              key={index}
+                              className="inline-block px-2 py-1 text-xs bg-warning-100 text-warning-800 rounded mr-1 mb-1"
+                              title={classification ? `Confidence ${Math.round(classification.confidence * 100)}%` : undefined}
+                            >
+                              {issue}
+                              {classification && (
+                                <span className="ml-1 font-mono text-warning-600">[{classification.code}]</span>
+                              )}
+                            </span>
+                          )
+                        })}
                       </div>
                     </div>
                   )}
@@ -306,6 +363,72 @@ ${transcript.transcript}`
                       </div>
                     </div>
                   )}
+                  
+                  {transcript.surveyAnswers.length > 0 && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Survey Answers</label>
+                      <ul className="mt-2 space-y-2">
+                        {transcript.surveyAnswers.map((answer) => (
+                          <li key={answer.questionId} className="text-xs">
+                            <div className="text-gray-900">
+                              {answer.questionId}:{' '}
+                              <span className="font-medium">
+                                {answer.value === null ? 'not understood' : typeof answer.value === 'boolean' ? (answer.value ? 'yes' : 'no') : String(answer.value)}
+                              </span>
+                            </div>
+                            <div className="text-gray-500">
+                              {answer.source === 'dtmf' ? `Pressed ${answer.rawInput}` : `“${answer.rawInput}”`}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  
+                  {transcript.attempts.length > 0 && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">
+                        Attempts ({transcript.retryCount}/{transcript.maxRetries} retries used)
+                      </label>
+                      <ol className="mt-2 space-y-2">
+                        {transcript.attempts.map((attempt) => (
+                          <li key={attempt.attemptNumber} className="text-xs">
+                            <div className="text-gray-900">
+                              #{attempt.attemptNumber} <span className="font-medium">{attempt.outcome}</span>
+                              {attempt.duration !== undefined && ` • ${attempt.duration}s`}
+                            </div>
+                            <div className="text-gray-500">
+                              {new Date(attempt.endedAt).toLocaleString()}
+                              {attempt.errorMessage && ` • ${attempt.errorMessage}`}
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                      {transcript.nextAttemptAt && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          Next attempt {new Date(transcript.nextAttemptAt).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  
+                  {transcript.events.length > 0 && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Status History</label>
+                      <ol className="mt-2 space-y-2 border-l border-gray-300 pl-3">
+                        {transcript.events.map((event, index) => (
+                          <li key={index} className="text-xs">
+                            <div className="text-gray-900">
+                              {event.fromStatus} → <span className="font-medium">{event.toStatus}</span>
+                            </div>
+                            <div className="text-gray-500">
+                              {new Date(event.timestamp).toLocaleTimeString()} • {event.cause}
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
                 </div>
               </div>
 
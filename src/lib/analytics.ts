@@ -0,0 +1,74 @@
+import { CallAnalyticsAggregates } from '@/types/call'
+import { AnalyticsResponse, AnalyticsScriptVariant } from '@/types/api'
+import { IssueCategory } from '@/types/issue'
+
+// Longest range whose empty days are filled in, so charts don't draw huge gaps as neighbours
+const MAX_FILLED_DAYS = 366
+
+/**
+ * Turn the database aggregates into the analytics response: rates, percentages,
+ * issue labels and a gap-free daily series
+ */
+export function buildAnalyticsResponse(
+  aggregates: CallAnalyticsAggregates,
+  taxonomy: IssueCategory[],
+  scriptVariants: AnalyticsScriptVariant[] = []
+): AnalyticsResponse {
+  const { overview } = aggregates
+  
+  return {
+    overview: {
+      totalCampaigns: overview.totalCampaigns,
+      totalCalls: overview.totalCalls,
+      // Calls still pending or in progress don't count against the rate
+      successRate: overview.finishedCalls > 0 ? toPercentage(overview.completedCalls, overview.finishedCalls) : 0,
+      averageDuration: overview.averageDuration
+    },
+    callsByStatus: aggregates.callsByStatus,
+    callsByService: aggregates.callsByService,
+    sentimentAnalysis: aggregates.sentiment,
+    topIssues: aggregates.topIssues.map(issue => ({
+      issue: issue.issue,
+      label: getIssueLabel(issue.issue, taxonomy),
+      count: issue.count,
+      percentage: aggregates.totalIssues > 0 ? toPercentage(issue.count, aggregates.totalIssues) : 0
+    })),
+    timeSeriesData: fillMissingDays(aggregates.timeSeries),
+    scriptVariants
+  }
+}
+
+/**
+ * 'Category / Subcategory' for a taxonomy code, or the issue as-is
+ */
+export function getIssueLabel(issue: string, taxonomy: IssueCategory[]): string {
+  const [categoryCode, subcategoryCode] = issue.split('.')
+  const category = taxonomy.find(candidate => candidate.code === categoryCode)
+  const subcategory = category?.subcategories.find(candidate => candidate.code === subcategoryCode)
+  
+  return category && subcategory ? `${category.label} / ${subcategory.label}` : issue
+}
+
+function fillMissingDays(series: CallAnalyticsAggregates['timeSeries']): AnalyticsResponse['timeSeriesData'] {
+  if (series.length < 2) return series
+  
+  const byDate: Record<string, CallAnalyticsAggregates['timeSeries'][number]> = {}
+  for (const point of series) byDate[point.date] = point
+  
+  const first = Date.parse(`${series[0].date}T00:00:00Z`)
+  const last = Date.parse(`${series[series.length - 1].date}T00:00:00Z`)
+  const days = Math.round((last - first) / (24 * 60 * 60 * 1000)) + 1
+  if (days > MAX_FILLED_DAYS) return series
+  
+  const filled: AnalyticsResponse['timeSeriesData'] = []
+  for (let day = 0; day < days; day++) {
+    const date = new Date(first + day * 24 * 60 * 60 * 1000).toISOString().substring(0, 10)
+    filled.push(byDate[date] || { date, calls: 0, completed: 0, failed: 0 })
+  }
+  
+  return filled
+}
+
+function toPercentage(count: number, total: number): number {
+  return Math.round((count / total) * 1000) / 10
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+// Speaking rate of the bot's voice and of customers, for timing estimates
+const WORDS_PER_MINUTE = 150
+
+// Silence Twilio waits for (speechTimeout="auto") before it ends the customer's speech
+const END_OF_SPEECH_MS = 1000
+
+// Leeway before a prompt counts as interrupted - playback starts a little after the TwiML is served
+const INTERRUPTION_TOLERANCE_MS = 1500
+
+/**
+ * Rough time it takes to say the text out loud
+ */
+export function estimateSpeechDurationMs(text: string): number {
+  const words = text.trim().split(/\s+/).filter(word => word.length > 0).length
+  return Math.round((words / WORDS_PER_MINUTE) * 60 * 1000)
+}
+
+/**
+ * Whether the customer started answering (speech, or keys with an empty answer) before a
+ * prompt nested in <Gather> finished playing.
+ * Twilio doesn't report barge-in, so this compares the time the prompt was served with how
+ * long it and the customer's answer take to say.
+ */
+export function wasPromptInterrupted(
+  prompt: { issuedAt: number; durationMs: number },
+  answer: string,
+  now = Date.now()
+): boolean {
+  const answeredAfterMs = now - prompt.issuedAt - estimateSpeechDurationMs(answer) - (answer ? END_OF_SPEECH_MS : 0)
+  return answeredAfterMs + INTERRUPTION_TOLERANCE_MS < prompt.durationMs
+}
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { BotScript } from '@/types/call'
+import { getCallPrompt } from './call-prompts'
+
+// Variables a bot script may reference as {{name}}
+export const BOT_SCRIPT_VARIABLES = ['customerName', 'bankName', 'botName', 'services', 'customerReason'] as const
+
+export type BotScriptVariable = typeof BOT_SCRIPT_VARIABLES[number]
+
+export interface BotScriptVariables {
+  customerName: string
+  bankName: string
+  botName: string
+  services: string[]
+  customerReason?: string
+  locale?: string // Language of the call, for the words joining the services
+}
+
+// Used when a campaign doesn't configure its own script
+export const DEFAULT_BOT_SCRIPT: BotScript = {
+  systemPrompt: `You are {{botName}}, an empathetic and professional customer service AI from {{bankName}}. You are conducting a voice call with {{customerName}} about their experience with {{services}}.
+
+Your primary goals:
+1. Listen empathetically and make the customer feel heard
+2. Understand their specific concerns - discover the real reasons behind their actions
+3. Gather detailed feedback about their experience
+4. DO NOT try to solve problems or offer solutions - just listen and understand
+5. Keep responses EXTREMELY concise - 1-2 sentences maximum (under 30 words)`,
+  openingLine: 'Hello {{customerName}}, this is {{botName}} from {{bankName}}. I\'m calling about your {{services}} experience with us. Could you share what has been on your mind?',
+  closingLine: 'Thank you so much for taking the time to speak with me today, {{customerName}}. Your feedback is incredibly valuable to us at {{bankName}}, and I want you to know that we\'ve heard everything you\'ve shared.'
+}
+
+// The default opening line in other languages, by language subtag
+const TRANSLATED_DEFAULT_OPENING_LINES: Record<string, string> = {
+  ar: 'مرحباً {{customerName}}، معك {{botName}} من {{bankName}}. أتصل بك بخصوص تجربتك معنا. هل يمكنك أن تشاركني ما يدور في ذهنك؟',
+  fr: 'Bonjour {{customerName}}, ici {{botName}} de {{bankName}}. Je vous appelle au sujet de votre expérience avec nous. Pourriez-vous me dire ce qui vous préoccupe ?',
+  hi: 'नमस्ते {{customerName}}, यह {{bankName}} से {{botName}} की कॉल है। हम जानना चाहते हैं कि हमारे साथ आपका अनुभव कैसा रहा। क्या आप बता सकते हैं कि आपके मन में क्या है?'
+}
+
+// The default closing line in other languages, by language subtag
+const TRANSLATED_DEFAULT_CLOSING_LINES: Record<string, string> = {
+  ar: 'شكراً جزيلاً لك على وقتك اليوم يا {{customerName}}. ملاحظاتك قيّمة جداً لنا في {{bankName}}، ونؤكد لك أننا استمعنا لكل ما شاركته معنا.',
+  fr: 'Merci beaucoup d\'avoir pris le temps de me parler aujourd\'hui, {{customerName}}. Vos commentaires sont très précieux pour {{bankName}}, et nous avons bien entendu tout ce que vous avez partagé.',
+  hi: 'आज मुझसे बात करने के लिए समय निकालने के लिए बहुत धन्यवाद, {{customerName}}। आपकी प्रतिक्रिया {{bankName}} के लिए बहुत मूल्यवान है, और हमने आपकी हर बात सुनी है।'
+}
+
+const MAX_SYSTEM_PROMPT_LENGTH = 4000
+const MAX_LINE_LENGTH = 500
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g
+
+/**
+ * Fill in missing parts of a (partial) script from the defaults.
+ * A plain string is treated as the system prompt, as stored by older campaigns.
+ */
+export function resolveBotScript(script?: Partial<BotScript> | string | null): BotScript {
+  if (typeof script === 'string') {
+    return { ...DEFAULT_BOT_SCRIPT, systemPrompt: script.trim() || DEFAULT_BOT_SCRIPT.systemPrompt }
+  }
+  
+  return {
+    systemPrompt: script?.systemPrompt?.trim() || DEFAULT_BOT_SCRIPT.systemPrompt,
+    openingLine: script?.openingLine?.trim() || DEFAULT_BOT_SCRIPT.openingLine,
+    closingLine: script?.closingLine?.trim() || DEFAULT_BOT_SCRIPT.closingLine
+  }
+}
+
+/**
+ * Opening line of a script for a call in the given locale, translated like the closing line
+ */
+export function getOpeningLine(script: BotScript, locale?: string): string {
+  if (!locale || script.openingLine !== DEFAULT_BOT_SCRIPT.openingLine) return script.openingLine
+  return TRANSLATED_DEFAULT_OPENING_LINES[locale.split('-')[0].toLowerCase()] || script.openingLine
+}
+
+/**
+ * Closing line of a script for a call in the given locale. A campaign's own closing line is
+ * spoken as written; the default one is swapped for its translation.
+ */
+export function getClosingLine(script: BotScript, locale?: string): string {
+  if (!locale || script.closingLine !== DEFAULT_BOT_SCRIPT.closingLine) return script.closingLine
+  return TRANSLATED_DEFAULT_CLOSING_LINES[locale.split('-')[0].toLowerCase()] || script.closingLine
+}
+
+/**
+ * Validate a bot script, returning an error message or null
+ */
+export function validateBotScript(script: BotScript): string | null {
+  if (script.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    return `System prompt must be at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`
+  }
+  
+  if (script.openingLine.length > MAX_LINE_LENGTH || script.closingLine.length > MAX_LINE_LENGTH) {
+    return `Opening and closing lines must be at most ${MAX_LINE_LENGTH} characters`
+  }
+  
+  const parts: Array<[string, string]> = [
+    ['System prompt', script.systemPrompt],
+    ['Opening line', script.openingLine],
+    ['Closing line', script.closingLine]
+  ]
+  
+  for (const [label, template] of parts) {
+    const unknown = getTemplateVariables(template)
+      .filter(name => !(BOT_SCRIPT_VARIABLES as readonly string[]).includes(name))
+    if (unknown.length > 0) {
+      return `${label} uses unknown variables: ${unknown.map(name => `{{${name}}}`).join(', ')}`
+    }
+    
+    // Anything still wrapped in braces after removing valid placeholders is a typo
+    if (/\{\{|\}\}/.test(template.replace(PLACEHOLDER_PATTERN, ''))) {
+      return `${label} has a malformed {{variable}}`
+    }
+  }
+  
+  return null
+}
+
+/**
+ * Names of the variables a template references
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names: string[] = []
+  const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g')
+  let match: RegExpExecArray | null
+  
+  while ((match = pattern.exec(template)) !== null) {
+    if (!names.includes(match[1])) names.push(match[1])
+  }
+  
+  return names
+}
+
+/**
+ * Replace {{variables}} in a template. Unknown variables are left as they are.
+ */
+export function renderTemplate(template: string, variables: BotScriptVariables): string {
+  const values: Record<BotScriptVariable, string> = {
+    customerName: variables.customerName,
+    bankName: variables.bankName,
+    botName: variables.botName,
+    services: formatServices(variables.services, variables.locale),
+    customerReason: variables.customerReason?.trim() || ''
+  }
+  
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    name in values ? values[name as BotScriptVariable] : placeholder
+  )
+}
+
+export function renderBotScript(script: BotScript, variables: BotScriptVariables): BotScript {
+  return {
+    systemPrompt: renderTemplate(script.systemPrompt, variables),
+    openingLine: renderTemplate(script.openingLine, variables),
+    closingLine: renderTemplate(script.closingLine, variables)
+  }
+}
+
+/**
+ * Turn service ids into speakable text in the call's language: ['credit-card', 'loans'] -> 'credit card and loans'
+ */
+export function formatServices(services: string[], locale?: string): string {
+  const names = services.map(service => service.replace(/[-_]/g, ' ').trim()).filter(Boolean)
+  
+  if (names.length === 0) return getCallPrompt('ourServices', locale)
+  if (names.length === 1) return names[0]
+  return `${names.slice(0, -1).join(', ')} ${getCallPrompt('listAnd', locale)} ${names[names.length - 1]}`
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { Call } from '@/types/call'
+
+/**
+ * Format call object for API response
+ */
+export function formatCallForResponse(call: Call) {
+  return {
+    id: call.id,
+    customerName: call.customerName,
+    customerPhone: call.customerPhone,
+    status: call.status,
+    scheduledAt: call.scheduledAt.toISOString(),
+    startedAt: call.startedAt?.toISOString(),
+    endedAt: call.endedAt?.toISOString(),
+    duration: call.duration,
+    transcript: call.transcript,
+    summary: call.summary,
+    sentiment: call.sentiment,
+    keyIssues: call.keyIssues,
+    issueClassifications: call.issueClassifications,
+    npsScore: call.npsScore,
+    csatScore: call.csatScore,
+    errorMessage: call.errorMessage,
+    retryCount: call.retryCount,
+    maxRetries: call.maxRetries,
+    nextAttemptAt: call.nextAttemptAt?.toISOString(),
+    scriptVariant: call.scriptVariant,
+    locale: call.locale,
+    detectedLocale: call.detectedLocale,
+    services: call.services,
+    campaignId: call.campaignId
+  }
+}
\ No newline at end of file
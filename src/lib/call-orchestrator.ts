@@ -2,75 +2,179 @@ import { v4 as uuidv4 } from 'uuid'
 import Database from './database'
 import { TwilioClient } from './twilio-client'
 import OpenAIClient, { ConversationContext } from './openai-client'
-import { ProcessedCustomer } from '@/types/customer'
-import { Call, CallCampaign, CallStatus, CampaignStatus } from '@/types/call'
+import JobQueue from './job-queue'
+import { RealtimePublisher } from './realtime'
+import { ACTIVE_CALL_STATUSES, canTransitionCall } from './call-state-machine'
+import { DEFAULT_CALLING_WINDOW, getNextWindowStart, isWithinCallingWindow } from './calling-window'
+import { isOptOutRequest, normalizeDoNotCallPhone, OPT_OUT_DIGIT } from './do-not-call'
+import {
+  canEndEarly,
+  ConversationEndReason,
+  DEFAULT_CONVERSATION_POLICY,
+  getConversationEndReason,
+  resolveConversationPolicy
+} from './conversation-policy'
+import { DEFAULT_BOT_SCRIPT, resolveBotScript } from './bot-script'
+import { assignScriptVariants, getBotScriptForCall, summarizeScriptVariants } from './script-library'
+import { getNextSurveyQuestion, getSurveyQuestionPrompt, parseSurveyAnswer } from './survey'
+import { getCallPrompt } from './call-prompts'
+import { getIssueTaxonomy } from './issue-taxonomy'
+import { DEFAULT_VOICE_SETTINGS, getCallVoiceSettings, resolveVoiceSettings } from './voice-settings'
+import { detectCustomerLocale } from './language-detection'
+import { DoNotCallSource, ProcessedCustomer } from '@/types/customer'
+import {
+  BotScript,
+  Call,
+  CallCampaign,
+  CallingWindow,
+  CallStatus,
+  CampaignStatus,
+  ConversationPolicy,
+  RetrySettings,
+  ScriptVariant,
+  VoiceSettings
+} from '@/types/call'
+import { ScriptVariantStats } from '@/types/api'
+import { JobRunResult } from '@/types/job'
+import { SurveyQuestion } from '@/types/survey'
 
 export interface CampaignConfig {
   name: string
   services: string[]
   customers: ProcessedCustomer[]
   maxConcurrentCalls?: number
-  retrySettings?: {
-    maxRetries: number
-    retryDelay: number
-    retryOnBusy: boolean
-    retryOnNoAnswer: boolean
-    retryOnFailed: boolean
-  }
-  botScript?: string
+  retrySettings?: RetrySettings
+  callingWindow?: CallingWindow
+  conversationPolicy?: ConversationPolicy
+  botScript?: BotScript
+  scriptVariants?: ScriptVariant[]
+  surveyQuestions?: SurveyQuestion[]
+  voicemailMessage?: string
+  voiceSettings?: Partial<VoiceSettings>
+  callbackBaseUrl?: string
 }
 
+// What the bot says next, and whether the call hangs up after it
+export interface CustomerTurnResult {
+  message: string
+  endCall: boolean
+  question?: SurveyQuestion // Set when the message asks a survey question
+  questionAttempt?: number // 1 when the question is asked again
+  locale?: string // Language the message is in; the call's own language when unset
+  detectingLanguage?: boolean // The customer's language isn't known yet, so their next answer may be in any language
+  streamed?: boolean // The message was passed to onReplyText while it was generated
+}
+
+// A campaign with the number of its calls in each status
+export interface CampaignProgress {
+  campaign: CallCampaign
+  calls: number
+  statusCounts: Record<string, number>
+  completed: number
+  failed: number
+  inProgress: number
+  pending: number
+  scriptVariants: ScriptVariantStats[]
+}
+
+// Statuses of a call whose last dial attempt is over
+const FINISHED_ATTEMPT_STATUSES: CallStatus[] = ['completed', 'failed', 'cancelled', 'voicemail', 'retry']
+
+// Concurrent calls allowed across all running campaigns on the Twilio account
+const ACCOUNT_MAX_CONCURRENT_CALLS = parseInt(process.env.MAX_ACCOUNT_CONCURRENT_CALLS || '20')
+
+// Due calls looked at per dispatch beyond the free slots, so calls outside
+// their calling window get deferred without blocking the ones that can be dialed
+const DISPATCH_SCAN_EXTRA = 20
+
+// Customer answers checked for the language they speak, until one gives it away
+const LANGUAGE_DETECTION_TURNS = 3
+
+// Time for the closing message to be spoken before the call is summarized
+const COMPLETION_DELAY_MS = 5000
+
 export class CallOrchestrator {
-  private db: Database
-  private twilioClient: TwilioClient
-  private openaiClient: OpenAIClient
+  constructor(
+    private db = Database.getInstance(),
+    private twilioClient = new TwilioClient(),
+    private openaiClient = new OpenAIClient(),
+    private jobQueue = JobQueue.getInstance(),
+    private realtime = new RealtimePublisher(db)
+  ) {}
   
-  constructor() {
-    this.db = Database.getInstance()
-    this.twilioClient = new TwilioClient()
-    this.openaiClient = new OpenAIClient()
-  }
-  
-  async startCampaign(config: CampaignConfig): Promise<{ campaignId: string; callsScheduled: number }> {
+  async startCampaign(
+    config: CampaignConfig
+  ): Promise<{ campaignId: string; callsScheduled: number; callsSuppressed: number }> {
     await this.db.connect()
     
+    // Customers who opted out are never called, whatever the uploaded file says
+    const doNotCall = await this.db.getDoNotCallPhones(
+      config.customers.map(customer => normalizeDoNotCallPhone(customer.phone))
+    )
+    const allCustomers = config.customers.map(customer => ({
+      ...customer,
+      callEligible: customer.callEligible && !doNotCall.has(normalizeDoNotCallPhone(customer.phone))
+    }))
+    const customers = allCustomers.filter(customer => customer.callEligible)
+    const callsSuppressed = allCustomers.length - customers.length
+    
+    if (callsSuppressed > 0) {
+      console.log(`[startCampaign] Skipping ${callsSuppressed} customers on the do-not-call list`)
+    }
+    
     const campaign: CallCampaign = {
       id: uuidv4(),
       name: config.name,
-      status: 'running',
-      totalCalls: config.customers.length,
+      // Nothing left to dial when every customer opted out
+      status: customers.length > 0 ? 'running' : 'completed',
+      totalCalls: customers.length,
       completedCalls: 0,
       successfulCalls: 0,
       failedCalls: 0,
       services: config.services,
-      customerCount: config.customers.length,
+      customerCount: customers.length,
       startedAt: new Date(),
+      completedAt: customers.length > 0 ? undefined : new Date(),
       maxConcurrentCalls: config.maxConcurrentCalls || 5,
       retrySettings: config.retrySettings || {
         maxRetries: 3,
         retryDelay: 5,
+        backoff: 'fixed',
         retryOnBusy: true,
         retryOnNoAnswer: true,
-        retryOnFailed: true
+        retryOnFailed: true,
+        retryOnVoicemail: true
       },
-      botScript: config.botScript || '',
+      callingWindow: config.callingWindow || DEFAULT_CALLING_WINDOW,
+      conversationPolicy: resolveConversationPolicy(config.conversationPolicy),
+      botScript: resolveBotScript(config.botScript),
+      scriptVariants: config.scriptVariants || [],
+      surveyQuestions: config.surveyQuestions || [],
+      voicemailMessage: config.voicemailMessage,
+      voiceSettings: resolveVoiceSettings(config.voiceSettings),
+      callbackBaseUrl: config.callbackBaseUrl,
       createdAt: new Date(),
       updatedAt: new Date()
     }
     
     await this.db.insertCampaign(campaign)
-    await this.db.insertCustomers(config.customers)
+    await this.db.insertCustomers(allCustomers)
     
-    const calls: Call[] = config.customers.map(customer => ({
+    // Customers outside their calling window right now are scheduled for its next opening
+    const scriptVariantIds = assignScriptVariants(campaign.scriptVariants, customers.length)
+    const calls: Call[] = customers.map((customer, index) => ({
       id: uuidv4(),
       customerId: customer.id,
       customerName: customer.name,
       customerPhone: customer.phone,
+      timeZone: customer.timeZone,
+      locale: customer.locale,
       campaignId: campaign.id,
       status: 'pending' as CallStatus,
-      scheduledAt: new Date(),
+      scheduledAt: getNextWindowStart(campaign.callingWindow, customer.timeZone),
       retryCount: 0,
       maxRetries: campaign.retrySettings.maxRetries,
+      scriptVariant: scriptVariantIds[index],
       services: customer.matchedServices,
       createdAt: new Date(),
       updatedAt: new Date()
@@ -79,60 +183,143 @@ export class CallOrchestrator {
     for (const call of calls) {
       await this.db.insertCall(call)
     }
+    await this.realtime.publishCampaignChange(campaign.id)
     
-    this.processCampaignCalls(campaign.id)
+    if (calls.length > 0) {
+      await this.scheduleDispatch(campaign.id)
+      this.kickWorker()
+    }
     
     return {
       campaignId: campaign.id,
-      callsScheduled: calls.length
+      callsScheduled: calls.length,
+      callsSuppressed
+    }
+  }
+  
+  /**
+   * Run due jobs from the persisted queue
+   */
+  async processDueJobs(limit = 10): Promise<JobRunResult> {
+    return this.jobQueue.runDueJobs({
+      dispatch_campaign: job => this.processCampaignCalls(job.payload.campaignId),
+      retry_call: job => this.retryCall(job.payload.callId),
+      complete_call: job => this.handleCallCompletion(job.payload.callId)
+    }, limit)
+  }
+  
+  /**
+   * Start working on due jobs without waiting, now or once a job just queued with a delay
+   * is due. Anything this invocation doesn't finish stays queued for the next tick.
+   */
+  private kickWorker(delayMs = 0): void {
+    const run = () => this.processDueJobs().catch(error => {
+      console.error('[kickWorker] Failed to process due jobs:', error)
+    })
+    
+    if (delayMs > 0) {
+      setTimeout(run, delayMs)
+    } else {
+      run()
     }
   }
   
+  /**
+   * Queue an immediate dispatch for a campaign, e.g. after calls were put back to pending
+   */
+  async requestDispatch(campaignId: string): Promise<void> {
+    await this.scheduleDispatch(campaignId)
+    this.kickWorker()
+  }
+  
+  private async scheduleDispatch(campaignId: string, delayMs = 0): Promise<void> {
+    await this.jobQueue.enqueue('dispatch_campaign', { campaignId }, {
+      delayMs,
+      dedupeKey: `dispatch:${campaignId}`
+    })
+  }
+  
+  /**
+   * Dial pending calls of a campaign up to its own and the account-wide concurrency limit
+   */
   private async processCampaignCalls(campaignId: string): Promise<void> {
     const campaign = await this.db.getCampaignById(campaignId)
     if (!campaign || campaign.status !== 'running') return
     
-    const pendingCalls = await this.db.getCallsByStatus('pending')
-    const campaignCalls = pendingCalls.filter(call => call.campaignId === campaignId)
+    const campaignActive = await this.db.countCallsByStatus(ACTIVE_CALL_STATUSES, campaignId)
+    const accountActive = await this.db.countCallsByStatus(ACTIVE_CALL_STATUSES)
     
-    const concurrentLimit = campaign.maxConcurrentCalls
-    let activeCount = 0
+    const availableSlots = Math.max(
+      Math.min(
+        campaign.maxConcurrentCalls - campaignActive,
+        ACCOUNT_MAX_CONCURRENT_CALLS - accountActive
+      ),
+      0
+    )
     
-    for (const call of campaignCalls) {
-      if (activeCount >= concurrentLimit) {
-        setTimeout(() => {
-          this.processCampaignCalls(campaignId)
-        }, 10000)
-        break
+    const now = new Date()
+    const scanLimit = availableSlots + DISPATCH_SCAN_EXTRA
+    const pendingCalls = await this.db.getPendingCallsByCampaign(campaignId, scanLimit, now)
+    
+    // Never dial outside the customer's local calling hours - defer to the next opening instead
+    const dialable: Call[] = []
+    let deferred = 0
+    for (const call of pendingCalls) {
+      if (isWithinCallingWindow(campaign.callingWindow, call.timeZone, now)) {
+        dialable.push(call)
+      } else {
+        await this.db.reschedulePendingCall(call.id, getNextWindowStart(campaign.callingWindow, call.timeZone, now))
+        await this.realtime.publishCallChange(call.id)
+        deferred++
       }
-      
-      activeCount++
-      this.processIndividualCall(call)
-        .finally(() => {
-          activeCount--
-          setTimeout(() => {
-            this.processCampaignCalls(campaignId)
-          }, 2000)
-        })
+    }
+    
+    const batch = dialable.slice(0, availableSlots)
+    
+    console.log(`[processCampaignCalls] Campaign ${campaignId}: ${campaignActive}/${campaign.maxConcurrentCalls} active, account ${accountActive}/${ACCOUNT_MAX_CONCURRENT_CALLS}, dialing ${batch.length}, deferred ${deferred}`)
+    
+    await Promise.all(batch.map(call => this.processIndividualCall(call, campaign)))
+    
+    // Calls that didn't fit are picked up once a slot frees, or on the next poll
+    if (dialable.length > batch.length || pendingCalls.length === scanLimit) {
+      await this.scheduleDispatch(campaignId, 10000)
+      return
+    }
+    
+    // Otherwise wake up when the next deferred call's window opens
+    const nextDue = await this.db.getNextPendingCallTime(campaignId, now)
+    if (nextDue) {
+      await this.scheduleDispatch(campaignId, nextDue.getTime() - now.getTime())
     }
   }
   
-  private async processIndividualCall(call: Call): Promise<void> {
+  private async processIndividualCall(call: Call, campaign: CallCampaign): Promise<void> {
     try {
-      await this.db.updateCallStatus(call.id, 'calling', {
-        startedAt: new Date()
-      })
+      const claimed = await this.db.claimPendingCall(call.id)
+      if (!claimed) {
+        console.log(`[processIndividualCall] Call ${call.id} already claimed, skipping`)
+        return
+      }
+      await this.realtime.publishCallChange(call.id)
       
       const customer = await this.db.getCustomerById(call.customerId)
       if (!customer) {
-        await this.db.updateCallStatus(call.id, 'failed', {
+        await this.updateCallStatus(call.id, 'failed', {
           errorMessage: 'Customer data not found'
-        })
+        }, 'customer_not_found')
         return
       }
       
       const formattedPhone = TwilioClient.formatPhoneNumber(call.customerPhone)
       
+      // Checked again right before dialing - the customer may have opted out since the campaign started
+      if (!customer.callEligible || await this.db.isPhoneOnDoNotCallList(formattedPhone)) {
+        await this.updateCallStatus(call.id, 'cancelled', {
+          errorMessage: 'Number is on the do-not-call list'
+        }, 'do_not_call')
+        return
+      }
+      
       // Create conversation context
       const context: ConversationContext = {
         callId: call.id,
@@ -142,33 +329,42 @@ export class CallOrchestrator {
         services: call.services,
         bankName: process.env.BANK_NAME || 'Your Bank',
         botName: process.env.BOT_NAME || 'Customer Care Assistant',
-        conversationHistory: []
+        conversationHistory: [],
+        locale: getCallVoiceSettings(campaign.voiceSettings, call.detectedLocale || call.locale).locale
       }
       
       // Save context to database
       await this.db.insertConversation(context)
+      await this.realtime.publishConversationChange(call.id)
       console.log(`[processIndividualCall] Saved conversation context for callId: ${call.id}`)
       
+      // Waiting for the beep is only worth it when there is a message to leave.
+      // Dispatch runs in the worker, with no request to take the app's host from.
       const twilioResult = await this.twilioClient.makeCall({
         ...call,
         customerPhone: formattedPhone
+      }, {
+        detectMessageEnd: !!campaign.voicemailMessage,
+        baseUrl: campaign.callbackBaseUrl
       })
       
       if (twilioResult.success && twilioResult.twilioSid) {
-        await this.db.updateCallStatus(call.id, 'ringing', {
+        await this.updateCallStatus(call.id, 'ringing', {
           twilioSid: twilioResult.twilioSid
-        })
+        }, 'twilio_call_created')
       } else {
-        await this.db.updateCallStatus(call.id, 'failed', {
+        await this.updateCallStatus(call.id, 'failed', {
           errorMessage: twilioResult.error
-        })
-        await this.db.deleteConversation(call.id)
+        }, 'twilio_call_rejected')
+        await this.handleCallFailure(call.id)
       }
       
     } catch (error) {
       console.error(`Failed to process call ${call.id}:`, error)
-      await this.db.updateCallStatus(call.id, 'failed', {
+      await this.updateCallStatus(call.id, 'failed', {
         errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }, 'dispatch_error').catch(updateError => {
+        console.error(`Failed to mark call ${call.id} as failed:`, updateError)
       })
     }
   }
@@ -176,13 +372,16 @@ export class CallOrchestrator {
   async handleTwilioWebhook(payload: any): Promise<void> {
     const { CallSid, CallStatus, Duration } = payload
     
-    const calls = await this.db.getCallsByStatus('ringing')
-    const activeCalls = await this.db.getCallsByStatus('answered')
-    const allCalls = [...calls, ...activeCalls]
-    
-    const call = allCalls.find(c => c.twilioSid === CallSid)
+    const call = await this.db.getCallByTwilioSid(CallSid)
     if (!call) {
-      console.log('Call not found for Twilio SID:', CallSid)
+      // Late callbacks of a superseded attempt (e.g. one hung up by a campaign pause) only carry timing
+      const attempt = await this.db.getCallAttemptByTwilioSid(CallSid)
+      if (attempt) {
+        if (Duration) await this.db.updateCallAttemptDuration(attempt.callId, CallSid, parseInt(Duration))
+        console.log(`Ignoring ${CallStatus} callback for a previous attempt of call ${attempt.callId}`)
+      } else {
+        console.log('Call not found for Twilio SID:', CallSid)
+      }
       return
     }
     
@@ -218,13 +417,33 @@ export class CallOrchestrator {
         return
     }
     
-    await this.db.updateCallStatus(call.id, newStatus, updates)
+    // Repeated callbacks only carry timing; out-of-order or late callbacks (e.g. after our
+    // own forced ending, a cancellation, a voicemail or for a previous attempt) never move the call back
+    if (call.status !== newStatus && !canTransitionCall(call.status, newStatus)) {
+      if (FINISHED_ATTEMPT_STATUSES.includes(call.status) && updates.endedAt) {
+        await this.updateCallStatus(call.id, call.status, {
+          endedAt: call.endedAt ? undefined : updates.endedAt,
+          duration: updates.duration
+        })
+        await this.requestDispatch(call.campaignId)
+      }
+      console.log(`Ignoring ${CallStatus} callback for ${call.status} call ${call.id}`)
+      return
+    }
+    
+    await this.updateCallStatus(call.id, newStatus, updates, `twilio:${CallStatus}`)
     
     if (newStatus === 'completed') {
       await this.handleCallCompletion(call.id)
     } else if (newStatus === 'failed') {
       await this.handleCallFailure(call.id)
     }
+    
+    // A line freed up - dial the next pending call
+    if (['completed', 'failed', 'cancelled'].includes(newStatus)) {
+      await this.scheduleDispatch(call.campaignId)
+      this.kickWorker()
+    }
   }
   
   private async handleCallCompletion(callId: string): Promise<void> {
@@ -236,14 +455,16 @@ export class CallOrchestrator {
         return
       }
       
-      const summary = await this.openaiClient.generateCallSummary(context)
+      const taxonomy = await getIssueTaxonomy()
+      const summary = await this.openaiClient.generateCallSummary(context, taxonomy)
       
-      await this.db.updateCallStatus(callId, 'completed', {
+      await this.updateCallStatus(callId, 'completed', {
         transcript: this.formatTranscript(context.conversationHistory),
         summary: summary.summary,
         sentiment: summary.sentiment,
-        keyIssues: summary.keyIssues
-      })
+        keyIssues: summary.keyIssues,
+        issueClassifications: summary.issueClassifications
+      }, 'conversation_ended')
       
       const call = await this.db.getCallById(callId)
       
@@ -266,35 +487,111 @@ export class CallOrchestrator {
     }
   }
   
+  /**
+   * Move a failed or voicemail call to 'retry' and schedule its next attempt, if it has retries left
+   * and its campaign is still going
+   */
   private async handleCallFailure(callId: string): Promise<void> {
     const call = await this.db.getCallById(callId)
     
     if (!call) return
     
+    // Clean up conversation - a retry starts a fresh one
+    await this.db.deleteConversation(callId)
+    
     const campaign = await this.db.getCampaignById(call.campaignId)
-    if (!campaign) return
+    if (!campaign || !['failed', 'voicemail'].includes(call.status)) return
     
-    if (call.retryCount < call.maxRetries) {
-      const shouldRetry = this.shouldRetryCall(call.errorMessage || '', campaign.retrySettings)
-      
-      if (shouldRetry) {
-        const retryDelay = campaign.retrySettings.retryDelay * 60 * 1000
-        
-        setTimeout(async () => {
-          await this.db.updateCallStatus(callId, 'pending')
-        }, retryDelay)
-        
-        console.log(`Scheduling retry for call ${callId} in ${campaign.retrySettings.retryDelay} minutes`)
-      }
+    // A call left on the line when its campaign was cancelled ends with the campaign
+    if (campaign.status === 'cancelled') {
+      await this.updateCallStatus(callId, 'cancelled', {
+        errorMessage: 'Campaign cancelled'
+      }, 'campaign_cancelled')
+      return
     }
     
-    // Clean up conversation
-    await this.db.deleteConversation(callId)
+    if (!['running', 'paused'].includes(campaign.status)) return
+    
+    if (call.retryCount >= call.maxRetries) {
+      console.log(`[handleCallFailure] Call ${callId} out of retries (${call.retryCount}/${call.maxRetries})`)
+      return
+    }
+    
+    if (!this.shouldRetryCall(call.errorMessage || '', campaign.retrySettings)) return
+    
+    const retryDelayMs = this.getRetryDelayMs(campaign.retrySettings, call.retryCount)
+    const nextAttemptAt = new Date(Date.now() + retryDelayMs)
+    
+    await this.updateCallStatus(callId, 'retry', {
+      retryCount: call.retryCount + 1,
+      nextAttemptAt
+    }, 'retry_scheduled')
+    
+    await this.jobQueue.enqueue('retry_call', { callId }, {
+      runAt: nextAttemptAt,
+      dedupeKey: `retry:${callId}`
+    })
+    
+    console.log(`[handleCallFailure] Retry ${call.retryCount + 1}/${call.maxRetries} for call ${callId} at ${nextAttemptAt.toISOString()}`)
+  }
+  
+  /**
+   * Delay before the next attempt. Exponential backoff doubles retryDelay for every retry already made.
+   */
+  private getRetryDelayMs(retrySettings: RetrySettings, retryCount: number): number {
+    const multiplier = retrySettings.backoff === 'exponential' ? Math.pow(2, retryCount) : 1
+    return retrySettings.retryDelay * multiplier * 60 * 1000
   }
   
-  private shouldRetryCall(errorMessage: string, retrySettings: any): boolean {
+  /**
+   * Handle an answering machine detection result from the initial TwiML request.
+   * Returns TwiML that leaves the campaign's voicemail message, or just hangs up.
+   */
+  async handleAnsweringMachine(callId: string, answeredBy: string): Promise<string> {
+    const call = await this.db.getCallById(callId)
+    if (!call || !canTransitionCall(call.status, 'voicemail')) {
+      return this.twilioClient.generateMachineDetectionTwiML(null)
+    }
+    
+    const campaign = await this.db.getCampaignById(call.campaignId)
+    
+    await this.updateCallStatus(callId, 'voicemail', {
+      errorMessage: `voicemail (${answeredBy})`
+    }, `amd:${answeredBy}`)
+    
+    // Voicemail has its own retry rule, separate from busy/no-answer
+    await this.handleCallFailure(callId)
+    
+    // With DetectMessageEnd the result arrives after the greeting, so the message lands after the beep.
+    // machine_start means detection ran in the fast mode and the message would be cut off.
+    if (campaign?.voicemailMessage && answeredBy.startsWith('machine_end')) {
+      console.log(`[handleAnsweringMachine] Leaving voicemail for call ${callId}`)
+      return this.twilioClient.generateMachineDetectionTwiML(
+        campaign.voicemailMessage,
+        getCallVoiceSettings(campaign.voiceSettings, call.detectedLocale || call.locale)
+      )
+    }
+    
+    return this.twilioClient.generateMachineDetectionTwiML(null)
+  }
+  
+  /**
+   * Put a call whose retry is due back in the dispatch queue
+   */
+  private async retryCall(callId: string): Promise<void> {
+    const call = await this.db.getCallById(callId)
+    
+    // The call may have been cancelled or retried manually in the meantime
+    if (!call || call.status !== 'retry') return
+    
+    await this.updateCallStatus(callId, 'pending', undefined, 'scheduled_retry')
+    await this.scheduleDispatch(call.campaignId)
+  }
+  
+  private shouldRetryCall(errorMessage: string, retrySettings: RetrySettings): boolean {
     const error = errorMessage.toLowerCase()
     
+    if (error.includes('voicemail')) return retrySettings.retryOnVoicemail
     if (error.includes('busy') && retrySettings.retryOnBusy) return true
     if (error.includes('no-answer') && retrySettings.retryOnNoAnswer) return true
     if (error.includes('failed') && retrySettings.retryOnFailed) return true
@@ -303,15 +600,22 @@ export class CallOrchestrator {
   }
   
   /**
-   * Handle incoming audio stream from customer - WITH FORCED 3-RESPONSE LIMIT
+   * Handle incoming audio stream from customer. The campaign's conversation policy decides when the call wraps up.
+   * With onReplyText the AI's reply is passed on as it is generated, so it can be spoken before it is complete.
    */
-  async handleCustomerInput(callId: string, audioInput: string): Promise<string> {
+  async handleCustomerInput(
+    callId: string,
+    audioInput: string,
+    onReplyText?: (text: string) => void
+  ): Promise<CustomerTurnResult> {
     console.log(`[handleCustomerInput] START - callId: ${callId}`)
     console.log(`[handleCustomerInput] audioInput: ${audioInput.substring(0, 200)}`)
     
+    let context: ConversationContext | null = null
+    
     try {
       // Try to load context from database
-      let context = await this.db.getConversationByCallId(callId)
+      context = await this.db.getConversationByCallId(callId)
       
       // If NOT found, create it on-demand from call data
       if (!context) {
@@ -321,15 +625,17 @@ export class CallOrchestrator {
         const call = await this.db.getCallById(callId)
         if (!call) {
           console.error(`[handleCustomerInput] Call not found in DB for callId: ${callId}`)
-          return "I'm sorry, there seems to be a technical issue. Could you please repeat that?"
+          return { message: getCallPrompt('repeatAfterError'), endCall: false }
         }
         
         const customer = await this.db.getCustomerById(call.customerId)
         if (!customer) {
           console.error(`[handleCustomerInput] Customer not found for callId: ${callId}`)
-          return "I'm sorry, there seems to be a technical issue. Could you please repeat that?"
+          return { message: getCallPrompt('repeatAfterError'), endCall: false }
         }
         
+        const campaign = await this.db.getCampaignById(call.campaignId)
+        
         // Create new context on-demand
         context = {
           callId: call.id,
@@ -339,11 +645,13 @@ export class CallOrchestrator {
           services: call.services,
           bankName: process.env.BANK_NAME || 'Your Bank',
           botName: process.env.BOT_NAME || 'Customer Care Assistant',
-          conversationHistory: []
+          conversationHistory: [],
+          locale: getCallVoiceSettings(campaign?.voiceSettings, call.detectedLocale || call.locale).locale
         }
         
         // Save it to database for future requests
         await this.db.insertConversation(context)
+        await this.realtime.publishConversationChange(callId)
         console.log(`[handleCustomerInput] Created and saved new conversation context for ${customer.name}`)
       }
       
@@ -353,104 +661,524 @@ export class CallOrchestrator {
       const customerResponseCount = context.conversationHistory.filter(msg => msg.role === 'user').length
       console.log(`[handleCustomerInput] Customer has responded ${customerResponseCount} times`)
       
-      // Force end call after 3 customer responses
-      if (customerResponseCount >= 3) {
-        console.log('[handleCustomerInput] Forcing call end - 3 responses reached')
-        const closingMessage = this.openaiClient.generateClosingMessage(context, 'Call completed after 3 exchanges')
-        
-        // Save the closing message to history
+      const campaign = await this.db.getCampaignById(context.campaignId)
+      const call = await this.db.getCallById(callId)
+      
+      // The customer's first answers are checked until one gives their language away; the rest
+      // of the call is held in it
+      let languageKnown = !!call?.detectedLocale
+      if (!languageKnown && customerResponseCount < LANGUAGE_DETECTION_TURNS) {
+        languageKnown = await this.detectCustomerLanguage(context, audioInput)
+      }
+      
+      // Honor opt-out requests before anything else
+      if (isOptOutRequest(audioInput)) {
+        console.log(`[handleCustomerInput] Customer asked not to be called again - callId: ${callId}`)
         context.conversationHistory.push({
-          role: 'assistant',
-          content: closingMessage,
+          role: 'user',
+          content: audioInput,
           timestamp: new Date()
         })
-        
-        await this.db.updateConversationHistory(callId, context.conversationHistory)
-        
-        setTimeout(async () => {
-          await this.handleCallCompletion(callId)
-        }, 5000)
-        
-        return closingMessage
+        return { message: await this.optOutCustomer(callId, 'speech', context), endCall: true, locale: context.locale }
+      }
+      
+      const policy = campaign?.conversationPolicy || DEFAULT_CONVERSATION_POLICY
+      const script = campaign ? getBotScriptForCall(campaign, call) : DEFAULT_BOT_SCRIPT
+      const elapsedSeconds = call?.startedAt ? (Date.now() - call.startedAt.getTime()) / 1000 : 0
+      
+      // Limits that end the call before asking the AI for another reply
+      const endReason = getConversationEndReason(policy, {
+        customerTurns: customerResponseCount + 1,
+        elapsedSeconds,
+        customerInput: audioInput
+      })
+      
+      if (endReason) {
+        console.log(`[handleCustomerInput] Ending call - ${endReason}`)
+        context.conversationHistory.push({
+          role: 'user',
+          content: audioInput,
+          timestamp: new Date()
+        })
+        return await this.endConversation(context, script, endReason, campaign?.surveyQuestions)
       }
       
       console.log('[handleCustomerInput] Calling OpenAI generateResponse...')
       
       const startTime = Date.now()
-      const aiResponse = await this.openaiClient.generateResponse(audioInput, context)
+      const aiResponse = await this.openaiClient.generateResponse(
+        audioInput,
+        context,
+        policy,
+        context.coveredTopics || [],
+        script,
+        onReplyText
+      )
       const duration = Date.now() - startTime
       
       console.log(`[handleCustomerInput] OpenAI responded in ${duration}ms`)
       console.log(`[handleCustomerInput] AI message: ${aiResponse.message.substring(0, 200)}`)
-      console.log(`[handleCustomerInput] shouldEndCall: ${aiResponse.shouldEndCall}`)
+      console.log(`[handleCustomerInput] shouldEndCall: ${aiResponse.shouldEndCall}, covered topics: ${aiResponse.coveredTopics.join(', ') || 'none'}`)
       
-      // Save updated conversation history to database
-      await this.db.updateConversationHistory(callId, context.conversationHistory)
-      console.log(`[handleCustomerInput] Saved conversation history to DB`)
+      context.coveredTopics = aiResponse.coveredTopics
       
-      if (aiResponse.shouldEndCall) {
-        console.log('[handleCustomerInput] Ending call per OpenAI decision...')
-        const closingMessage = this.openaiClient.generateClosingMessage(context, aiResponse.summary)
-        
-        setTimeout(async () => {
-          await this.handleCallCompletion(callId)
-        }, 5000)
-        
-        return closingMessage
+      // The AI may only wrap up early when the policy allows it
+      if (aiResponse.shouldEndCall && canEndEarly(policy, aiResponse.coveredTopics)) {
+        // Speak the closing message instead of the AI's last reply
+        context.conversationHistory.pop()
+        return await this.endConversation(context, script, 'ai_decision', campaign?.surveyQuestions)
       }
       
+      // Save updated conversation history to database
+      await this.updateConversationHistory(callId, context.conversationHistory, context.coveredTopics)
+      console.log(`[handleCustomerInput] Saved conversation history to DB`)
+      
       const optimizedResponse = this.openaiClient.optimizeForSpeech(aiResponse.message)
       console.log(`[handleCustomerInput] Returning response: ${optimizedResponse.substring(0, 200)}`)
       
-      return optimizedResponse
+      return {
+        message: optimizedResponse,
+        endCall: false,
+        locale: context.locale,
+        detectingLanguage: !languageKnown && customerResponseCount + 1 < LANGUAGE_DETECTION_TURNS,
+        streamed: aiResponse.streamed
+      }
       
     } catch (error) {
       console.error('[handleCustomerInput] ERROR:', error)
       console.error('[handleCustomerInput] Error stack:', error instanceof Error ? error.stack : 'No stack')
-      return "I apologize for the technical difficulty. Could you please continue with what you were saying?"
+      return { message: getCallPrompt('continueAfterError', context?.locale), endCall: false, locale: context?.locale }
+    }
+  }
+  
+  /**
+   * Detect the language of the customer's answer and keep it on the call. When it isn't the
+   * language of the call, the bot's prompt, voice and speech recognition switch to it.
+   * Returns whether the language could be told.
+   */
+  private async detectCustomerLanguage(context: ConversationContext, utterance: string): Promise<boolean> {
+    const currentLocale = context.locale || DEFAULT_VOICE_SETTINGS.locale
+    const detectedLocale = detectCustomerLocale(utterance, currentLocale)
+    if (!detectedLocale) return false
+    
+    await this.db.updateCallDetectedLocale(context.callId, detectedLocale)
+    await this.realtime.publishCallChange(context.callId)
+    
+    if (detectedLocale !== currentLocale) {
+      console.log(`[detectCustomerLanguage] Call ${context.callId} switches from ${currentLocale} to ${detectedLocale}`)
+      context.locale = detectedLocale
+      await this.db.updateConversationLocale(context.callId, detectedLocale)
     }
+    
+    return true
+  }
+  
+  /**
+   * End the open conversation: move on to the campaign's survey questions, or say goodbye
+   */
+  private async endConversation(
+    context: ConversationContext,
+    script: BotScript,
+    reason: ConversationEndReason,
+    surveyQuestions: SurveyQuestion[] = []
+  ): Promise<CustomerTurnResult> {
+    console.log(`[endConversation] Call ${context.callId} conversation over (${reason})`)
+    
+    // A customer who is saying goodbye isn't kept on the line for the survey
+    if (reason !== 'customer_goodbye' && surveyQuestions.length > 0) {
+      const answers = await this.db.getSurveyAnswersByCall(context.callId)
+      const question = getNextSurveyQuestion(surveyQuestions, answers)
+      if (question) {
+        return await this.askSurveyQuestion(context, question, 0, getCallPrompt('surveyIntro', context.locale))
+      }
+    }
+    
+    return await this.closeConversation(context, script)
+  }
+  
+  /**
+   * Record the customer's answer to a survey question and ask the next one,
+   * or close the call once every question has been asked
+   */
+  async answerSurveyQuestion(
+    callId: string,
+    questionId: string,
+    input: string,
+    source: 'speech' | 'dtmf',
+    attempt = 0
+  ): Promise<CustomerTurnResult> {
+    const call = await this.db.getCallById(callId)
+    const campaign = call ? await this.db.getCampaignById(call.campaignId) : null
+    const context = await this.db.getConversationByCallId(callId)
+    
+    if (!call || !campaign || !context) {
+      console.error(`[answerSurveyQuestion] Call, campaign or conversation not found for callId: ${callId}`)
+      return { message: getCallPrompt('surveyThanks', context?.locale), endCall: true }
+    }
+    
+    const script = getBotScriptForCall(campaign, call)
+    const question = campaign.surveyQuestions.find(candidate => candidate.id === questionId)
+    if (!question) {
+      return await this.closeConversation(context, script)
+    }
+    
+    context.conversationHistory.push({
+      role: 'user',
+      content: input,
+      timestamp: new Date()
+    })
+    
+    // Opting out still works mid-survey, unless 9 is a score
+    if ((source === 'speech' && isOptOutRequest(input)) ||
+        (source === 'dtmf' && input === OPT_OUT_DIGIT && question.type !== 'nps')) {
+      return { message: await this.optOutCustomer(callId, source, context), endCall: true, locale: context.locale }
+    }
+    
+    let value = parseSurveyAnswer(question, input, source)
+    if (value === undefined && source === 'speech' && question.type !== 'free_text') {
+      value = await this.openaiClient.extractSurveyAnswer(question, input)
+    }
+    
+    if (value === undefined && question.required && attempt === 0) {
+      return await this.askSurveyQuestion(context, question, 1, getCallPrompt('surveyRetry', context.locale))
+    }
+    
+    await this.db.saveSurveyAnswer({
+      callId,
+      campaignId: campaign.id,
+      questionId: question.id,
+      type: question.type,
+      value: value ?? null,
+      source,
+      rawInput: input,
+      answeredAt: new Date()
+    })
+    
+    console.log(`[answerSurveyQuestion] Call ${callId} answered ${question.id}: ${value === undefined ? 'not understood' : JSON.stringify(value)}`)
+    
+    if (typeof value === 'number') {
+      await this.db.updateCallScores(callId, question.type === 'nps' ? { npsScore: value } : { csatScore: value })
+      await this.realtime.publishCallChange(callId)
+    }
+    
+    const answers = await this.db.getSurveyAnswersByCall(callId)
+    const nextQuestion = getNextSurveyQuestion(campaign.surveyQuestions, answers)
+    
+    return nextQuestion
+      ? await this.askSurveyQuestion(context, nextQuestion, 0, 'Thank you.')
+      : await this.closeConversation(context, script)
+  }
+  
+  private async askSurveyQuestion(
+    context: ConversationContext,
+    question: SurveyQuestion,
+    attempt: number,
+    lead: string
+  ): Promise<CustomerTurnResult> {
+    const message = `${lead} ${getSurveyQuestionPrompt(question, context.locale)}`
+    
+    context.conversationHistory.push({
+      role: 'assistant',
+      content: message,
+      timestamp: new Date()
+    })
+    await this.updateConversationHistory(context.callId, context.conversationHistory, context.coveredTopics)
+    
+    return { message, endCall: false, question, questionAttempt: attempt, locale: context.locale }
   }
   
-  async getCampaignStatus(campaignId: string): Promise<any> {
+  /**
+   * Say the script's closing line and schedule the call's completion
+   */
+  private async closeConversation(context: ConversationContext, script: BotScript): Promise<CustomerTurnResult> {
+    const closingMessage = this.openaiClient.generateClosingMessage(context, script)
+    
+    // Save the closing message to history
+    context.conversationHistory.push({
+      role: 'assistant',
+      content: closingMessage,
+      timestamp: new Date()
+    })
+    
+    await this.updateConversationHistory(context.callId, context.conversationHistory, context.coveredTopics)
+    await this.scheduleCompletion(context.callId)
+    
+    return { message: closingMessage, endCall: true, locale: context.locale }
+  }
+  
+  /**
+   * Opening line of a call, rendered from the bot script of its campaign or script variant
+   */
+  async getOpeningMessage(callId: string): Promise<string> {
+    const call = await this.db.getCallById(callId)
+    const campaign = call ? await this.db.getCampaignById(call.campaignId) : null
+    const context = await this.db.getConversationByCallId(callId)
+    
+    return this.openaiClient.generateOpeningMessage(context || {
+      callId,
+      campaignId: call?.campaignId || '',
+      customerName: call?.customerName || 'Valued Customer',
+      customerReason: '',
+      services: call?.services || [],
+      bankName: process.env.BANK_NAME || 'Your Bank',
+      botName: process.env.BOT_NAME || 'Customer Care Assistant',
+      conversationHistory: [],
+      locale: getCallVoiceSettings(campaign?.voiceSettings, call?.detectedLocale || call?.locale).locale
+    }, campaign ? getBotScriptForCall(campaign, call) : DEFAULT_BOT_SCRIPT)
+  }
+  
+  /**
+   * Mark the bot's last reply as cut off by the customer, so the next turn can adapt to it.
+   * Does nothing when the customer has spoken since the last reply.
+   */
+  async markReplyInterrupted(callId: string, heardContent?: string): Promise<void> {
+    const context = await this.db.getConversationByCallId(callId)
+    const reply = context?.conversationHistory[context.conversationHistory.length - 1]
+    
+    if (!context || !reply || reply.role !== 'assistant' || reply.interrupted) return
+    
+    console.log(`[markReplyInterrupted] Customer interrupted the reply - callId: ${callId}`)
+    reply.interrupted = true
+    if (heardContent !== undefined) reply.heardContent = heardContent
+    
+    await this.updateConversationHistory(callId, context.conversationHistory, context.coveredTopics)
+  }
+  
+  /**
+   * Key pressed outside a survey question. Only the opt-out key does anything.
+   */
+  async handleKeyPress(callId: string, digits: string): Promise<CustomerTurnResult | null> {
+    if (digits !== OPT_OUT_DIGIT) return null
+    
+    console.log(`[handleKeyPress] Customer pressed the opt-out key - callId: ${callId}`)
+    return { message: await this.optOutCustomer(callId, 'dtmf'), endCall: true }
+  }
+  
+  /**
+   * Put the customer of a call on the do-not-call list, cancel their other open calls
+   * and close the conversation. Returns the closing message to speak.
+   */
+  async optOutCustomer(
+    callId: string,
+    source: Extract<DoNotCallSource, 'speech' | 'dtmf'>,
+    context?: ConversationContext
+  ): Promise<string> {
+    const call = await this.db.getCallById(callId)
+    const conversation = context || await this.db.getConversationByCallId(callId)
+    
+    const closingMessage = conversation
+      ? this.openaiClient.generateOptOutMessage(conversation)
+      : getCallPrompt('optOutClosingAnonymous', call?.detectedLocale || call?.locale)
+    
+    if (!call) return closingMessage
+    
+    await this.db.addToDoNotCallList([{
+      phone: normalizeDoNotCallPhone(call.customerPhone),
+      source,
+      reason: source === 'dtmf' ? 'Pressed the opt-out key during a call' : 'Asked not to be called again during a call',
+      callId,
+      createdAt: new Date()
+    }])
+    
+    // Other campaigns may have this number queued as well
+    const openCalls = await this.db.getCallsByPhone(call.customerPhone, ['pending', 'retry'])
+    for (const openCall of openCalls) {
+      await this.updateCallStatus(openCall.id, 'cancelled', {
+        errorMessage: 'Customer opted out'
+      }, 'do_not_call').catch(error => {
+        console.error(`[optOutCustomer] Failed to cancel call ${openCall.id}:`, error)
+      })
+    }
+    
+    if (conversation) {
+      conversation.conversationHistory.push({
+        role: 'assistant',
+        content: closingMessage,
+        timestamp: new Date()
+      })
+      await this.updateConversationHistory(callId, conversation.conversationHistory)
+    }
+    
+    await this.scheduleCompletion(callId)
+    
+    console.log(`[optOutCustomer] ${call.customerPhone} added to the do-not-call list (${source}), ${openCalls.length} open calls cancelled`)
+    
+    return closingMessage
+  }
+  
+  /**
+   * Summarize the call shortly after the closing message has been spoken
+   */
+  private async scheduleCompletion(callId: string): Promise<void> {
+    await this.jobQueue.enqueue('complete_call', { callId }, {
+      delayMs: COMPLETION_DELAY_MS,
+      dedupeKey: `complete:${callId}`
+    })
+    this.kickWorker(COMPLETION_DELAY_MS)
+  }
+  
+  /**
+   * Campaign progress, counted in the database rather than over the loaded calls
+   */
+  async getCampaignStatus(campaignId: string): Promise<CampaignProgress | null> {
     const campaign = await this.db.getCampaignById(campaignId)
     if (!campaign) return null
     
-    const calls = await this.db.getCallsByCampaign(campaignId)
-    
-    const statusCounts = calls.reduce((acc, call) => {
-      acc[call.status] = (acc[call.status] || 0) + 1
-      return acc
-    }, {} as Record<string, number>)
+    const statusCounts = (await this.db.getCallStatusCountsByCampaign([campaignId]))[campaignId] || {}
+    const variantCounts = campaign.scriptVariants.length > 0 ? await this.db.getScriptVariantCounts({ campaignId }) : []
     
     return {
       campaign,
-      calls: calls.length,
+      calls: Object.keys(statusCounts).reduce((total, status) => total + statusCounts[status], 0),
       statusCounts,
       completed: statusCounts.completed || 0,
       failed: statusCounts.failed || 0,
       inProgress: (statusCounts.calling || 0) + (statusCounts.ringing || 0) + (statusCounts.answered || 0),
-      pending: statusCounts.pending || 0
+      pending: statusCounts.pending || 0,
+      scriptVariants: summarizeScriptVariants(campaign.scriptVariants, variantCounts)
+    }
+  }
+  
+  /**
+   * Pause a running campaign - no new calls are dialed until it is resumed
+   */
+  async pauseCampaign(
+    campaignId: string,
+    options: { hangUpActiveCalls?: boolean } = {}
+  ): Promise<{ success: boolean; error?: string; callsInterrupted: number }> {
+    const campaign = await this.db.getCampaignById(campaignId)
+    if (!campaign) {
+      return { success: false, error: 'Campaign not found', callsInterrupted: 0 }
     }
+    
+    if (campaign.status !== 'running') {
+      return { success: false, error: `Cannot pause a ${campaign.status} campaign`, callsInterrupted: 0 }
+    }
+    
+    await this.updateCampaignStatus(campaignId, 'paused')
+    
+    let callsInterrupted = 0
+    if (options.hangUpActiveCalls) {
+      // Interrupted calls go back to pending so they are redialed on resume
+      callsInterrupted = await this.hangUpActiveCalls(campaignId, 'pending')
+    }
+    
+    console.log(`[pauseCampaign] Campaign ${campaignId} paused, ${callsInterrupted} active calls interrupted`)
+    
+    return { success: true, callsInterrupted }
   }
   
-  async cancelCampaign(campaignId: string): Promise<void> {
-    await this.db.updateCampaignStatus(campaignId, 'cancelled')
+  /**
+   * Resume a paused campaign and restart the dispatch loop
+   */
+  async resumeCampaign(campaignId: string): Promise<{ success: boolean; error?: string }> {
+    const campaign = await this.db.getCampaignById(campaignId)
+    if (!campaign) {
+      return { success: false, error: 'Campaign not found' }
+    }
     
-    const activeCalls = await this.db.getCallsByCampaign(campaignId)
-    for (const call of activeCalls) {
-      if (['calling', 'ringing', 'answered'].includes(call.status)) {
+    if (campaign.status !== 'paused') {
+      return { success: false, error: `Cannot resume a ${campaign.status} campaign` }
+    }
+    
+    await this.updateCampaignStatus(campaignId, 'running')
+    
+    console.log(`[resumeCampaign] Campaign ${campaignId} resumed`)
+    await this.scheduleDispatch(campaignId)
+    this.kickWorker()
+    
+    return { success: true }
+  }
+  
+  /**
+   * Cancel a campaign - pending calls are cancelled and, optionally, active calls are hung up
+   */
+  async cancelCampaign(
+    campaignId: string,
+    options: { hangUpActiveCalls?: boolean } = {}
+  ): Promise<{ success: boolean; error?: string; callsCancelled: number }> {
+    const { hangUpActiveCalls = true } = options
+    
+    const campaign = await this.db.getCampaignById(campaignId)
+    if (!campaign) {
+      return { success: false, error: 'Campaign not found', callsCancelled: 0 }
+    }
+    
+    if (['completed', 'cancelled'].includes(campaign.status)) {
+      return { success: false, error: `Cannot cancel a ${campaign.status} campaign`, callsCancelled: 0 }
+    }
+    
+    await this.updateCampaignStatus(campaignId, 'cancelled')
+    
+    let callsCancelled = 0
+    const calls = await this.db.getCallsByCampaign(campaignId)
+    for (const call of calls) {
+      if (['pending', 'retry'].includes(call.status)) {
+        await this.updateCallStatus(call.id, 'cancelled', {
+          errorMessage: 'Campaign cancelled'
+        }, 'campaign_cancelled')
+        callsCancelled++
+      }
+    }
+    
+    if (hangUpActiveCalls) {
+      callsCancelled += await this.hangUpActiveCalls(campaignId, 'cancelled')
+    }
+    
+    console.log(`[cancelCampaign] Campaign ${campaignId} cancelled, ${callsCancelled} calls cancelled`)
+    
+    return { success: true, callsCancelled }
+  }
+  
+  /**
+   * Hang up every in-flight call of a campaign and move it to the given status
+   */
+  private async hangUpActiveCalls(campaignId: string, nextStatus: CallStatus): Promise<number> {
+    const calls = await this.db.getCallsByCampaign(campaignId)
+    let count = 0
+    
+    for (const call of calls) {
+      if (ACTIVE_CALL_STATUSES.includes(call.status)) {
         if (call.twilioSid) {
           await this.twilioClient.cancelCall(call.twilioSid)
         }
-        await this.db.updateCallStatus(call.id, 'cancelled')
+        await this.updateCallStatus(call.id, nextStatus, {
+          errorMessage: nextStatus === 'cancelled' ? 'Campaign cancelled' : 'Interrupted by campaign pause'
+        }, nextStatus === 'cancelled' ? 'campaign_cancelled' : 'campaign_paused')
+        await this.db.deleteConversation(call.id)
+        count++
       }
     }
+    
+    return count
+  }
+  
+  /**
+   * Update a call's status and publish the change to the live streams
+   */
+  private async updateCallStatus(id: string, status: CallStatus, updates?: Partial<Call>, cause?: string): Promise<void> {
+    await this.db.updateCallStatus(id, status, updates, cause)
+    await this.realtime.publishCallChange(id)
+  }
+  
+  private async updateConversationHistory(
+    callId: string,
+    history: ConversationContext['conversationHistory'],
+    coveredTopics?: string[]
+  ): Promise<void> {
+    await this.db.updateConversationHistory(callId, history, coveredTopics)
+    await this.realtime.publishConversationChange(callId)
+  }
+  
+  private async updateCampaignStatus(id: string, status: CampaignStatus): Promise<void> {
+    await this.db.updateCampaignStatus(id, status)
+    await this.realtime.publishCampaignChange(id)
   }
   
   private formatTranscript(history: ConversationContext['conversationHistory']): string {
     return history
       .filter(msg => msg.role !== 'system')
-      .map(msg => `${msg.role === 'user' ? 'Customer' : 'AI Assistant'}: ${msg.content}`)
+      .map(msg => `${msg.role === 'user' ? 'Customer' : 'AI Assistant'}: ${msg.content}${msg.interrupted ? ' [interrupted]' : ''}`)
       .join('\n\n')
   }
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+// Fixed things the bot says outside its script, such as key press menus and error apologies
+export type CallPrompt =
+  | 'optOutNotice'
+  | 'noResponse'
+  | 'feedbackThanks'
+  | 'turnGoodbye'
+  | 'keyContinue'
+  | 'keyDecline'
+  | 'keyNotUnderstood'
+  | 'closingGoodbye'
+  | 'fallbackGoodbye'
+  | 'repeatAfterError'
+  | 'continueAfterError'
+  | 'streamUnavailable'
+  | 'surveyIntro'
+  | 'surveyRetry'
+  | 'surveyThanks'
+  | 'npsInstructions'
+  | 'csatInstructions'
+  | 'yesNoInstructions'
+  | 'optionInstruction'
+  | 'optionsOutro'
+  | 'optOutClosing'
+  | 'optOutClosingAnonymous'
+  | 'tellMeMore'
+  | 'listAnd'
+  | 'ourServices'
+
+// The prompts in every language a call can be held in, by language subtag. English is the fallback.
+const CALL_PROMPTS: Record<string, Record<CallPrompt, string>> = {
+  en: {
+    optOutNotice: 'If you\'d rather not receive these calls, press {{digit}} at any time.',
+    noResponse: 'I didn\'t hear a response. Thank you for your time.',
+    feedbackThanks: 'Thank you for your time, {{customerName}}. Your feedback is very important to us.',
+    turnGoodbye: 'Thank you for sharing your feedback, {{customerName}}. Have a wonderful day.',
+    keyContinue: 'Great! I\'d love to hear about your experience. Please tell me what happened.',
+    keyDecline: 'I completely understand, {{customerName}}. Thank you for your time.',
+    keyNotUnderstood: 'I\'m sorry, I didn\'t understand that. If you\'d like to continue, just start speaking.',
+    closingGoodbye: 'Have a wonderful day, {{customerName}}.',
+    fallbackGoodbye: 'Thank you for your time. Have a great day.',
+    repeatAfterError: 'I\'m sorry, there seems to be a technical issue. Could you please repeat that?',
+    continueAfterError: 'I apologize for the technical difficulty. Could you please continue with what you were saying?',
+    streamUnavailable: 'I apologize, but we\'re experiencing technical difficulties. Please call our customer service line directly, and we\'ll be happy to help you. Thank you for your time.',
+    surveyIntro: 'Before you go, I have a few quick questions.',
+    surveyRetry: 'Sorry, I didn\'t catch that.',
+    surveyThanks: 'Thank you for your time.',
+    npsInstructions: 'Please say a number from 0 to 10, or enter it on your keypad followed by the pound key.',
+    csatInstructions: 'Please say a number from 1 to 5, where 5 is very satisfied, or press it on your keypad.',
+    yesNoInstructions: 'You can say yes or no, or press 1 for yes and 2 for no.',
+    optionInstruction: 'For {{label}}, press {{digit}}.',
+    optionsOutro: 'Or just tell me.',
+    optOutClosing: 'I completely understand, {{customerName}}, and I\'m sorry for the interruption. {{bankName}} won\'t call you again about this. Thank you for giving us this opportunity to listen.',
+    optOutClosingAnonymous: 'I completely understand. We won\'t call you again. Thank you for giving us this opportunity to listen.',
+    tellMeMore: 'I understand. Could you tell me more about that?',
+    listAnd: 'and',
+    ourServices: 'our services'
+  },
+  ar: {
+    optOutNotice: 'إذا كنت لا ترغب في تلقي هذه المكالمات، اضغط {{digit}} في أي وقت.',
+    noResponse: 'لم أسمع ردّاً. شكراً لك على وقتك.',
+    feedbackThanks: 'شكراً لك على وقتك يا {{customerName}}. ملاحظاتك مهمة جداً بالنسبة لنا.',
+    turnGoodbye: 'شكراً لمشاركتنا ملاحظاتك يا {{customerName}}. أتمنى لك يوماً سعيداً.',
+    keyContinue: 'رائع! يسعدني أن أسمع عن تجربتك. أخبرني من فضلك بما حدث.',
+    keyDecline: 'أتفهّم ذلك تماماً يا {{customerName}}. شكراً لك على وقتك.',
+    keyNotUnderstood: 'عذراً، لم أفهم ذلك. إذا أردت المتابعة، تفضّل بالحديث.',
+    closingGoodbye: 'أتمنى لك يوماً سعيداً يا {{customerName}}.',
+    fallbackGoodbye: 'شكراً لك على وقتك. أتمنى لك يوماً سعيداً.',
+    repeatAfterError: 'عذراً، يبدو أن هناك مشكلة تقنية. هل يمكنك إعادة ما قلته من فضلك؟',
+    continueAfterError: 'أعتذر عن هذا الخلل التقني. هل يمكنك متابعة ما كنت تقوله؟',
+    streamUnavailable: 'نعتذر، نواجه حالياً بعض الصعوبات التقنية. يرجى الاتصال بخدمة العملاء مباشرة وسيسعدنا مساعدتك. شكراً لك على وقتك.',
+    surveyIntro: 'قبل أن تغادر، لديّ بعض الأسئلة السريعة.',
+    surveyRetry: 'عذراً، لم أفهم ذلك جيداً.',
+    surveyThanks: 'شكراً لك على وقتك.',
+    npsInstructions: 'يرجى ذكر رقم من 0 إلى 10، أو إدخاله على لوحة المفاتيح متبوعاً بمفتاح المربع.',
+    csatInstructions: 'يرجى ذكر رقم من 1 إلى 5، حيث 5 تعني راضٍ جداً، أو الضغط عليه في لوحة المفاتيح.',
+    yesNoInstructions: 'يمكنك قول نعم أو لا، أو الضغط على 1 للإجابة بنعم و2 للإجابة بلا.',
+    optionInstruction: 'لاختيار {{label}}، اضغط {{digit}}.',
+    optionsOutro: 'أو أخبرني بإجابتك.',
+    optOutClosing: 'أتفهّم ذلك تماماً يا {{customerName}}، ونعتذر عن الإزعاج. لن يتصل بك {{bankName}} مجدداً بهذا الخصوص. شكراً لإتاحتك لنا الفرصة للاستماع إليك.',
+    optOutClosingAnonymous: 'أتفهّم ذلك تماماً. لن نتصل بك مجدداً. شكراً لإتاحتك لنا الفرصة للاستماع إليك.',
+    tellMeMore: 'أتفهّم ذلك. هل يمكنك أن تخبرني المزيد عن ذلك؟',
+    listAnd: 'و',
+    ourServices: 'خدماتنا'
+  },
+  fr: {
+    optOutNotice: 'Si vous ne souhaitez plus recevoir ces appels, appuyez sur {{digit}} à tout moment.',
+    noResponse: 'Je n\'ai pas entendu de réponse. Merci de votre temps.',
+    feedbackThanks: 'Merci de votre temps, {{customerName}}. Votre avis est très important pour nous.',
+    turnGoodbye: 'Merci d\'avoir partagé votre avis, {{customerName}}. Je vous souhaite une excellente journée.',
+    keyContinue: 'Très bien ! J\'aimerais connaître votre expérience. Dites-moi ce qui s\'est passé.',
+    keyDecline: 'Je comprends tout à fait, {{customerName}}. Merci de votre temps.',
+    keyNotUnderstood: 'Pardon, je n\'ai pas compris. Si vous souhaitez continuer, il vous suffit de parler.',
+    closingGoodbye: 'Je vous souhaite une excellente journée, {{customerName}}.',
+    fallbackGoodbye: 'Merci de votre temps. Bonne journée.',
+    repeatAfterError: 'Pardon, nous rencontrons un problème technique. Pourriez-vous répéter, s\'il vous plaît ?',
+    continueAfterError: 'Veuillez nous excuser pour ce problème technique. Pourriez-vous reprendre ce que vous disiez ?',
+    streamUnavailable: 'Veuillez nous excuser, nous rencontrons des difficultés techniques. Merci d\'appeler directement notre service client, nous serons ravis de vous aider. Merci de votre temps.',
+    surveyIntro: 'Avant de vous laisser, j\'ai quelques petites questions.',
+    surveyRetry: 'Pardon, je n\'ai pas bien compris.',
+    surveyThanks: 'Merci de votre temps.',
+    npsInstructions: 'Dites un chiffre de 0 à 10, ou tapez-le sur votre clavier suivi de la touche dièse.',
+    csatInstructions: 'Dites un chiffre de 1 à 5, 5 signifiant très satisfait, ou tapez-le sur votre clavier.',
+    yesNoInstructions: 'Vous pouvez répondre oui ou non, ou appuyer sur 1 pour oui et 2 pour non.',
+    optionInstruction: 'Pour {{label}}, appuyez sur {{digit}}.',
+    optionsOutro: 'Ou dites-le-moi simplement.',
+    optOutClosing: 'Je comprends tout à fait, {{customerName}}, et veuillez nous excuser pour le dérangement. {{bankName}} ne vous rappellera plus à ce sujet. Merci de nous avoir donné l\'occasion de vous écouter.',
+    optOutClosingAnonymous: 'Je comprends tout à fait. Nous ne vous rappellerons plus. Merci de nous avoir donné l\'occasion de vous écouter.',
+    tellMeMore: 'Je comprends. Pourriez-vous m\'en dire plus ?',
+    listAnd: 'et',
+    ourServices: 'nos services'
+  },
+  hi: {
+    optOutNotice: 'अगर आप ये कॉल नहीं पाना चाहते, तो किसी भी समय {{digit}} दबाएँ।',
+    noResponse: 'मुझे कोई जवाब सुनाई नहीं दिया। आपके समय के लिए धन्यवाद।',
+    feedbackThanks: 'आपके समय के लिए धन्यवाद, {{customerName}}। आपकी प्रतिक्रिया हमारे लिए बहुत महत्वपूर्ण है।',
+    turnGoodbye: 'अपनी प्रतिक्रिया साझा करने के लिए धन्यवाद, {{customerName}}। आपका दिन शुभ हो।',
+    keyContinue: 'बहुत बढ़िया! कृपया मुझे अपने अनुभव के बारे में बताइए। क्या हुआ था?',
+    keyDecline: 'बिल्कुल समझ में आता है, {{customerName}}। आपके समय के लिए धन्यवाद।',
+    keyNotUnderstood: 'माफ़ कीजिए, यह समझ नहीं आया। अगर आप आगे बात करना चाहते हैं, तो बस बोलना शुरू करें।',
+    closingGoodbye: 'आपका दिन शुभ हो, {{customerName}}।',
+    fallbackGoodbye: 'आपके समय के लिए धन्यवाद। आपका दिन शुभ हो।',
+    repeatAfterError: 'माफ़ कीजिए, कुछ तकनीकी समस्या लग रही है। क्या आप कृपया दोबारा बता सकते हैं?',
+    continueAfterError: 'तकनीकी दिक्कत के लिए माफ़ी चाहते हैं। क्या आप अपनी बात जारी रख सकते हैं?',
+    streamUnavailable: 'क्षमा करें, हमें कुछ तकनीकी दिक्कतें आ रही हैं। कृपया सीधे हमारी ग्राहक सेवा लाइन पर कॉल करें, हमें आपकी मदद करके खुशी होगी। आपके समय के लिए धन्यवाद।',
+    surveyIntro: 'जाने से पहले, मेरे कुछ छोटे सवाल हैं।',
+    surveyRetry: 'माफ़ कीजिए, यह ठीक से सुनाई नहीं दिया।',
+    surveyThanks: 'आपके समय के लिए धन्यवाद।',
+    npsInstructions: 'कृपया 0 से 10 तक कोई अंक बोलें, या उसे कीपैड पर डालकर हैश की दबाएँ।',
+    csatInstructions: 'कृपया 1 से 5 तक कोई अंक बोलें, जहाँ 5 का मतलब बहुत संतुष्ट है, या उसे कीपैड पर दबाएँ।',
+    yesNoInstructions: 'आप हाँ या नहीं कह सकते हैं, या हाँ के लिए 1 और नहीं के लिए 2 दबाएँ।',
+    optionInstruction: '{{label}} के लिए {{digit}} दबाएँ।',
+    optionsOutro: 'या बस मुझे बता दें।',
+    optOutClosing: 'बिल्कुल समझ में आता है, {{customerName}}, और परेशानी के लिए माफ़ी चाहते हैं। {{bankName}} आपको इस बारे में दोबारा कॉल नहीं करेगा। हमें आपकी बात सुनने का मौका देने के लिए धन्यवाद।',
+    optOutClosingAnonymous: 'बिल्कुल समझ में आता है। हम आपको दोबारा कॉल नहीं करेंगे। हमें आपकी बात सुनने का मौका देने के लिए धन्यवाद।',
+    tellMeMore: 'मैं समझ रहा हूँ। क्या आप इसके बारे में थोड़ा और बता सकते हैं?',
+    listAnd: 'और',
+    ourServices: 'हमारी सेवाएँ'
+  }
+}
+
+/**
+ * A fixed prompt in the call's language, with its {{placeholders}} filled in
+ */
+export function getCallPrompt(
+  prompt: CallPrompt,
+  locale?: string,
+  values: Record<string, string | number> = {}
+): string {
+  const prompts = CALL_PROMPTS[(locale || 'en').split('-')[0].toLowerCase()] || CALL_PROMPTS.en
+  
+  return prompts[prompt].replace(/\{\{([a-zA-Z]+)\}\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  )
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { CallStatus } from '@/types/call'
+
+/**
+ * Allowed call status transitions. Anything not listed here is rejected.
+ */
+export const CALL_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  pending: ['calling', 'cancelled'],
+  // Active calls can go back to pending when a campaign pause hangs them up
+  calling: ['ringing', 'answered', 'completed', 'failed', 'cancelled', 'voicemail', 'pending'],
+  ringing: ['answered', 'completed', 'failed', 'cancelled', 'voicemail', 'pending'],
+  answered: ['completed', 'failed', 'cancelled', 'voicemail', 'pending'],
+  failed: ['retry', 'pending', 'cancelled'],
+  voicemail: ['retry', 'pending', 'cancelled'],
+  retry: ['pending', 'cancelled'],
+  completed: [],
+  cancelled: []
+}
+
+// Statuses that occupy a phone line
+export const ACTIVE_CALL_STATUSES: CallStatus[] = ['calling', 'ringing', 'answered']
+
+export class InvalidCallTransitionError extends Error {
+  constructor(public from: CallStatus, public to: CallStatus, reason?: string) {
+    super(`Invalid call status transition from ${from} to ${to}${reason ? `: ${reason}` : ''}`)
+    this.name = 'InvalidCallTransitionError'
+  }
+}
+
+export function canTransitionCall(from: CallStatus, to: CallStatus): boolean {
+  return CALL_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export function assertCallTransition(from: CallStatus, to: CallStatus): void {
+  if (!canTransitionCall(from, to)) {
+    throw new InvalidCallTransitionError(from, to)
+  }
+}
+
+/**
+ * Statuses a call can never leave
+ */
+export function isFinalCallStatus(status: CallStatus): boolean {
+  return CALL_TRANSITIONS[status].length === 0
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+// Endpoints Twilio calls back on
+export type CallbackPath = '/api/calls/twiml' | '/api/calls/webhook' | '/api/calls/stream'
+
+export type CallbackParams = Record<string, string | number | undefined>
+
+/**
+ * Public base URL Twilio reaches this deployment on: NEXT_PUBLIC_APP_URL, or else the host
+ * of the request being handled (behind a proxy, the forwarded host). Staging, preview
+ * deployments and local tunnels each post back to themselves.
+ */
+export function getAppBaseUrl(request?: Request): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL
+  if (appUrl) return appUrl.replace(/\/+$/, '')
+  
+  if (request) {
+    const url = new URL(request.url)
+    const host = request.headers.get('x-forwarded-host') || request.headers.get('host') || url.host
+    const protocol = request.headers.get('x-forwarded-proto') || url.protocol.replace(':', '')
+    return `${protocol.split(',')[0].trim()}://${host.split(',')[0].trim()}`
+  }
+  
+  throw new Error('NEXT_PUBLIC_APP_URL is required to build Twilio callback URLs')
+}
+
+/**
+ * Absolute URL of a callback endpoint, with its query string encoded.
+ * Escape it with escapeXml before putting it in TwiML.
+ */
+export function buildCallbackUrl(path: CallbackPath, params: CallbackParams = {}, baseUrl = getAppBaseUrl()): string {
+  const query = new URLSearchParams()
+  Object.keys(params).forEach(key => {
+    const value = params[key]
+    if (value !== undefined && value !== '') query.set(key, String(value))
+  })
+  
+  const search = query.toString()
+  return `${baseUrl}${path}${search ? `?${search}` : ''}`
+}
+
+/**
+ * WebSocket URL of the media stream server: MEDIA_STREAM_URL, or the stream path on the app's host
+ */
+export function buildMediaStreamUrl(baseUrl?: string): string {
+  if (process.env.MEDIA_STREAM_URL) return process.env.MEDIA_STREAM_URL
+  return buildCallbackUrl('/api/calls/stream', {}, baseUrl).replace(/^http/, 'ws')
+}
+
+/**
+ * Escape text for TwiML element content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
\ No newline at end of file
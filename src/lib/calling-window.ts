@@ -0,0 +1,141 @@
+import { CallingWindow } from '@/types/call'
+
+// Used when a campaign doesn't configure its own window: Sunday to Thursday, 9:00-20:00 local
+export const DEFAULT_CALLING_WINDOW: CallingWindow = {
+  days: [0, 1, 2, 3, 4],
+  startTime: '09:00',
+  endTime: '20:00',
+  defaultTimeZone: 'Asia/Riyadh'
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+interface LocalTime {
+  year: number
+  month: number
+  day: number
+  weekday: number
+  minutes: number // since local midnight
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Validate a calling window, returning an error message or null
+ */
+export function validateCallingWindow(window: CallingWindow): string | null {
+  if (!Array.isArray(window.days) || window.days.length === 0 ||
+      window.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return 'Calling window days must be a non-empty list of weekdays (0 = Sunday … 6 = Saturday)'
+  }
+  
+  const start = parseClockTime(window.startTime)
+  const end = parseClockTime(window.endTime)
+  if (start === null || end === null) {
+    return 'Calling window times must use HH:mm format'
+  }
+  
+  if (start >= end) {
+    return 'Calling window must end after it starts'
+  }
+  
+  if (!isValidTimeZone(window.defaultTimeZone)) {
+    return `Unknown time zone: ${window.defaultTimeZone}`
+  }
+  
+  return null
+}
+
+/**
+ * Whether the given moment falls inside the window in the customer's time zone
+ */
+export function isWithinCallingWindow(window: CallingWindow, timeZone: string | undefined, at = new Date()): boolean {
+  const local = getLocalTime(at, resolveTimeZone(window, timeZone))
+  const start = parseClockTime(window.startTime) ?? 0
+  const end = parseClockTime(window.endTime) ?? 24 * 60
+  
+  return window.days.includes(local.weekday) && local.minutes >= start && local.minutes < end
+}
+
+/**
+ * Earliest moment at or after `from` when the window is open for the customer
+ */
+export function getNextWindowStart(window: CallingWindow, timeZone: string | undefined, from = new Date()): Date {
+  if (isWithinCallingWindow(window, timeZone, from)) return from
+  
+  const zone = resolveTimeZone(window, timeZone)
+  const start = parseClockTime(window.startTime) ?? 0
+  
+  // The next opening is at most a week away
+  for (let offset = 0; offset <= 7; offset++) {
+    const local = getLocalTime(new Date(from.getTime() + offset * 24 * 60 * 60 * 1000), zone)
+    if (!window.days.includes(local.weekday)) continue
+    
+    const opening = zonedTimeToUtc(local.year, local.month, local.day, start, zone)
+    if (opening.getTime() > from.getTime()) return opening
+  }
+  
+  return from
+}
+
+function resolveTimeZone(window: CallingWindow, timeZone: string | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : window.defaultTimeZone
+}
+
+function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '')
+  if (!match) return null
+  
+  const hours = parseInt(match[1])
+  const minutes = parseInt(match[2])
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null
+  
+  return hours * 60 + minutes
+}
+
+function getLocalTime(date: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+  
+  const get = (type: string) => parts.find(part => part.type === type)?.value || ''
+  
+  return {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')),
+    day: parseInt(get('day')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+    minutes: parseInt(get('hour')) * 60 + parseInt(get('minute'))
+  }
+}
+
+/**
+ * Convert a local wall-clock time in a time zone to the matching instant
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes)
+  let instant = wallClock
+  
+  // Two passes settle the offset, including around DST changes
+  for (let i = 0; i < 2; i++) {
+    const local = getLocalTime(new Date(instant), timeZone)
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes)
+    instant += wallClock - localAsUtc
+  }
+  
+  return new Date(instant)
+}
\ No newline at end of file
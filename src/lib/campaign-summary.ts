@@ -0,0 +1,25 @@
+import { CampaignSummary } from '@/types/api'
+import { CallCampaign } from '@/types/call'
+
+/**
+ * Format campaign with its call counts for API response
+ */
+export function formatCampaignSummary(campaign: CallCampaign, statusCounts: Record<string, number>): CampaignSummary {
+  const totalCalls = Object.values(statusCounts).reduce((sum, count) => sum + count, 0)
+  
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    status: campaign.status,
+    services: campaign.services,
+    totalCalls: totalCalls || campaign.totalCalls || 0,
+    completedCalls: statusCounts.completed || 0,
+    failedCalls: (statusCounts.failed || 0) + (statusCounts.cancelled || 0),
+    inProgressCalls: (statusCounts.calling || 0) + (statusCounts.ringing || 0) + (statusCounts.answered || 0),
+    pendingCalls: (statusCounts.pending || 0) + (statusCounts.retry || 0),
+    maxConcurrentCalls: campaign.maxConcurrentCalls,
+    startedAt: campaign.startedAt.toISOString(),
+    completedAt: campaign.completedAt?.toISOString(),
+    createdAt: campaign.createdAt.toISOString()
+  }
+}
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { ConversationPolicy } from '@/types/call'
+
+// Used when a campaign doesn't configure its own policy
+export const DEFAULT_CONVERSATION_POLICY: ConversationPolicy = {
+  maxTurns: 3,
+  maxDurationSeconds: 5 * 60,
+  requiredTopics: [],
+  earlyExit: {
+    onAiDecision: true,
+    onCustomerGoodbye: true
+  }
+}
+
+export type ConversationEndReason =
+  | 'max_turns'         // Customer used up the allowed responses
+  | 'max_duration'      // Call ran past the allowed duration
+  | 'customer_goodbye'  // Customer said goodbye
+  | 'ai_decision'       // AI wrapped up after covering every required topic
+
+// Phrases that mean the customer wants to end the conversation
+const GOODBYE_PHRASES = [
+  'goodbye',
+  'good bye',
+  'bye bye',
+  'i have to go',
+  'i need to go',
+  'i gotta go',
+  'that\'s all',
+  'nothing else',
+  'مع السلامة'
+]
+
+/**
+ * Fill in missing fields of a (partial) policy from the defaults
+ */
+export function resolveConversationPolicy(policy?: Partial<ConversationPolicy>): ConversationPolicy {
+  return {
+    maxTurns: policy?.maxTurns ?? DEFAULT_CONVERSATION_POLICY.maxTurns,
+    maxDurationSeconds: policy?.maxDurationSeconds ?? DEFAULT_CONVERSATION_POLICY.maxDurationSeconds,
+    requiredTopics: (policy?.requiredTopics || [])
+      .map(topic => String(topic).trim())
+      .filter(topic => topic.length > 0),
+    earlyExit: {
+      ...DEFAULT_CONVERSATION_POLICY.earlyExit,
+      ...policy?.earlyExit
+    }
+  }
+}
+
+/**
+ * Validate a conversation policy, returning an error message or null
+ */
+export function validateConversationPolicy(policy: ConversationPolicy): string | null {
+  if (!Number.isInteger(policy.maxTurns) || policy.maxTurns < 1 || policy.maxTurns > 20) {
+    return 'Max turns must be a whole number between 1 and 20'
+  }
+  
+  if (!Number.isFinite(policy.maxDurationSeconds) || policy.maxDurationSeconds < 30 || policy.maxDurationSeconds > 30 * 60) {
+    return 'Max duration must be between 30 seconds and 30 minutes'
+  }
+  
+  if (policy.requiredTopics.length > 10) {
+    return 'At most 10 required topics are supported'
+  }
+  
+  return null
+}
+
+/**
+ * Whether the conversation has to end before the bot replies to the customer's latest response
+ */
+export function getConversationEndReason(
+  policy: ConversationPolicy,
+  state: { customerTurns: number; elapsedSeconds: number; customerInput: string }
+): ConversationEndReason | null {
+  if (policy.earlyExit.onCustomerGoodbye && isCustomerGoodbye(state.customerInput)) {
+    return 'customer_goodbye'
+  }
+  
+  if (state.customerTurns >= policy.maxTurns) return 'max_turns'
+  if (state.elapsedSeconds >= policy.maxDurationSeconds) return 'max_duration'
+  
+  return null
+}
+
+/**
+ * Whether the AI's wish to wrap up is allowed, given the topics covered so far
+ */
+export function canEndEarly(policy: ConversationPolicy, coveredTopics: string[]): boolean {
+  if (!policy.earlyExit.onAiDecision) return false
+  return getUncoveredTopics(policy, coveredTopics).length === 0
+}
+
+export function getUncoveredTopics(policy: ConversationPolicy, coveredTopics: string[]): string[] {
+  const covered = coveredTopics.map(topic => topic.trim().toLowerCase())
+  return policy.requiredTopics.filter(topic => !covered.includes(topic.toLowerCase()))
+}
+
+function isCustomerGoodbye(speech: string): boolean {
+  const normalized = speech.toLowerCase().replace(/[’‘]/g, '\'')
+  return GOODBYE_PHRASES.some(phrase => normalized.includes(phrase))
+}
\ No newline at end of file
@@ -1,15 +1,43 @@
 import { createClient } from '@supabase/supabase-js'
-import { ProcessedCustomer } from '@/types/customer'
-import { Call, CallCampaign, CallStatus, CampaignStatus } from '@/types/call'
+import { v4 as uuidv4 } from 'uuid'
+import { DoNotCallEntry, ProcessedCustomer } from '@/types/customer'
+import {
+  Call,
+  CallAnalyticsAggregates,
+  CallAttempt,
+  CallCampaign,
+  CallEvent,
+  CallScoreCount,
+  CallStatus,
+  CampaignStatus,
+  ScriptVariantCount
+} from '@/types/call'
+import { AnalyticsRequest, CampaignListRequest, IssueReportRequest, RealtimeUpdate, ScoreReportRequest } from '@/types/api'
+import { Job } from '@/types/job'
+import { Script, ScriptVersion } from '@/types/script'
+import { SurveyAnswer } from '@/types/survey'
+import { IssueCategory, IssueClassificationCount } from '@/types/issue'
 import { ConversationContext } from './openai-client'
+import { ACTIVE_CALL_STATUSES, assertCallTransition, InvalidCallTransitionError } from './call-state-machine'
+import { DEFAULT_CALLING_WINDOW } from './calling-window'
+import { resolveConversationPolicy } from './conversation-policy'
+import { resolveBotScript } from './bot-script'
+import { resolveVoiceSettings } from './voice-settings'
+import { TwilioClient } from './twilio-client'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://qocnqfblhtgppiauthta.supabase.co'
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
 
 const supabase = createClient(supabaseUrl, supabaseKey)
 
+// Supabase Realtime broadcast channel carrying /api/events updates between instances
+const REALTIME_CHANNEL = 'realtime-updates'
+const REALTIME_EVENT = 'update'
+
 class Database {
   private static instance: Database
+  private realtimeListeners: Array<(update: RealtimeUpdate) => void> = []
+  private realtimeSubscribed = false
   
   private constructor() {}
   
@@ -30,6 +58,7 @@ class Database {
         id: customer.id,
         name: customer.name,
         phone: customer.phone,
+        phone_normalized: TwilioClient.formatPhoneNumber(customer.phone),
         reason: customer.reason,
         email: customer.email,
         account_number: customer.accountNumber,
@@ -38,6 +67,8 @@ class Database {
         matched_services: customer.matchedServices,
         priority: customer.priority,
         call_eligible: customer.callEligible,
+        time_zone: customer.timeZone,
+        locale: customer.locale,
         created_at: customer.createdAt.toISOString(),
         updated_at: customer.updatedAt.toISOString()
       }, {
@@ -94,10 +125,19 @@ class Database {
         max_concurrent_calls: campaign.maxConcurrentCalls,
         retry_max_retries: campaign.retrySettings.maxRetries,
         retry_delay: campaign.retrySettings.retryDelay,
+        retry_backoff: campaign.retrySettings.backoff,
         retry_on_busy: campaign.retrySettings.retryOnBusy,
         retry_on_no_answer: campaign.retrySettings.retryOnNoAnswer,
         retry_on_failed: campaign.retrySettings.retryOnFailed,
+        retry_on_voicemail: campaign.retrySettings.retryOnVoicemail,
+        calling_window: campaign.callingWindow,
+        conversation_policy: campaign.conversationPolicy,
         bot_script: campaign.botScript,
+        script_variants: campaign.scriptVariants,
+        survey_questions: campaign.surveyQuestions,
+        voicemail_message: campaign.voicemailMessage,
+        voice_settings: campaign.voiceSettings,
+        callback_base_url: campaign.callbackBaseUrl,
         created_by: campaign.createdBy,
         created_at: campaign.createdAt.toISOString(),
         updated_at: campaign.updatedAt.toISOString()
@@ -125,10 +165,124 @@ class Database {
       .eq('id', id)
       .single()
     
-    if (error) throw error
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // Not found, return null
+        return null
+      }
+      throw error
+    }
     return data ? this.mapRowToCampaign(data) : null
   }
   
+  async getCampaigns(filters: CampaignListRequest = {}): Promise<{ campaigns: CallCampaign[]; total: number }> {
+    const limit = filters.limit ?? 20
+    const offset = filters.offset ?? 0
+    const sortColumns: Record<string, string> = {
+      createdAt: 'created_at',
+      name: 'name',
+      status: 'status',
+      totalCalls: 'total_calls'
+    }
+    
+    let query = supabase
+      .from('campaigns')
+      .select('*', { count: 'exact' })
+    
+    if (filters.status) query = query.eq('status', filters.status)
+    if (filters.service) query = query.contains('services', [filters.service])
+    if (filters.dateFrom) query = query.gte('created_at', filters.dateFrom)
+    if (filters.dateTo) query = query.lte('created_at', filters.dateTo)
+    if (filters.search) query = query.ilike('name', `%${filters.search}%`)
+    
+    const { data, error, count } = await query
+      .order(sortColumns[filters.sortBy || 'createdAt'] || 'created_at', { ascending: filters.sortOrder === 'asc' })
+      .range(offset, offset + limit - 1)
+    
+    if (error) throw error
+    return {
+      campaigns: (data || []).map(row => this.mapRowToCampaign(row)),
+      total: count || 0
+    }
+  }
+  
+  /**
+   * Campaigns changed at or after the given time, plus the given campaigns regardless of when they changed
+   */
+  async getCampaignsUpdatedSince(since: Date, campaignIds: string[] = [], campaignId?: string): Promise<CallCampaign[]> {
+    const changedFilter = `updated_at.gte.${since.toISOString()}`
+    
+    let query = supabase
+      .from('campaigns')
+      .select('*')
+      .or(campaignIds.length > 0 ? `${changedFilter},id.in.(${campaignIds.join(',')})` : changedFilter)
+    
+    if (campaignId) query = query.eq('id', campaignId)
+    
+    const { data, error } = await query.order('updated_at', { ascending: true })
+    
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToCampaign(row))
+  }
+  
+  /**
+   * The given campaigns, in one query
+   */
+  async getCampaignsByIds(campaignIds: string[]): Promise<CallCampaign[]> {
+    if (campaignIds.length === 0) return []
+    
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('*')
+      .in('id', campaignIds)
+    
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToCampaign(row))
+  }
+  
+  /**
+   * Names of the given campaigns, keyed by id
+   */
+  async getCampaignNames(campaignIds: string[]): Promise<Record<string, string>> {
+    const names: Record<string, string> = {}
+    if (campaignIds.length === 0) return names
+    
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('id, name')
+      .in('id', campaignIds)
+    
+    if (error) throw error
+    
+    for (const row of data || []) {
+      names[row.id] = row.name
+    }
+    
+    return names
+  }
+  
+  /**
+   * Count calls per status for each of the given campaigns
+   * (see the call_status_counts function in migration 021)
+   */
+  async getCallStatusCountsByCampaign(campaignIds: string[]): Promise<Record<string, Record<string, number>>> {
+    const counts: Record<string, Record<string, number>> = {}
+    if (campaignIds.length === 0) return counts
+    
+    const { data, error } = await supabase.rpc('call_status_counts', {
+      p_campaign_ids: campaignIds
+    })
+    
+    if (error) throw error
+    
+    for (const row of (data || []) as Array<{ campaign_id: string; status: string; count: number }>) {
+      const campaignCounts = counts[row.campaign_id] || (counts[row.campaign_id] = {})
+      campaignCounts[row.status] = Number(row.count)
+    }
+    
+    return counts
+  }
+  
   async insertCall(call: Call): Promise<void> {
     const { error } = await supabase
       .from('calls')
@@ -137,10 +291,17 @@ class Database {
         customer_id: call.customerId,
         customer_name: call.customerName,
         customer_phone: call.customerPhone,
+        customer_phone_normalized: TwilioClient.formatPhoneNumber(call.customerPhone),
+        time_zone: call.timeZone,
+        locale: call.locale,
+        detected_locale: call.detectedLocale,
         campaign_id: call.campaignId,
         status: call.status,
         scheduled_at: call.scheduledAt.toISOString(),
+        retry_count: call.retryCount,
         max_retries: call.maxRetries,
+        next_attempt_at: call.nextAttemptAt?.toISOString(),
+        script_variant: call.scriptVariant,
         services: call.services,
         created_at: call.createdAt.toISOString(),
         updated_at: call.updatedAt.toISOString()
@@ -164,13 +325,37 @@ class Database {
     return data ? this.mapRowToCall(data) : null
   }
   
-  async updateCallStatus(id: string, status: CallStatus, updates?: Partial<Call>): Promise<void> {
-    const { error } = await supabase
+  async getCallByTwilioSid(twilioSid: string): Promise<Call | null> {
+    const { data, error } = await supabase
+      .from('calls')
+      .select('*')
+      .eq('twilio_sid', twilioSid)
+      .maybeSingle()
+    
+    if (error) throw error
+    return data ? this.mapRowToCall(data) : null
+  }
+  
+  /**
+   * Move a call to a new status. The transition is validated against the call state
+   * machine and recorded in call_events; re-applying the current status only updates fields.
+   */
+  async updateCallStatus(id: string, status: CallStatus, updates?: Partial<Call>, cause = 'system'): Promise<void> {
+    const current = await this.getCallById(id)
+    if (!current) throw new Error(`Call ${id} not found`)
+    
+    const isTransition = current.status !== status
+    if (isTransition) {
+      assertCallTransition(current.status, status)
+    }
+    
+    const { data, error } = await supabase
       .from('calls')
       .update({
         status,
         updated_at: new Date().toISOString(),
-        twilio_sid: updates?.twilioSid,
+        // A call back in the queue waits for a new dial attempt, so the old SID no longer belongs to it
+        twilio_sid: status === 'pending' ? null : updates?.twilioSid,
         started_at: updates?.startedAt?.toISOString(),
         ended_at: updates?.endedAt?.toISOString(),
         duration: updates?.duration,
@@ -178,12 +363,141 @@ class Database {
         summary: updates?.summary,
         sentiment: updates?.sentiment,
         key_issues: updates?.keyIssues,
+        issue_classifications: updates?.issueClassifications,
         resolution: updates?.resolution,
-        error_message: updates?.errorMessage
+        error_message: updates?.errorMessage,
+        retry_count: updates?.retryCount,
+        // Only meaningful while waiting for a retry
+        next_attempt_at: status === 'retry' ? updates?.nextAttemptAt?.toISOString() : null
       })
       .eq('id', id)
+      .eq('status', current.status)
+      .select('id')
+    
+    if (error) throw error
+    
+    if (!data || data.length === 0) {
+      throw new InvalidCallTransitionError(current.status, status, 'call status changed concurrently')
+    }
+    
+    if (isTransition) {
+      await this.insertCallEvent({
+        id: uuidv4(),
+        callId: id,
+        campaignId: current.campaignId,
+        fromStatus: current.status,
+        toStatus: status,
+        cause,
+        createdAt: new Date()
+      })
+    }
+    
+    // Leaving a line-occupying status ends the current dial attempt
+    if (isTransition && ACTIVE_CALL_STATUSES.includes(current.status) && !ACTIVE_CALL_STATUSES.includes(status)) {
+      await this.insertCallAttempt({
+        id: uuidv4(),
+        callId: id,
+        campaignId: current.campaignId,
+        attemptNumber: current.retryCount + 1,
+        twilioSid: updates?.twilioSid || current.twilioSid,
+        outcome: status,
+        errorMessage: updates?.errorMessage,
+        duration: updates?.duration,
+        startedAt: current.startedAt,
+        endedAt: updates?.endedAt || new Date()
+      })
+    } else if (!isTransition && updates?.duration !== undefined && current.twilioSid) {
+      // Late status callbacks carry the duration of the attempt that already ended
+      await this.updateCallAttemptDuration(id, current.twilioSid, updates.duration)
+    }
+  }
+  
+  async insertCallEvent(event: CallEvent): Promise<void> {
+    const { error } = await supabase
+      .from('call_events')
+      .insert({
+        id: event.id,
+        call_id: event.callId,
+        campaign_id: event.campaignId,
+        from_status: event.fromStatus,
+        to_status: event.toStatus,
+        cause: event.cause,
+        created_at: event.createdAt.toISOString()
+      })
+    
+    if (error) throw error
+  }
+  
+  /**
+   * Status history of a call, oldest first
+   */
+  async getCallEvents(callId: string): Promise<CallEvent[]> {
+    const { data, error } = await supabase
+      .from('call_events')
+      .select('*')
+      .eq('call_id', callId)
+      .order('created_at', { ascending: true })
+    
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToCallEvent(row))
+  }
+  
+  async insertCallAttempt(attempt: CallAttempt): Promise<void> {
+    const { error } = await supabase
+      .from('call_attempts')
+      .insert({
+        id: attempt.id,
+        call_id: attempt.callId,
+        campaign_id: attempt.campaignId,
+        attempt_number: attempt.attemptNumber,
+        twilio_sid: attempt.twilioSid,
+        outcome: attempt.outcome,
+        error_message: attempt.errorMessage,
+        duration: attempt.duration,
+        started_at: attempt.startedAt?.toISOString(),
+        ended_at: attempt.endedAt.toISOString()
+      })
+    
+    if (error) throw error
+  }
+  
+  async updateCallAttemptDuration(callId: string, twilioSid: string, duration: number): Promise<void> {
+    const { error } = await supabase
+      .from('call_attempts')
+      .update({ duration })
+      .eq('call_id', callId)
+      .eq('twilio_sid', twilioSid)
+    
+    if (error) throw error
+  }
+  
+  /**
+   * The finished dial attempt a Twilio SID belongs to
+   */
+  async getCallAttemptByTwilioSid(twilioSid: string): Promise<CallAttempt | null> {
+    const { data, error } = await supabase
+      .from('call_attempts')
+      .select('*')
+      .eq('twilio_sid', twilioSid)
+      .order('attempt_number', { ascending: false })
+      .limit(1)
+    
+    if (error) throw error
+    return data && data.length > 0 ? this.mapRowToCallAttempt(data[0]) : null
+  }
+  
+  /**
+   * Dial attempts of a call, oldest first
+   */
+  async getCallAttempts(callId: string): Promise<CallAttempt[]> {
+    const { data, error } = await supabase
+      .from('call_attempts')
+      .select('*')
+      .eq('call_id', callId)
+      .order('attempt_number', { ascending: true })
     
     if (error) throw error
+    return (data || []).map(row => this.mapRowToCallAttempt(row))
   }
   
   async getCallsByStatus(status: CallStatus, limit = 100): Promise<Call[]> {
@@ -198,86 +512,725 @@ class Database {
     return (data || []).map(row => this.mapRowToCall(row))
   }
   
-  async getCallsByCampaign(campaignId: string): Promise<Call[]> {
+  /**
+   * Pending calls of a campaign that are due by the given time, oldest first
+   */
+  async getPendingCallsByCampaign(campaignId: string, limit = 100, dueBy = new Date()): Promise<Call[]> {
     const { data, error } = await supabase
       .from('calls')
       .select('*')
       .eq('campaign_id', campaignId)
-      .order('scheduled_at', { ascending: false })
+      .eq('status', 'pending')
+      .lte('scheduled_at', dueBy.toISOString())
+      .order('scheduled_at', { ascending: true })
+      .limit(limit)
     
     if (error) throw error
     return (data || []).map(row => this.mapRowToCall(row))
   }
-
-  // ==================== CONVERSATION METHODS ====================
   
   /**
-   * Save conversation context to database
+   * When the earliest deferred pending call of a campaign becomes due
    */
-  async insertConversation(context: ConversationContext): Promise<void> {
-    console.log('[insertConversation] Saving context for callId:', context.callId)
+  async getNextPendingCallTime(campaignId: string, after = new Date()): Promise<Date | null> {
+    const { data, error } = await supabase
+      .from('calls')
+      .select('scheduled_at')
+      .eq('campaign_id', campaignId)
+      .eq('status', 'pending')
+      .gt('scheduled_at', after.toISOString())
+      .order('scheduled_at', { ascending: true })
+      .limit(1)
     
+    if (error) throw error
+    return data && data.length > 0 ? new Date(data[0].scheduled_at) : null
+  }
+  
+  /**
+   * Move a pending call's scheduled time, e.g. to the opening of its calling window
+   */
+  async reschedulePendingCall(id: string, scheduledAt: Date): Promise<void> {
     const { error } = await supabase
-      .from('conversations')
-      .upsert({
-        id: context.callId,
-        call_id: context.callId,
-        campaign_id: context.campaignId,
-        customer_name: context.customerName,
-        customer_reason: context.customerReason,
-        services: context.services,
-        bank_name: context.bankName,
-        bot_name: context.botName,
-        conversation_history: context.conversationHistory,
+      .from('calls')
+      .update({
+        scheduled_at: scheduledAt.toISOString(),
         updated_at: new Date().toISOString()
       })
+      .eq('id', id)
+      .eq('status', 'pending')
     
-    if (error) {
-      console.error('[insertConversation] Error:', error)
-      throw error
-    }
+    if (error) throw error
+  }
+  
+  /**
+   * Count calls in any of the given statuses, optionally within one campaign
+   */
+  async countCallsByStatus(statuses: CallStatus[], campaignId?: string): Promise<number> {
+    let query = supabase
+      .from('calls')
+      .select('id', { count: 'exact', head: true })
+      .in('status', statuses)
     
-    console.log('[insertConversation] Successfully saved context')
+    if (campaignId) query = query.eq('campaign_id', campaignId)
+    
+    const { count, error } = await query
+    
+    if (error) throw error
+    return count || 0
   }
   
   /**
-   * Get conversation context by call ID
+   * Move a call from pending to calling. Returns false if another worker got to it first.
    */
-  async getConversationByCallId(callId: string): Promise<ConversationContext | null> {
+  async claimPendingCall(id: string): Promise<boolean> {
+    const now = new Date()
     const { data, error } = await supabase
-      .from('conversations')
+      .from('calls')
+      .update({
+        status: 'calling',
+        started_at: now.toISOString(),
+        // Timing of a previous attempt doesn't apply to the new dial
+        ended_at: null,
+        duration: null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id, campaign_id')
+    
+    if (error) throw error
+    if (!data || data.length === 0) return false
+    
+    await this.insertCallEvent({
+      id: uuidv4(),
+      callId: id,
+      campaignId: data[0].campaign_id,
+      fromStatus: 'pending',
+      toStatus: 'calling',
+      cause: 'dispatch',
+      createdAt: now
+    })
+    
+    return true
+  }
+  
+  async getCallsByCampaign(campaignId: string): Promise<Call[]> {
+    const { data, error } = await supabase
+      .from('calls')
       .select('*')
-      .eq('call_id', callId)
-      .single()
+      .eq('campaign_id', campaignId)
+      .order('scheduled_at', { ascending: false })
     
-    if (error) {
-      if (error.code === 'PGRST116') {
-        // Not found, return null
-        return null
-      }
-      console.error('Error fetching conversation:', error)
-      throw error
-    }
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToCall(row))
+  }
+  
+  /**
+   * Calls to the same number in any of the given statuses, across campaigns.
+   * The number is matched as dialed, whatever way each call's customer file wrote it.
+   */
+  async getCallsByPhone(customerPhone: string, statuses: CallStatus[]): Promise<Call[]> {
+    const { data, error } = await supabase
+      .from('calls')
+      .select('*')
+      .eq('customer_phone_normalized', TwilioClient.formatPhoneNumber(customerPhone))
+      .in('status', statuses)
     
-    return data ? this.mapRowToConversation(data) : null
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToCall(row))
   }
   
   /**
-   * Update conversation history
+   * Calls currently occupying a line (calling, ringing or answered), oldest first
+   */
+  async getActiveCalls(campaignId?: string): Promise<Call[]> {
+    let query = supabase
+      .from('calls')
+      .select('*')
+      .in('status', ACTIVE_CALL_STATUSES)
+    
+    if (campaignId) query = query.eq('campaign_id', campaignId)
+    
+    const { data, error } = await query.order('started_at', { ascending: true })
+    
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToCall(row))
+  }
+  
+  /**
+   * Calls changed at or after the given time, oldest change first
+   */
+  async getCallsUpdatedSince(since: Date, campaignId?: string, limit = 200): Promise<Call[]> {
+    let query = supabase
+      .from('calls')
+      .select('*')
+      .gte('updated_at', since.toISOString())
+    
+    if (campaignId) query = query.eq('campaign_id', campaignId)
+    
+    const { data, error } = await query
+      .order('updated_at', { ascending: true })
+      .limit(limit)
+    
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToCall(row))
+  }
+  
+  /**
+   * Record the language detected from the customer's answers
    */
-  async updateConversationHistory(callId: string, history: ConversationContext['conversationHistory']): Promise<void> {
+  async updateCallDetectedLocale(id: string, detectedLocale: string): Promise<void> {
     const { error } = await supabase
-      .from('conversations')
+      .from('calls')
       .update({
-        conversation_history: history,
+        detected_locale: detectedLocale,
         updated_at: new Date().toISOString()
       })
-      .eq('call_id', callId)
+      .eq('id', id)
     
-    if (error) {
-      console.error('Error updating conversation history:', error)
-      throw error
-    }
+    if (error) throw error
+  }
+  
+  /**
+   * Record a call's NPS and/or CSAT score. Scores already captured for the call are kept, in the
+   * same statement (see the record_call_scores function in migration 022).
+   */
+  async updateCallScores(id: string, scores: { npsScore?: number; csatScore?: number }): Promise<void> {
+    const { error } = await supabase.rpc('record_call_scores', {
+      p_call_id: id,
+      p_nps_score: scores.npsScore ?? null,
+      p_csat_score: scores.csatScore ?? null
+    })
+    
+    if (error) throw error
+  }
+  
+  /**
+   * Calls per NPS and CSAT score - overall and per period, service and campaign - optionally
+   * filtered by campaign, service and date scored (see the call_score_counts function in migration 022)
+   */
+  async getCallScoreCounts(filters: ScoreReportRequest = {}): Promise<CallScoreCount[]> {
+    const { data, error } = await supabase.rpc('call_score_counts', {
+      p_campaign_id: filters.campaignId || null,
+      p_service: filters.service || null,
+      p_date_from: filters.dateFrom || null,
+      p_date_to: filters.dateTo || null,
+      p_interval: filters.interval || 'day'
+    })
+    
+    if (error) throw error
+    return (data || []) as CallScoreCount[]
+  }
+  
+  /**
+   * Call counts, sentiment, issues and daily volumes, aggregated in the database
+   * (see the call_analytics function in migration 015)
+   */
+  async getCallAnalytics(filters: AnalyticsRequest = {}): Promise<CallAnalyticsAggregates> {
+    const { data, error } = await supabase.rpc('call_analytics', {
+      p_campaign_id: filters.campaignId || null,
+      p_services: filters.services && filters.services.length > 0 ? filters.services : null,
+      p_date_from: filters.dateFrom || null,
+      p_date_to: filters.dateTo || null
+    })
+    
+    if (error) throw error
+    return data as CallAnalyticsAggregates
+  }
+  
+  /**
+   * Outcomes per script variant of each campaign, with the analytics filters
+   * (see the script_variant_counts function in migration 027)
+   */
+  async getScriptVariantCounts(filters: AnalyticsRequest = {}): Promise<ScriptVariantCount[]> {
+    const { data, error } = await supabase.rpc('script_variant_counts', {
+      p_campaign_id: filters.campaignId || null,
+      p_services: filters.services && filters.services.length > 0 ? filters.services : null,
+      p_date_from: filters.dateFrom || null,
+      p_date_to: filters.dateTo || null
+    })
+    
+    if (error) throw error
+    return (data || []) as ScriptVariantCount[]
+  }
+  
+  // ==================== DO-NOT-CALL METHODS ====================
+  
+  /**
+   * Add numbers to the do-not-call list. Numbers already listed keep their original entry.
+   * Returns the numbers that were newly added.
+   */
+  async addToDoNotCallList(entries: DoNotCallEntry[]): Promise<string[]> {
+    if (entries.length === 0) return []
+    
+    const { data, error } = await supabase
+      .from('do_not_call')
+      .upsert(entries.map(entry => ({
+        phone: entry.phone,
+        source: entry.source,
+        reason: entry.reason,
+        call_id: entry.callId,
+        created_at: entry.createdAt.toISOString()
+      })), {
+        onConflict: 'phone',
+        ignoreDuplicates: true
+      })
+      .select('phone')
+    
+    if (error) throw error
+    
+    const added = (data || []).map(row => row.phone as string)
+    await this.setCustomersCallEligible(entries.map(entry => entry.phone), false)
+    
+    return added
+  }
+  
+  async removeFromDoNotCallList(phone: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('do_not_call')
+      .delete()
+      .eq('phone', phone)
+      .select('phone')
+    
+    if (error) throw error
+    if (!data || data.length === 0) return false
+    
+    await this.setCustomersCallEligible([phone], true)
+    return true
+  }
+  
+  async isPhoneOnDoNotCallList(phone: string): Promise<boolean> {
+    const { count, error } = await supabase
+      .from('do_not_call')
+      .select('phone', { count: 'exact', head: true })
+      .eq('phone', phone)
+    
+    if (error) throw error
+    return (count || 0) > 0
+  }
+  
+  /**
+   * Which of the given numbers are on the do-not-call list
+   */
+  async getDoNotCallPhones(phones: string[]): Promise<Set<string>> {
+    const listed = new Set<string>()
+    
+    // Keep the IN filter within URL length limits
+    for (let i = 0; i < phones.length; i += 200) {
+      const { data, error } = await supabase
+        .from('do_not_call')
+        .select('phone')
+        .in('phone', phones.slice(i, i + 200))
+      
+      if (error) throw error
+      for (const row of data || []) {
+        listed.add(row.phone)
+      }
+    }
+    
+    return listed
+  }
+  
+  async getDoNotCallList(filters: { search?: string; limit?: number; offset?: number } = {}): Promise<{ entries: DoNotCallEntry[]; total: number }> {
+    const limit = filters.limit ?? 50
+    const offset = filters.offset ?? 0
+    
+    let query = supabase
+      .from('do_not_call')
+      .select('*', { count: 'exact' })
+    
+    if (filters.search) query = query.ilike('phone', `%${filters.search}%`)
+    
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+    
+    if (error) throw error
+    return {
+      entries: (data || []).map(row => this.mapRowToDoNotCallEntry(row)),
+      total: count || 0
+    }
+  }
+  
+  /**
+   * Numbers are matched as dialed, like the do-not-call list stores them
+   */
+  private async setCustomersCallEligible(phones: string[], callEligible: boolean): Promise<void> {
+    for (let i = 0; i < phones.length; i += 200) {
+      const { error } = await supabase
+        .from('customers')
+        .update({
+          call_eligible: callEligible,
+          updated_at: new Date().toISOString()
+        })
+        .in('phone_normalized', phones.slice(i, i + 200).map(phone => TwilioClient.formatPhoneNumber(phone)))
+      
+      if (error) throw error
+    }
+  }
+
+  // ==================== SCRIPT LIBRARY METHODS ====================
+  
+  /**
+   * Create a library script together with its first version, in one transaction
+   * (see the create_script function in migration 025)
+   */
+  async insertScript(script: Script, firstVersion: ScriptVersion): Promise<void> {
+    const { error } = await supabase.rpc('create_script', {
+      p_script_id: script.id,
+      p_name: script.name,
+      p_description: script.description ?? null,
+      p_version_id: firstVersion.id,
+      p_bot_script: firstVersion.botScript,
+      p_notes: firstVersion.notes ?? null
+    })
+    
+    if (error) throw error
+  }
+  
+  async getScripts(filters: { search?: string; limit?: number; offset?: number } = {}): Promise<{ scripts: Script[]; total: number }> {
+    const limit = filters.limit ?? 50
+    const offset = filters.offset ?? 0
+    
+    let query = supabase
+      .from('scripts')
+      .select('*', { count: 'exact' })
+    
+    if (filters.search) query = query.ilike('name', `%${filters.search}%`)
+    
+    const { data, error, count } = await query
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+    
+    if (error) throw error
+    return {
+      scripts: (data || []).map(row => this.mapRowToScript(row)),
+      total: count || 0
+    }
+  }
+  
+  async getScriptById(id: string): Promise<Script | null> {
+    const { data, error } = await supabase
+      .from('scripts')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      throw error
+    }
+    return data ? this.mapRowToScript(data) : null
+  }
+  
+  async updateScript(id: string, updates: { name?: string; description?: string }): Promise<void> {
+    const { error } = await supabase
+      .from('scripts')
+      .update({
+        name: updates.name,
+        description: updates.description,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+    
+    if (error) throw error
+  }
+  
+  /**
+   * Delete a script and its versions. Campaigns keep their own snapshot of the scripts they used.
+   */
+  async deleteScript(id: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('scripts')
+      .delete()
+      .eq('id', id)
+      .select('id')
+    
+    if (error) throw error
+    return (data || []).length > 0
+  }
+  
+  /**
+   * Store a new version as the script's latest. The version number is taken in the database,
+   * so concurrent saves get consecutive numbers (see the add_script_version function in
+   * migration 025). Returns the new version's number.
+   */
+  async insertScriptVersion(version: Omit<ScriptVersion, 'version' | 'createdAt'>): Promise<number> {
+    const { data, error } = await supabase.rpc('add_script_version', {
+      p_script_id: version.scriptId,
+      p_version_id: version.id,
+      p_bot_script: version.botScript,
+      p_notes: version.notes ?? null
+    })
+    
+    if (error) throw error
+    return data as number
+  }
+  
+  /**
+   * Versions of a script, newest first
+   */
+  async getScriptVersions(scriptId: string): Promise<ScriptVersion[]> {
+    const { data, error } = await supabase
+      .from('script_versions')
+      .select('*')
+      .eq('script_id', scriptId)
+      .order('version', { ascending: false })
+    
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToScriptVersion(row))
+  }
+  
+  async getScriptVersion(scriptId: string, version: number): Promise<ScriptVersion | null> {
+    const { data, error } = await supabase
+      .from('script_versions')
+      .select('*')
+      .eq('script_id', scriptId)
+      .eq('version', version)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      throw error
+    }
+    return data ? this.mapRowToScriptVersion(data) : null
+  }
+  
+  // ==================== SURVEY METHODS ====================
+  
+  /**
+   * Store the answer to a survey question, replacing an earlier answer of the same call
+   */
+  async saveSurveyAnswer(answer: SurveyAnswer): Promise<void> {
+    const { error } = await supabase
+      .from('survey_answers')
+      .upsert({
+        call_id: answer.callId,
+        campaign_id: answer.campaignId,
+        question_id: answer.questionId,
+        type: answer.type,
+        value: answer.value,
+        source: answer.source,
+        raw_input: answer.rawInput,
+        answered_at: answer.answeredAt.toISOString()
+      }, {
+        onConflict: 'call_id,question_id'
+      })
+    
+    if (error) throw error
+  }
+  
+  async getSurveyAnswersByCall(callId: string): Promise<SurveyAnswer[]> {
+    const { data, error } = await supabase
+      .from('survey_answers')
+      .select('*')
+      .eq('call_id', callId)
+      .order('answered_at', { ascending: true })
+    
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToSurveyAnswer(row))
+  }
+  
+  async getSurveyAnswersByCampaign(campaignId: string): Promise<SurveyAnswer[]> {
+    const { data, error } = await supabase
+      .from('survey_answers')
+      .select('*')
+      .eq('campaign_id', campaignId)
+    
+    if (error) throw error
+    return (data || []).map(row => this.mapRowToSurveyAnswer(row))
+  }
+  
+  // ==================== ISSUE TAXONOMY METHODS ====================
+  
+  /**
+   * The configured issue taxonomy, in display order. Empty if none has been saved.
+   */
+  async getIssueTaxonomy(): Promise<IssueCategory[]> {
+    const { data, error } = await supabase
+      .from('issue_categories')
+      .select('*')
+      .order('position', { ascending: true })
+    
+    if (error) throw error
+    return (data || []).map(row => ({
+      code: row.code,
+      label: row.label,
+      keywords: row.keywords || [],
+      subcategories: row.subcategories || []
+    }))
+  }
+  
+  /**
+   * Replace the issue taxonomy. Categories left out of the list are removed, in the same
+   * transaction (see the save_issue_taxonomy function in migration 023).
+   */
+  async saveIssueTaxonomy(categories: IssueCategory[]): Promise<void> {
+    const { error } = await supabase.rpc('save_issue_taxonomy', {
+      p_categories: categories.map(category => ({
+        code: category.code,
+        label: category.label,
+        keywords: category.keywords,
+        subcategories: category.subcategories
+      }))
+    })
+    
+    if (error) throw error
+  }
+  
+  /**
+   * Issues classified on completed calls, counted per code in the database, optionally filtered by
+   * campaign, service, end date and minimum confidence (see the issue_classification_counts
+   * function in migration 023)
+   */
+  async getIssueClassificationCounts(filters: IssueReportRequest = {}): Promise<IssueClassificationCount[]> {
+    const { data, error } = await supabase.rpc('issue_classification_counts', {
+      p_campaign_id: filters.campaignId || null,
+      p_service: filters.service || null,
+      p_date_from: filters.dateFrom || null,
+      p_date_to: filters.dateTo || null,
+      p_min_confidence: filters.minConfidence || 0
+    })
+    
+    if (error) throw error
+    return (data || []) as IssueClassificationCount[]
+  }
+  
+  // ==================== CONVERSATION METHODS ====================
+  
+  /**
+   * Save conversation context to database
+   */
+  async insertConversation(context: ConversationContext): Promise<void> {
+    console.log('[insertConversation] Saving context for callId:', context.callId)
+    
+    const { error } = await supabase
+      .from('conversations')
+      .upsert({
+        id: context.callId,
+        call_id: context.callId,
+        campaign_id: context.campaignId,
+        customer_name: context.customerName,
+        customer_reason: context.customerReason,
+        services: context.services,
+        bank_name: context.bankName,
+        bot_name: context.botName,
+        conversation_history: context.conversationHistory,
+        covered_topics: context.coveredTopics || [],
+        locale: context.locale,
+        updated_at: new Date().toISOString()
+      })
+    
+    if (error) {
+      console.error('[insertConversation] Error:', error)
+      throw error
+    }
+    
+    console.log('[insertConversation] Successfully saved context')
+  }
+  
+  /**
+   * Get conversation context by call ID
+   */
+  async getConversationByCallId(callId: string): Promise<ConversationContext | null> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('call_id', callId)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // Not found, return null
+        return null
+      }
+      console.error('Error fetching conversation:', error)
+      throw error
+    }
+    
+    return data ? this.mapRowToConversation(data) : null
+  }
+  
+  /**
+   * Update conversation history
+   */
+  async updateConversationHistory(
+    callId: string,
+    history: ConversationContext['conversationHistory'],
+    coveredTopics?: string[]
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('conversations')
+      .update({
+        conversation_history: history,
+        covered_topics: coveredTopics,
+        updated_at: new Date().toISOString()
+      })
+      .eq('call_id', callId)
+    
+    if (error) {
+      console.error('Error updating conversation history:', error)
+      throw error
+    }
+  }
+  
+  /**
+   * Switch the language a conversation is held in
+   */
+  async updateConversationLocale(callId: string, locale: string): Promise<void> {
+    const { error } = await supabase
+      .from('conversations')
+      .update({
+        locale,
+        updated_at: new Date().toISOString()
+      })
+      .eq('call_id', callId)
+    
+    if (error) throw error
+  }
+  
+  /**
+   * Conversations of the given calls, keyed by call ID
+   */
+  async getConversationsByCallIds(callIds: string[]): Promise<Record<string, { context: ConversationContext; updatedAt: Date }>> {
+    const conversations: Record<string, { context: ConversationContext; updatedAt: Date }> = {}
+    if (callIds.length === 0) return conversations
+    
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .in('call_id', callIds)
+    
+    if (error) throw error
+    
+    for (const row of data || []) {
+      conversations[row.call_id] = { context: this.mapRowToConversation(row), updatedAt: new Date(row.updated_at) }
+    }
+    
+    return conversations
+  }
+  
+  /**
+   * Conversations changed at or after the given time, oldest change first
+   */
+  async getConversationsUpdatedSince(
+    since: Date,
+    campaignId?: string,
+    limit = 100
+  ): Promise<Array<{ context: ConversationContext; updatedAt: Date }>> {
+    let query = supabase
+      .from('conversations')
+      .select('*')
+      .gte('updated_at', since.toISOString())
+    
+    if (campaignId) query = query.eq('campaign_id', campaignId)
+    
+    const { data, error } = await query
+      .order('updated_at', { ascending: true })
+      .limit(limit)
+    
+    if (error) throw error
+    return (data || []).map(row => ({ context: this.mapRowToConversation(row), updatedAt: new Date(row.updated_at) }))
   }
   
   /**
@@ -295,6 +1248,216 @@ class Database {
     }
   }
 
+  // ==================== JOB QUEUE METHODS ====================
+  
+  /**
+   * Persist a new job
+   */
+  async insertJob(job: Job): Promise<void> {
+    const { error } = await supabase
+      .from('jobs')
+      .insert({
+        id: job.id,
+        type: job.type,
+        payload: job.payload,
+        status: job.status,
+        run_at: job.runAt.toISOString(),
+        attempts: job.attempts,
+        max_attempts: job.maxAttempts,
+        dedupe_key: job.dedupeKey,
+        created_at: job.createdAt.toISOString(),
+        updated_at: job.updatedAt.toISOString()
+      })
+    
+    if (error) {
+      if (error.code === '23505' && job.dedupeKey) {
+        // Another worker queued the same job first
+        return
+      }
+      throw error
+    }
+  }
+  
+  /**
+   * Find a queued job by dedupe key
+   */
+  async getQueuedJobByDedupeKey(dedupeKey: string): Promise<Job | null> {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('dedupe_key', dedupeKey)
+      .eq('status', 'queued')
+      .limit(1)
+    
+    if (error) throw error
+    return data && data.length > 0 ? this.mapRowToJob(data[0]) : null
+  }
+  
+  /**
+   * Move a job that is still queued to a new run time
+   */
+  async rescheduleJob(id: string, runAt: Date): Promise<void> {
+    const { error } = await supabase
+      .from('jobs')
+      .update({
+        run_at: runAt.toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'queued')
+    
+    if (error) throw error
+  }
+  
+  /**
+   * Claim due jobs for a worker. Jobs whose lock has expired are reclaimed.
+   * Each claim is a conditional update, so concurrent workers never run the same job.
+   */
+  async claimDueJobs(workerId: string, now: Date, limit: number, lockTimeoutMs: number): Promise<Job[]> {
+    const staleBefore = new Date(now.getTime() - lockTimeoutMs).toISOString()
+    
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .lte('run_at', now.toISOString())
+      .or(`status.eq.queued,and(status.eq.running,locked_at.lt.${staleBefore})`)
+      .order('run_at', { ascending: true })
+      .limit(limit)
+    
+    if (error) throw error
+    
+    const claimed: Job[] = []
+    
+    for (const row of data || []) {
+      let claim = supabase
+        .from('jobs')
+        .update({
+          status: 'running',
+          attempts: row.attempts + 1,
+          locked_by: workerId,
+          locked_at: now.toISOString(),
+          updated_at: now.toISOString()
+        })
+        .eq('id', row.id)
+        .eq('status', row.status)
+      
+      claim = row.locked_at ? claim.eq('locked_at', row.locked_at) : claim.is('locked_at', null)
+      
+      const { data: updated, error: claimError } = await claim.select()
+      
+      if (claimError) {
+        console.error('[claimDueJobs] Failed to claim job:', row.id, claimError)
+        continue
+      }
+      
+      if (updated && updated.length > 0) {
+        claimed.push(this.mapRowToJob(updated[0]))
+      }
+    }
+    
+    return claimed
+  }
+  
+  /**
+   * Mark a job as completed
+   */
+  async completeJob(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('jobs')
+      .update({
+        status: 'completed',
+        locked_by: null,
+        locked_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+    
+    if (error) throw error
+  }
+  
+  /**
+   * Record a job failure. The job is re-queued at retryAt, or marked failed if omitted.
+   * A job that can't be re-queued because a newer one with its dedupe key is queued is
+   * completed instead - the newer job does its work.
+   */
+  async failJob(id: string, errorMessage: string, retryAt?: Date): Promise<void> {
+    const { error } = await supabase
+      .from('jobs')
+      .update({
+        status: retryAt ? 'queued' : 'failed',
+        run_at: retryAt?.toISOString(),
+        last_error: errorMessage,
+        locked_by: null,
+        locked_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+    
+    if (error) {
+      if (error.code === '23505' && retryAt) {
+        const { error: completeError } = await supabase
+          .from('jobs')
+          .update({
+            status: 'completed',
+            last_error: errorMessage,
+            locked_by: null,
+            locked_at: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id)
+        
+        if (completeError) throw completeError
+        return
+      }
+      throw error
+    }
+  }
+  
+  // ==================== REALTIME METHODS ====================
+  
+  /**
+   * Send an update to the /api/events streams of every instance
+   */
+  async publishRealtimeUpdate(update: RealtimeUpdate): Promise<void> {
+    const result = await this.getRealtimeChannel().send({
+      type: 'broadcast',
+      event: REALTIME_EVENT,
+      payload: update
+    })
+    
+    if (result !== 'ok') throw new Error(`Failed to publish realtime update: ${result}`)
+  }
+  
+  /**
+   * Receive the updates published by any instance. Returns a function that unsubscribes.
+   * The instance's streams share one channel subscription, kept open once made.
+   */
+  subscribeToRealtimeUpdates(listener: (update: RealtimeUpdate) => void): () => void {
+    this.realtimeListeners.push(listener)
+    
+    if (!this.realtimeSubscribed) {
+      this.realtimeSubscribed = true
+      this.getRealtimeChannel()
+        .on('broadcast', { event: REALTIME_EVENT }, ({ payload }) => {
+          this.realtimeListeners.forEach(subscriber => subscriber(payload as RealtimeUpdate))
+        })
+        .subscribe((status) => {
+          if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            console.error(`Realtime channel ${REALTIME_CHANNEL}: ${status}`)
+          }
+        })
+    }
+    
+    return () => {
+      this.realtimeListeners = this.realtimeListeners.filter(subscriber => subscriber !== listener)
+    }
+  }
+  
+  // Updates published by this instance reach its own streams too
+  private getRealtimeChannel() {
+    return supabase.channel(REALTIME_CHANNEL, { config: { broadcast: { self: true } } })
+  }
+  
   // ==================== MAPPING METHODS ====================
   
   private mapRowToCustomer(row: any): ProcessedCustomer {
@@ -310,6 +1473,8 @@ class Database {
       matchedServices: row.matched_services || [],
       priority: row.priority,
       callEligible: row.call_eligible,
+      timeZone: row.time_zone || undefined,
+      locale: row.locale || undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     }
@@ -333,11 +1498,20 @@ class Database {
       retrySettings: {
         maxRetries: row.retry_max_retries,
         retryDelay: row.retry_delay,
+        backoff: row.retry_backoff || 'fixed',
         retryOnBusy: row.retry_on_busy,
         retryOnNoAnswer: row.retry_on_no_answer,
-        retryOnFailed: row.retry_on_failed
+        retryOnFailed: row.retry_on_failed,
+        retryOnVoicemail: row.retry_on_voicemail ?? true
       },
-      botScript: row.bot_script,
+      callingWindow: row.calling_window || DEFAULT_CALLING_WINDOW,
+      conversationPolicy: resolveConversationPolicy(row.conversation_policy || undefined),
+      botScript: resolveBotScript(row.bot_script),
+      scriptVariants: row.script_variants || [],
+      surveyQuestions: row.survey_questions || [],
+      voicemailMessage: row.voicemail_message || undefined,
+      voiceSettings: resolveVoiceSettings(row.voice_settings || undefined),
+      callbackBaseUrl: row.callback_base_url || undefined,
       createdBy: row.created_by,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
@@ -350,6 +1524,9 @@ class Database {
       customerId: row.customer_id,
       customerName: row.customer_name,
       customerPhone: row.customer_phone,
+      timeZone: row.time_zone || undefined,
+      locale: row.locale || undefined,
+      detectedLocale: row.detected_locale || undefined,
       campaignId: row.campaign_id,
       status: row.status,
       twilioSid: row.twilio_sid,
@@ -361,10 +1538,16 @@ class Database {
       summary: row.summary,
       sentiment: row.sentiment,
       keyIssues: row.key_issues || [],
+      issueClassifications: row.issue_classifications || [],
       resolution: row.resolution,
+      npsScore: row.nps_score ?? undefined,
+      csatScore: row.csat_score ?? undefined,
+      scoredAt: row.scored_at ? new Date(row.scored_at) : undefined,
       errorMessage: row.error_message,
-      retryCount: row.retry_count,
+      retryCount: row.retry_count ?? 0,
       maxRetries: row.max_retries,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      scriptVariant: row.script_variant || undefined,
       services: row.services || [],
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
@@ -383,7 +1566,99 @@ class Database {
       conversationHistory: (row.conversation_history || []).map((msg: any) => ({
         ...msg,
         timestamp: new Date(msg.timestamp)
-      }))
+      })),
+      coveredTopics: row.covered_topics || [],
+      locale: row.locale || undefined
+    }
+  }
+  
+  private mapRowToCallEvent(row: any): CallEvent {
+    return {
+      id: row.id,
+      callId: row.call_id,
+      campaignId: row.campaign_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      cause: row.cause,
+      createdAt: new Date(row.created_at)
+    }
+  }
+  
+  private mapRowToDoNotCallEntry(row: any): DoNotCallEntry {
+    return {
+      phone: row.phone,
+      source: row.source,
+      reason: row.reason || undefined,
+      callId: row.call_id || undefined,
+      createdAt: new Date(row.created_at)
+    }
+  }
+  
+  private mapRowToScript(row: any): Script {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      latestVersion: row.latest_version,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+  
+  private mapRowToScriptVersion(row: any): ScriptVersion {
+    return {
+      id: row.id,
+      scriptId: row.script_id,
+      version: row.version,
+      botScript: resolveBotScript(row.bot_script),
+      notes: row.notes || undefined,
+      createdAt: new Date(row.created_at)
+    }
+  }
+  
+  private mapRowToSurveyAnswer(row: any): SurveyAnswer {
+    return {
+      callId: row.call_id,
+      campaignId: row.campaign_id,
+      questionId: row.question_id,
+      type: row.type,
+      value: row.value ?? null,
+      source: row.source,
+      rawInput: row.raw_input || '',
+      answeredAt: new Date(row.answered_at)
+    }
+  }
+  
+  private mapRowToCallAttempt(row: any): CallAttempt {
+    return {
+      id: row.id,
+      callId: row.call_id,
+      campaignId: row.campaign_id,
+      attemptNumber: row.attempt_number,
+      twilioSid: row.twilio_sid,
+      outcome: row.outcome,
+      errorMessage: row.error_message,
+      duration: row.duration ?? undefined,
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      endedAt: new Date(row.ended_at)
+    }
+  }
+  
+  private mapRowToJob(row: any): Job {
+    return {
+      id: row.id,
+      type: row.type,
+      payload: row.payload || {},
+      status: row.status,
+      runAt: new Date(row.run_at),
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      lastError: row.last_error,
+      lockedBy: row.locked_by,
+      lockedAt: row.locked_at ? new Date(row.locked_at) : undefined,
+      dedupeKey: row.dedupe_key,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
     }
   }
 }
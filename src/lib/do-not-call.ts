@@ -0,0 +1,79 @@
+import Database from './database'
+import { TwilioClient } from './twilio-client'
+import { DoNotCallSource } from '@/types/customer'
+import { DoNotCallAddResponse } from '@/types/api'
+
+// Key a customer presses during a call to never be called again
+export const OPT_OUT_DIGIT = '9'
+
+// Phrases that mean the customer doesn't want to be called again
+const OPT_OUT_PHRASES = [
+  'don\'t call me',
+  'do not call me',
+  'don\'t call again',
+  'do not call again',
+  'stop calling',
+  'never call me',
+  'remove my number',
+  'take me off your list',
+  'take my number off',
+  'unsubscribe',
+  'لا تتصل',
+  'لا تتصلوا'
+]
+
+/**
+ * Normalize a phone number the way it is dialed, so list lookups match
+ */
+export function normalizeDoNotCallPhone(phone: string): string {
+  return TwilioClient.formatPhoneNumber(phone.trim())
+}
+
+/**
+ * A dialable E.164 number, after normalization
+ */
+export function isValidDoNotCallPhone(phone: string): boolean {
+  return /^\+[1-9]\d{6,14}$/.test(phone)
+}
+
+/**
+ * Whether the customer asked not to be called again
+ */
+export function isOptOutRequest(speech: string): boolean {
+  const normalized = speech.toLowerCase().replace(/[’‘]/g, '\'')
+  return OPT_OUT_PHRASES.some(phrase => normalized.includes(phrase))
+}
+
+/**
+ * Normalize, validate and add numbers to the do-not-call list
+ */
+export async function addPhonesToDoNotCallList(
+  phones: string[],
+  source: DoNotCallSource,
+  reason?: string
+): Promise<DoNotCallAddResponse> {
+  const invalid: string[] = []
+  const normalized = new Set<string>()
+  
+  for (const phone of phones) {
+    const formatted = normalizeDoNotCallPhone(String(phone))
+    if (isValidDoNotCallPhone(formatted)) {
+      normalized.add(formatted)
+    } else {
+      invalid.push(String(phone))
+    }
+  }
+  
+  const added = await Database.getInstance().addToDoNotCallList(Array.from(normalized).map(phone => ({
+    phone,
+    source,
+    reason,
+    createdAt: new Date()
+  })))
+  
+  return {
+    added: added.length,
+    alreadyListed: normalized.size - added.length,
+    invalid
+  }
+}
\ No newline at end of file
@@ -1,9 +1,11 @@
 import * as XLSX from 'xlsx'
 import { Customer, CustomerImportResult, ExcelColumnMapping } from '@/types/customer'
 import { v4 as uuidv4 } from 'uuid'
+import { isValidTimeZone } from './calling-window'
+import { getSupportedLocale } from './voice-settings'
 
 // Service keywords for matching customer reasons to services
-const SERVICE_KEYWORDS = {
+export const SERVICE_KEYWORDS: Record<string, string[]> = {
   'credit-card': ['credit card', 'card', 'credit', 'limit', 'interest rate', 'annual fee', 'cashback', 'rewards'],
   'personal-banking': ['account', 'checking', 'savings', 'personal banking', 'fees', 'branch', 'teller', 'deposit'],
   'loans': ['loan', 'personal loan', 'auto loan', 'lending', 'interest', 'payment', 'installment'],
@@ -14,6 +16,77 @@ const SERVICE_KEYWORDS = {
   'customer-service': ['service', 'support', 'staff', 'wait time', 'help', 'experience', 'rude', 'unprofessional']
 }
 
+// Time zone by country calling code, for countries that span a single zone
+// or where the capital's zone is a reasonable default
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  '966': 'Asia/Riyadh',
+  '971': 'Asia/Dubai',
+  '965': 'Asia/Kuwait',
+  '973': 'Asia/Bahrain',
+  '974': 'Asia/Qatar',
+  '968': 'Asia/Muscat',
+  '962': 'Asia/Amman',
+  '961': 'Asia/Beirut',
+  '20': 'Africa/Cairo',
+  '212': 'Africa/Casablanca',
+  '234': 'Africa/Lagos',
+  '254': 'Africa/Nairobi',
+  '27': 'Africa/Johannesburg',
+  '90': 'Europe/Istanbul',
+  '44': 'Europe/London',
+  '33': 'Europe/Paris',
+  '49': 'Europe/Berlin',
+  '34': 'Europe/Madrid',
+  '39': 'Europe/Rome',
+  '31': 'Europe/Amsterdam',
+  '7': 'Europe/Moscow',
+  '91': 'Asia/Kolkata',
+  '92': 'Asia/Karachi',
+  '880': 'Asia/Dhaka',
+  '63': 'Asia/Manila',
+  '62': 'Asia/Jakarta',
+  '60': 'Asia/Kuala_Lumpur',
+  '65': 'Asia/Singapore',
+  '86': 'Asia/Shanghai',
+  '81': 'Asia/Tokyo',
+  '82': 'Asia/Seoul',
+  '61': 'Australia/Sydney',
+  '55': 'America/Sao_Paulo',
+  '52': 'America/Mexico_City',
+  '1': 'America/New_York'
+}
+
+// North American area codes outside the Eastern zone
+const NANP_AREA_CODE_TIME_ZONES: Record<string, string> = {
+  // Central
+  '205': 'America/Chicago', '210': 'America/Chicago', '214': 'America/Chicago', '281': 'America/Chicago',
+  '312': 'America/Chicago', '314': 'America/Chicago', '316': 'America/Chicago', '402': 'America/Chicago',
+  '405': 'America/Chicago', '414': 'America/Chicago', '469': 'America/Chicago', '501': 'America/Chicago',
+  '504': 'America/Chicago', '512': 'America/Chicago', '515': 'America/Chicago', '601': 'America/Chicago',
+  '612': 'America/Chicago', '615': 'America/Chicago', '713': 'America/Chicago', '773': 'America/Chicago',
+  '816': 'America/Chicago', '832': 'America/Chicago', '901': 'America/Chicago', '918': 'America/Chicago',
+  '972': 'America/Chicago',
+  // Mountain
+  '208': 'America/Denver', '303': 'America/Denver', '307': 'America/Denver', '385': 'America/Denver',
+  '406': 'America/Denver', '505': 'America/Denver', '720': 'America/Denver', '801': 'America/Denver',
+  // Arizona doesn't observe DST
+  '480': 'America/Phoenix', '520': 'America/Phoenix', '602': 'America/Phoenix', '623': 'America/Phoenix',
+  '928': 'America/Phoenix',
+  // Pacific
+  '206': 'America/Los_Angeles', '213': 'America/Los_Angeles', '253': 'America/Los_Angeles', '310': 'America/Los_Angeles',
+  '323': 'America/Los_Angeles', '360': 'America/Los_Angeles', '408': 'America/Los_Angeles', '415': 'America/Los_Angeles',
+  '425': 'America/Los_Angeles', '503': 'America/Los_Angeles', '510': 'America/Los_Angeles', '541': 'America/Los_Angeles',
+  '619': 'America/Los_Angeles', '702': 'America/Los_Angeles', '714': 'America/Los_Angeles', '725': 'America/Los_Angeles',
+  '818': 'America/Los_Angeles', '858': 'America/Los_Angeles', '909': 'America/Los_Angeles', '916': 'America/Los_Angeles',
+  '949': 'America/Los_Angeles', '971': 'America/Los_Angeles',
+  // Alaska and Hawaii
+  '907': 'America/Anchorage', '808': 'Pacific/Honolulu',
+  // Canada
+  '204': 'America/Winnipeg', '306': 'America/Regina', '403': 'America/Edmonton', '587': 'America/Edmonton',
+  '780': 'America/Edmonton', '236': 'America/Vancouver', '250': 'America/Vancouver', '604': 'America/Vancouver',
+  '778': 'America/Vancouver', '902': 'America/Halifax', '709': 'America/St_Johns'
+}
+
 export class ExcelParser {
   /**
    * Parse Excel or CSV file and extract customer data
@@ -108,6 +181,48 @@ export class ExcelParser {
     }
   }
   
+  /**
+   * Parse a do-not-call file: the phone column if there is a header for it, otherwise the first column
+   */
+  static async parsePhoneList(file: File): Promise<{ phones: string[]; errors: string[] }> {
+    const buffer = await file.arrayBuffer()
+    const workbook = XLSX.read(buffer, { type: 'buffer', cellText: true })
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]]
+    
+    const rows = XLSX.utils.sheet_to_json(worksheet, {
+      header: 1,
+      defval: '',
+      blankrows: false
+    }) as string[][]
+    
+    if (rows.length === 0) {
+      return { phones: [], errors: ['File is empty'] }
+    }
+    
+    const headers = rows[0].map(h => String(h).toLowerCase().trim())
+    const mapping = this.detectColumnMapping(headers)
+    const hasHeader = mapping.phone !== undefined || !/\d{6,}/.test(headers.join(''))
+    const phoneColumn = mapping.phone ? parseInt(mapping.phone) : 0
+    
+    const phones: string[] = []
+    const errors: string[] = []
+    
+    rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+      const rowNumber = index + (hasHeader ? 2 : 1)
+      const phone = String(row[phoneColumn] || '').trim()
+      if (!phone) return
+      
+      const cleanPhone = this.cleanPhoneNumber(phone)
+      if (this.isValidPhoneNumber(cleanPhone)) {
+        phones.push(cleanPhone)
+      } else {
+        errors.push(`Row ${rowNumber}: Invalid phone number format: ${phone}`)
+      }
+    })
+    
+    return { phones, errors }
+  }
+  
   /**
    * Detect column mapping from headers
    */
@@ -151,6 +266,14 @@ export class ExcelParser {
       if (cleanHeader.includes('date') && cleanHeader.includes('left')) {
         mapping.dateLeft = index.toString()
       }
+      
+      if (cleanHeader.includes('timezone') || cleanHeader.includes('time zone')) {
+        mapping.timeZone = index.toString()
+      }
+      
+      if (cleanHeader.includes('language') || cleanHeader.includes('locale')) {
+        mapping.locale = index.toString()
+      }
     })
     
     return mapping
@@ -213,6 +336,17 @@ export class ExcelParser {
       customer.serviceType = String(row[parseInt(mapping.serviceType)] || '').trim()
     }
     
+    // An explicit time zone column wins over inference from the number
+    const timeZone = mapping.timeZone ? String(row[parseInt(mapping.timeZone)] || '').trim() : ''
+    customer.timeZone = timeZone && isValidTimeZone(timeZone)
+      ? timeZone
+      : this.inferTimeZone(cleanPhone)
+    
+    // Unsupported locales fall back to the campaign's language
+    if (mapping.locale) {
+      customer.locale = getSupportedLocale(String(row[parseInt(mapping.locale)] || '')) || undefined
+    }
+    
     return customer
   }
   
@@ -251,6 +385,29 @@ export class ExcelParser {
     return cleaned
   }
   
+  /**
+   * Infer the customer's time zone from the country calling code and, for
+   * North American numbers, the area code
+   */
+  static inferTimeZone(phone: string): string | undefined {
+    const digits = phone.replace(/[^\d+]/g, '')
+    if (!digits.startsWith('+')) return undefined
+    
+    const number = digits.substring(1)
+    
+    if (number.startsWith('1') && number.length === 11) {
+      return NANP_AREA_CODE_TIME_ZONES[number.substring(1, 4)] || COUNTRY_TIME_ZONES['1']
+    }
+    
+    // Calling codes are prefix-free, so the longest match is the only match
+    for (const length of [3, 2, 1]) {
+      const timeZone = COUNTRY_TIME_ZONES[number.substring(0, length)]
+      if (timeZone) return timeZone
+    }
+    
+    return undefined
+  }
+  
   /**
    * Validate phone number format
    */
@@ -0,0 +1,328 @@
+import Database from './database'
+import { SERVICE_KEYWORDS } from './excel-parser'
+import { IssueCategory, IssueClassification, IssueClassificationCount, IssueSubcategory } from '@/types/issue'
+import { IssueReportResponse, IssueRollUp } from '@/types/api'
+
+// Catch-all codes for issues that don't fit the taxonomy
+export const OTHER_ISSUE_CODE = 'other'
+
+export const MAX_ISSUE_CATEGORIES = 30
+export const MAX_ISSUE_SUBCATEGORIES = 20
+
+const CATEGORY_LABELS: Record<string, string> = {
+  'credit-card': 'Credit Card',
+  'personal-banking': 'Personal Banking',
+  'loans': 'Loans',
+  'mortgage': 'Mortgage',
+  'business-banking': 'Business Banking',
+  'investment': 'Investment Services',
+  'mobile-online': 'Mobile & Online Banking',
+  'customer-service': 'Customer Service'
+}
+
+// Subcategories of the default taxonomy: [code, label, keywords]
+const DEFAULT_SUBCATEGORIES: Record<string, Array<[string, string, string[]]>> = {
+  'credit-card': [
+    ['fees', 'Annual and other fees', ['annual fee', 'fee', 'charge']],
+    ['interest-rate', 'Interest rate', ['interest rate', 'apr', 'interest']],
+    ['credit-limit', 'Credit limit', ['limit']],
+    ['rewards', 'Rewards and cashback', ['cashback', 'rewards', 'points', 'miles']],
+    ['fraud-disputes', 'Fraud and disputes', ['fraud', 'dispute', 'stolen', 'unauthorized']]
+  ],
+  'personal-banking': [
+    ['fees', 'Account fees', ['fees', 'fee', 'charge', 'minimum balance']],
+    ['branch', 'Branch experience', ['branch', 'teller', 'queue']],
+    ['deposits', 'Deposits and savings rates', ['deposit', 'savings', 'rate']],
+    ['transfers', 'Transfers and payments', ['transfer', 'payment', 'remittance']]
+  ],
+  'loans': [
+    ['interest-rate', 'Interest rate', ['interest', 'rate', 'apr']],
+    ['approval', 'Approval and eligibility', ['approval', 'approved', 'rejected', 'eligibility', 'declined']],
+    ['repayments', 'Repayments and installments', ['payment', 'installment', 'repayment', 'early settlement']]
+  ],
+  'mortgage': [
+    ['interest-rate', 'Interest rate', ['interest', 'rate']],
+    ['approval', 'Approval process', ['approval', 'valuation', 'paperwork', 'documents']],
+    ['refinance', 'Refinancing', ['refinance', 'buyout', 'transfer']]
+  ],
+  'business-banking': [
+    ['fees', 'Fees', ['fee', 'charge']],
+    ['merchant-services', 'Merchant services', ['merchant', 'pos', 'terminal']],
+    ['payroll', 'Payroll', ['payroll', 'salary']]
+  ],
+  'investment': [
+    ['performance', 'Returns and performance', ['return', 'performance', 'loss', 'portfolio']],
+    ['advice', 'Advisor and advice', ['advisor', 'advice', 'wealth']],
+    ['fees', 'Fees and commissions', ['fee', 'commission']]
+  ],
+  'mobile-online': [
+    ['login', 'Login and access', ['login', 'password', 'otp', 'locked']],
+    ['reliability', 'Outages and errors', ['crash', 'error', 'down', 'slow', 'bug']],
+    ['features', 'Missing features', ['feature', 'missing', 'cannot', 'can\'t']]
+  ],
+  'customer-service': [
+    ['wait-time', 'Wait time', ['wait time', 'waiting', 'hold', 'slow response']],
+    ['staff-attitude', 'Staff attitude', ['rude', 'unprofessional', 'staff', 'attitude']],
+    ['resolution', 'Problem not resolved', ['not resolved', 'unresolved', 'no solution', 'complaint']]
+  ]
+}
+
+/**
+ * Taxonomy used until one is configured: one category per service, seeded from the
+ * service keywords used to match customer reasons
+ */
+export const DEFAULT_ISSUE_TAXONOMY: IssueCategory[] = [
+  ...Object.keys(SERVICE_KEYWORDS).map(code => ({
+    code,
+    label: CATEGORY_LABELS[code] || code,
+    keywords: SERVICE_KEYWORDS[code],
+    subcategories: (DEFAULT_SUBCATEGORIES[code] || []).map(([subCode, label, keywords]) => ({
+      code: subCode,
+      label,
+      keywords
+    }))
+  })),
+  { code: OTHER_ISSUE_CODE, label: 'Other', keywords: [], subcategories: [] }
+].map(category => resolveIssueCategory(category))
+
+/**
+ * Normalize codes and make sure every category has an 'other' subcategory
+ */
+export function resolveIssueTaxonomy(categories: Array<Partial<IssueCategory>>): IssueCategory[] {
+  return categories.map(category => resolveIssueCategory(category))
+}
+
+/**
+ * Validate an issue taxonomy, returning an error message or null
+ */
+export function validateIssueTaxonomy(categories: IssueCategory[]): string | null {
+  if (!Array.isArray(categories) || categories.length === 0) {
+    return 'The taxonomy needs at least one category'
+  }
+  
+  if (categories.length > MAX_ISSUE_CATEGORIES) {
+    return `At most ${MAX_ISSUE_CATEGORIES} categories are supported`
+  }
+  
+  const codes = new Set<string>()
+  for (const category of categories) {
+    if (!isValidCode(category.code) || !category.label) {
+      return 'Every category needs a label and a code of lowercase letters, digits and dashes'
+    }
+    if (codes.has(category.code)) {
+      return `Duplicate category code: ${category.code}`
+    }
+    codes.add(category.code)
+    
+    if (category.subcategories.length > MAX_ISSUE_SUBCATEGORIES + 1) {
+      return `Category ${category.code} has more than ${MAX_ISSUE_SUBCATEGORIES} subcategories`
+    }
+    
+    const subcategoryCodes = new Set<string>()
+    for (const subcategory of category.subcategories) {
+      if (!isValidCode(subcategory.code) || !subcategory.label) {
+        return `Every subcategory of ${category.code} needs a label and a code of lowercase letters, digits and dashes`
+      }
+      if (subcategoryCodes.has(subcategory.code)) {
+        return `Duplicate subcategory code in ${category.code}: ${subcategory.code}`
+      }
+      subcategoryCodes.add(subcategory.code)
+    }
+  }
+  
+  return null
+}
+
+/**
+ * The configured taxonomy, or the default one if none has been saved
+ */
+export async function getIssueTaxonomy(): Promise<IssueCategory[]> {
+  const categories = await Database.getInstance().getIssueTaxonomy()
+  return categories.length > 0 ? categories : DEFAULT_ISSUE_TAXONOMY
+}
+
+export function getIssueCode(category: string, subcategory: string): string {
+  return `${category}.${subcategory}`
+}
+
+/**
+ * Every 'category.subcategory' code with its labels, as listed to the AI
+ */
+export function listIssueCodes(categories: IssueCategory[]): Array<{ code: string; label: string }> {
+  const codes: Array<{ code: string; label: string }> = []
+  
+  for (const category of categories) {
+    for (const subcategory of category.subcategories) {
+      codes.push({
+        code: getIssueCode(category.code, subcategory.code),
+        label: `${category.label} / ${subcategory.label}`
+      })
+    }
+  }
+  
+  return codes
+}
+
+/**
+ * Check classifications returned by the AI against the taxonomy. Unknown codes fall back
+ * to the category's 'other' subcategory, or to keyword matching when the category is unknown too.
+ */
+export function normalizeIssueClassifications(
+  raw: Array<{ issue?: string; code?: string; confidence?: number }>,
+  categories: IssueCategory[]
+): IssueClassification[] {
+  const classifications: IssueClassification[] = []
+  
+  for (const entry of raw) {
+    const issue = String(entry.issue || '').trim()
+    if (!issue) continue
+    
+    const [categoryCode, subcategoryCode] = String(entry.code || '').toLowerCase().split('.')
+    const category = categories.find(candidate => candidate.code === categoryCode)
+    if (!category) {
+      classifications.push(classifyIssueByKeywords(issue, categories))
+      continue
+    }
+    
+    const subcategory = category.subcategories.find(candidate => candidate.code === subcategoryCode)
+    const confidence = Number.isFinite(entry.confidence) ? Math.min(Math.max(Number(entry.confidence), 0), 1) : 0.5
+    
+    classifications.push({
+      issue,
+      code: getIssueCode(category.code, subcategory ? subcategory.code : OTHER_ISSUE_CODE),
+      category: category.code,
+      subcategory: subcategory ? subcategory.code : OTHER_ISSUE_CODE,
+      // An unknown subcategory means the AI wasn't sure where the issue belongs
+      confidence: subcategory ? confidence : Math.min(confidence, 0.5),
+      source: 'ai'
+    })
+  }
+  
+  return classifications
+}
+
+/**
+ * Map an issue onto the taxonomy by keywords, for when the AI isn't available
+ */
+export function classifyIssueByKeywords(issue: string, categories: IssueCategory[]): IssueClassification {
+  const text = issue.toLowerCase()
+  let best: { category: IssueCategory; subcategory?: IssueSubcategory; score: number } | null = null
+  
+  for (const category of categories) {
+    const categoryScore = countKeywordMatches(text, category.keywords)
+    
+    for (const subcategory of category.subcategories) {
+      const subcategoryScore = countKeywordMatches(text, subcategory.keywords)
+      if (subcategoryScore === 0) continue
+      
+      // Subcategory keywords weigh more, they're more specific
+      const score = subcategoryScore * 2 + categoryScore
+      if (!best || score > best.score) best = { category, subcategory, score }
+    }
+    
+    if (categoryScore > 0 && (!best || categoryScore > best.score)) {
+      best = { category, score: categoryScore }
+    }
+  }
+  
+  if (!best) {
+    return {
+      issue,
+      code: getIssueCode(OTHER_ISSUE_CODE, OTHER_ISSUE_CODE),
+      category: OTHER_ISSUE_CODE,
+      subcategory: OTHER_ISSUE_CODE,
+      confidence: 0.1,
+      source: 'keywords'
+    }
+  }
+  
+  const subcategory = best.subcategory ? best.subcategory.code : OTHER_ISSUE_CODE
+  return {
+    issue,
+    code: getIssueCode(best.category.code, subcategory),
+    category: best.category.code,
+    subcategory,
+    confidence: best.subcategory ? 0.6 : 0.4,
+    source: 'keywords'
+  }
+}
+
+/**
+ * Label the database's per-code issue counts with the taxonomy, most frequent first
+ */
+export function rollUpIssues(counts: IssueClassificationCount[], categories: IssueCategory[]): IssueRollUp[] {
+  const total = counts.reduce((sum, count) => sum + count.count, 0)
+  
+  return counts
+    .map(count => {
+      const category = categories.find(candidate => candidate.code === count.category)
+      const subcategory = category?.subcategories.find(candidate => candidate.code === count.subcategory)
+      
+      return {
+        code: count.code,
+        category: count.category,
+        categoryLabel: category?.label || count.category,
+        subcategory: count.subcategory,
+        subcategoryLabel: subcategory?.label || count.subcategory,
+        count: count.count,
+        percentage: Math.round((count.count / total) * 1000) / 10
+      }
+    })
+    .sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Totals per category of rolled-up issues, most frequent first
+ */
+export function rollUpIssueCategories(issues: IssueRollUp[]): IssueReportResponse['byCategory'] {
+  const total = issues.reduce((sum, issue) => sum + issue.count, 0)
+  const categories: Record<string, { category: string; label: string; count: number; percentage: number }> = {}
+  
+  for (const issue of issues) {
+    const existing = categories[issue.category] ||
+      (categories[issue.category] = { category: issue.category, label: issue.categoryLabel, count: 0, percentage: 0 })
+    existing.count += issue.count
+  }
+  
+  return Object.keys(categories)
+    .map(code => ({
+      ...categories[code],
+      percentage: total > 0 ? Math.round((categories[code].count / total) * 1000) / 10 : 0
+    }))
+    .sort((a, b) => b.count - a.count)
+}
+
+function resolveIssueCategory(category: Partial<IssueCategory>): IssueCategory {
+  const subcategories = (category.subcategories || []).map(subcategory => ({
+    code: toCode(subcategory.code || subcategory.label || ''),
+    label: (subcategory.label || subcategory.code || '').trim(),
+    keywords: normalizeKeywords(subcategory.keywords)
+  }))
+  
+  if (!subcategories.some(subcategory => subcategory.code === OTHER_ISSUE_CODE)) {
+    subcategories.push({ code: OTHER_ISSUE_CODE, label: 'Other', keywords: [] })
+  }
+  
+  return {
+    code: toCode(category.code || category.label || ''),
+    label: (category.label || category.code || '').trim(),
+    keywords: normalizeKeywords(category.keywords),
+    subcategories
+  }
+}
+
+function toCode(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+function isValidCode(code: string): boolean {
+  return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(code)
+}
+
+function normalizeKeywords(keywords?: string[]): string[] {
+  return (keywords || []).map(keyword => String(keyword).trim().toLowerCase()).filter(keyword => keyword.length > 0)
+}
+
+function countKeywordMatches(text: string, keywords: string[]): number {
+  return keywords.filter(keyword => text.includes(keyword)).length
+}
\ No newline at end of file
@@ -0,0 +1,203 @@
+import { v4 as uuidv4 } from 'uuid'
+import Database from './database'
+import { Job, JobRunResult, JobType } from '@/types/job'
+
+/**
+ * Storage backend for the job queue
+ */
+export interface JobQueueDriver {
+  insertJob(job: Job): Promise<void>
+  getQueuedJobByDedupeKey(dedupeKey: string): Promise<Job | null>
+  rescheduleJob(id: string, runAt: Date): Promise<void>
+  claimDueJobs(workerId: string, now: Date, limit: number, lockTimeoutMs: number): Promise<Job[]>
+  completeJob(id: string): Promise<void>
+  failJob(id: string, errorMessage: string, retryAt?: Date): Promise<void>
+}
+
+export type JobHandlers = Record<JobType, (job: Job) => Promise<void>>
+
+export interface EnqueueOptions {
+  runAt?: Date
+  delayMs?: number
+  dedupeKey?: string
+  maxAttempts?: number
+}
+
+// A claimed job whose worker hasn't finished within this window is considered abandoned
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * In-memory driver for local development and tests. Jobs do not survive a restart.
+ */
+export class MemoryJobQueueDriver implements JobQueueDriver {
+  private jobs = new Map<string, Job>()
+  
+  async insertJob(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job })
+  }
+  
+  async getQueuedJobByDedupeKey(dedupeKey: string): Promise<Job | null> {
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status === 'queued' && job.dedupeKey === dedupeKey) return { ...job }
+    }
+    return null
+  }
+  
+  async rescheduleJob(id: string, runAt: Date): Promise<void> {
+    const job = this.jobs.get(id)
+    if (!job || job.status !== 'queued') return
+    
+    job.runAt = runAt
+    job.updatedAt = new Date()
+  }
+  
+  async claimDueJobs(workerId: string, now: Date, limit: number, lockTimeoutMs: number): Promise<Job[]> {
+    const staleBefore = now.getTime() - lockTimeoutMs
+    
+    const due = Array.from(this.jobs.values())
+      .filter(job => job.runAt.getTime() <= now.getTime() && (
+        job.status === 'queued' ||
+        (job.status === 'running' && job.lockedAt !== undefined && job.lockedAt.getTime() < staleBefore)
+      ))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit)
+    
+    return due.map(job => {
+      job.status = 'running'
+      job.attempts++
+      job.lockedBy = workerId
+      job.lockedAt = now
+      job.updatedAt = now
+      return { ...job }
+    })
+  }
+  
+  async completeJob(id: string): Promise<void> {
+    const job = this.jobs.get(id)
+    if (!job) return
+    
+    job.status = 'completed'
+    job.lockedBy = undefined
+    job.lockedAt = undefined
+    job.updatedAt = new Date()
+  }
+  
+  async failJob(id: string, errorMessage: string, retryAt?: Date): Promise<void> {
+    const job = this.jobs.get(id)
+    if (!job) return
+    
+    // Like the unique index on queued dedupe keys: a newer queued job supersedes this one
+    const superseded = !!retryAt && !!job.dedupeKey && !!(await this.getQueuedJobByDedupeKey(job.dedupeKey))
+    
+    job.status = superseded ? 'completed' : retryAt ? 'queued' : 'failed'
+    job.runAt = retryAt || job.runAt
+    job.lastError = errorMessage
+    job.lockedBy = undefined
+    job.lockedAt = undefined
+    job.updatedAt = new Date()
+  }
+  
+  /**
+   * All jobs, for inspecting queue state in tests
+   */
+  getJobs(): Job[] {
+    return Array.from(this.jobs.values()).map(job => ({ ...job }))
+  }
+}
+
+/**
+ * Persisted job queue. Work is enqueued with a run time and executed by
+ * whichever worker invocation (tick endpoint or cron) claims it first.
+ */
+export class JobQueue {
+  private static instance: JobQueue
+  private driver: JobQueueDriver
+  private workerId: string
+  
+  constructor(driver: JobQueueDriver) {
+    this.driver = driver
+    this.workerId = `worker-${uuidv4()}`
+  }
+  
+  static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      const driver = process.env.JOB_QUEUE_DRIVER === 'memory'
+        ? new MemoryJobQueueDriver()
+        : Database.getInstance()
+      JobQueue.instance = new JobQueue(driver)
+    }
+    return JobQueue.instance
+  }
+  
+  /**
+   * Schedule a job. With a dedupe key, an already queued job with the same key is reused
+   * and brought forward if it would run later than requested.
+   */
+  async enqueue(type: JobType, payload: Record<string, any>, options: EnqueueOptions = {}): Promise<string> {
+    const now = new Date()
+    const runAt = options.runAt || new Date(now.getTime() + (options.delayMs || 0))
+    
+    if (options.dedupeKey) {
+      const existing = await this.driver.getQueuedJobByDedupeKey(options.dedupeKey)
+      if (existing) {
+        if (existing.runAt.getTime() > runAt.getTime()) {
+          await this.driver.rescheduleJob(existing.id, runAt)
+        }
+        return existing.id
+      }
+    }
+    
+    const job: Job = {
+      id: uuidv4(),
+      type,
+      payload,
+      status: 'queued',
+      runAt,
+      attempts: 0,
+      maxAttempts: options.maxAttempts || 3,
+      dedupeKey: options.dedupeKey,
+      createdAt: now,
+      updatedAt: now
+    }
+    
+    await this.driver.insertJob(job)
+    console.log(`[JobQueue] Enqueued ${type} job ${job.id} for ${job.runAt.toISOString()}`)
+    
+    return job.id
+  }
+  
+  /**
+   * Claim and run due jobs. Failed jobs are retried with backoff until maxAttempts.
+   */
+  async runDueJobs(handlers: JobHandlers, limit = 10): Promise<JobRunResult> {
+    const jobs = await this.driver.claimDueJobs(this.workerId, new Date(), limit, LOCK_TIMEOUT_MS)
+    const result: JobRunResult = { claimed: jobs.length, completed: 0, failed: 0 }
+    
+    for (const job of jobs) {
+      try {
+        await handlers[job.type](job)
+        await this.driver.completeJob(job.id)
+        result.completed++
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`[JobQueue] ${job.type} job ${job.id} failed (attempt ${job.attempts}):`, error)
+        
+        const retryAt = job.attempts < job.maxAttempts
+          ? new Date(Date.now() + Math.pow(2, job.attempts) * 1000)
+          : undefined
+        
+        // The other claimed jobs still run; this one is picked up again once its lock times out
+        try {
+          await this.driver.failJob(job.id, message, retryAt)
+        } catch (failError) {
+          console.error(`[JobQueue] Failed to record the failure of ${job.type} job ${job.id}:`, failError)
+        }
+        result.failed++
+      }
+    }
+    
+    return result
+  }
+}
+
+export default JobQueue
\ No newline at end of file
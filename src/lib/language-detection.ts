@@ -0,0 +1,71 @@
+import { getSupportedLocale } from './voice-settings'
+
+// Scripts that give a language away on their own
+const SCRIPT_LANGUAGES: Array<{ pattern: RegExp; language: string }> = [
+  { pattern: /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/g, language: 'ar' },
+  { pattern: /[\u0900-\u097F]/g, language: 'hi' }
+]
+
+// Common words that tell Latin-script languages apart. Greetings and yes/no are in, as first
+// answers are often nothing more.
+const LATIN_LANGUAGE_WORDS: Record<string, string[]> = {
+  en: [
+    'the', 'and', 'is', 'it', 'i', 'you', 'my', 'was', 'to', 'of', 'with', 'have', 'that', 'this',
+    'yes', 'yeah', 'no', 'hello', 'hi', 'thanks', 'thank', 'okay', 'for', 'but', 'they', 'your',
+    'because', 'what', 'very', 'bank', 'account'
+  ],
+  fr: [
+    'le', 'la', 'les', 'et', 'est', 'je', 'vous', 'mon', 'ma', 'mes', 'pas', 'avec', 'une', 'des',
+    'que', 'oui', 'non', 'bonjour', 'merci', 'allô', 'salut', 'd\'accord', 'pour', 'mais', 'très',
+    'suis', 'c\'est', 'j\'ai', 'banque', 'compte', 'parce'
+  ]
+}
+
+// Locale a call switches to for a language the customer speaks
+const LANGUAGE_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  ar: 'ar-SA',
+  fr: 'fr-FR',
+  hi: 'hi-IN'
+}
+
+// Spaces, digits and punctuation, Arabic punctuation included
+const NON_LETTERS = /[\s\d.,!?;:'"’‘()\-\u060C\u061F]/g
+const WORD_SEPARATORS = /[\s\d.,!?;:"()\-\u060C\u061F]+/
+
+/**
+ * Language subtag ('en', 'ar', ...) of what the customer said, or null when it can't be told
+ */
+export function detectLanguage(utterance: string): string | null {
+  const letters = utterance.replace(NON_LETTERS, '')
+  if (letters.length === 0) return null
+  
+  // Speech recognized in another script is that language, whatever the recognizer was set to
+  for (const { pattern, language } of SCRIPT_LANGUAGES) {
+    const matches = letters.match(pattern)
+    if (matches && matches.length * 2 >= letters.length) return language
+  }
+  
+  const words = utterance.toLowerCase().replace(/[’‘]/g, '\'').split(WORD_SEPARATORS)
+  const scores = Object.keys(LATIN_LANGUAGE_WORDS).map(language => ({
+    language,
+    matches: words.filter(word => LATIN_LANGUAGE_WORDS[language].includes(word)).length
+  })).sort((a, b) => b.matches - a.matches)
+  
+  // No telling word, or a tie, means the answer is too short or too mixed to tell
+  if (scores[0].matches === 0 || scores[0].matches === scores[1].matches) return null
+  return scores[0].language
+}
+
+/**
+ * Locale the call continues in after the customer's answer: the current one when they speak
+ * its language, a supported locale of the language they speak otherwise. Null when the
+ * language can't be detected or isn't supported.
+ */
+export function detectCustomerLocale(utterance: string, currentLocale: string): string | null {
+  const language = detectLanguage(utterance)
+  if (!language) return null
+  
+  if (currentLocale.split('-')[0].toLowerCase() === language) return currentLocale
+  return getSupportedLocale(LANGUAGE_LOCALES[language])
+}
\ No newline at end of file
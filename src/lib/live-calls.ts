@@ -0,0 +1,72 @@
+import Database from './database'
+import { ConversationContext } from './openai-client'
+import { DEFAULT_CONVERSATION_POLICY } from './conversation-policy'
+import { Call, ConversationPolicy } from '@/types/call'
+import { LiveCall, LiveConversation } from '@/types/api'
+
+/**
+ * The customer-facing part of a conversation as it stands, without the system prompt
+ */
+export function formatLiveConversation(context: ConversationContext, updatedAt?: Date): LiveConversation {
+  const transcript = context.conversationHistory
+    .filter(message => message.role !== 'system')
+    .map(message => ({
+      role: message.role as 'user' | 'assistant',
+      content: message.content,
+      timestamp: new Date(message.timestamp).toISOString(),
+      interrupted: message.interrupted || undefined
+    }))
+  
+  return {
+    callId: context.callId,
+    campaignId: context.campaignId,
+    turnCount: transcript.filter(message => message.role === 'user').length,
+    coveredTopics: context.coveredTopics || [],
+    transcript,
+    lastActivityAt: (updatedAt || (transcript.length > 0 ? new Date(transcript[transcript.length - 1].timestamp) : undefined))?.toISOString()
+  }
+}
+
+/**
+ * An in-progress call with its transcript so far. Calls still ringing have no conversation yet.
+ */
+export function formatLiveCall(
+  call: Call,
+  conversation: { context: ConversationContext; updatedAt: Date } | undefined,
+  policy: ConversationPolicy,
+  now = new Date()
+): LiveCall {
+  const live = conversation
+    ? formatLiveConversation(conversation.context, conversation.updatedAt)
+    : { callId: call.id, campaignId: call.campaignId, turnCount: 0, coveredTopics: [], transcript: [] }
+  
+  return {
+    ...live,
+    customerName: call.customerName,
+    customerPhone: call.customerPhone,
+    status: call.status,
+    startedAt: call.startedAt?.toISOString(),
+    elapsedSeconds: call.startedAt ? Math.max(0, Math.round((now.getTime() - call.startedAt.getTime()) / 1000)) : 0,
+    maxTurns: policy.maxTurns,
+    maxDurationSeconds: policy.maxDurationSeconds,
+    requiredTopics: policy.requiredTopics
+  }
+}
+
+/**
+ * Every in-progress call, optionally of one campaign, with its live transcript
+ */
+export async function getLiveCalls(campaignId?: string): Promise<LiveCall[]> {
+  const db = Database.getInstance()
+  const calls = await db.getActiveCalls(campaignId)
+  const conversations = await db.getConversationsByCallIds(calls.map(call => call.id))
+  
+  const policies: Record<string, ConversationPolicy> = {}
+  const campaigns = await db.getCampaignsByIds(Array.from(new Set(calls.map(call => call.campaignId))))
+  for (const campaign of campaigns) {
+    policies[campaign.id] = campaign.conversationPolicy
+  }
+  
+  const now = new Date()
+  return calls.map(call => formatLiveCall(call, conversations[call.id], policies[call.campaignId] || DEFAULT_CONVERSATION_POLICY, now))
+}
\ No newline at end of file
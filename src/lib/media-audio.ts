@@ -0,0 +1,97 @@
+// Twilio Media Streams carry 8 kHz mono μ-law audio
+export const MULAW_SAMPLE_RATE = 8000
+
+// 20 ms of audio, the frame size Twilio sends and expects back
+export const MULAW_FRAME_BYTES = 160
+
+// μ-law byte for silence
+export const MULAW_SILENCE = 0xff
+
+const MULAW_BIAS = 0x84
+const MULAW_CLIP = 32635
+
+/**
+ * Decode μ-law bytes to 16-bit PCM samples
+ */
+export function decodeMulaw(bytes: Uint8Array): Int16Array {
+  const samples = new Int16Array(bytes.length)
+  
+  for (let i = 0; i < bytes.length; i++) {
+    const value = ~bytes[i] & 0xff
+    const exponent = (value >> 4) & 0x07
+    const magnitude = ((((value & 0x0f) << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS
+    samples[i] = value & 0x80 ? -magnitude : magnitude
+  }
+  
+  return samples
+}
+
+/**
+ * Encode 16-bit PCM samples as μ-law bytes
+ */
+export function encodeMulaw(samples: Int16Array): Uint8Array {
+  const bytes = new Uint8Array(samples.length)
+  
+  for (let i = 0; i < samples.length; i++) {
+    const sign = samples[i] < 0 ? 0x80 : 0
+    const sample = Math.min(Math.abs(samples[i]), MULAW_CLIP) + MULAW_BIAS
+    
+    let exponent = 7
+    for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) {
+      exponent--
+    }
+    
+    const mantissa = (sample >> (exponent + 3)) & 0x0f
+    bytes[i] = ~(sign | (exponent << 4) | mantissa) & 0xff
+  }
+  
+  return bytes
+}
+
+/**
+ * Lower the sample rate by averaging the samples that fall into each output sample
+ */
+export function downsamplePcm(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate <= toRate) return samples
+  
+  const ratio = fromRate / toRate
+  const output = new Int16Array(Math.floor(samples.length / ratio))
+  
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio)
+    const end = Math.min(Math.floor((i + 1) * ratio), samples.length)
+    
+    let sum = 0
+    for (let j = start; j < end; j++) sum += samples[j]
+    output[i] = Math.round(sum / Math.max(end - start, 1))
+  }
+  
+  return output
+}
+
+/**
+ * Read little-endian 16-bit PCM, as returned by speech synthesis
+ */
+export function pcmFromBytes(bytes: Uint8Array): Int16Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const samples = new Int16Array(Math.floor(bytes.byteLength / 2))
+  
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true)
+  }
+  
+  return samples
+}
+
+/**
+ * Split μ-law audio into the 20 ms frames sent to Twilio
+ */
+export function splitIntoFrames(audio: Uint8Array): Uint8Array[] {
+  const frames: Uint8Array[] = []
+  
+  for (let offset = 0; offset < audio.length; offset += MULAW_FRAME_BYTES) {
+    frames.push(audio.subarray(offset, offset + MULAW_FRAME_BYTES))
+  }
+  
+  return frames
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { IncomingMessage } from 'http'
+import WebSocket, { WebSocketServer } from 'ws'
+import { MediaStreamSession } from './media-stream-session'
+import { OutboundStreamMessage, TwilioStreamMessage } from '@/types/media-stream'
+
+// Path of the stream URL in the TwiML
+export const MEDIA_STREAM_PATH = '/api/calls/stream'
+
+export interface MediaStreamServerOptions {
+  port: number
+  createSession: (send: (message: OutboundStreamMessage) => void) => MediaStreamSession
+  verifyRequest?: (request: IncomingMessage) => boolean // Checked before the WebSocket upgrade
+}
+
+/**
+ * WebSocket server for Twilio Media Streams, one session per call. Next.js route handlers
+ * can't accept WebSocket upgrades, so this runs as its own long-lived process.
+ */
+export function createMediaStreamServer(options: MediaStreamServerOptions): WebSocketServer {
+  const server = new WebSocketServer({
+    port: options.port,
+    path: MEDIA_STREAM_PATH,
+    verifyClient: options.verifyRequest ? ({ req }) => options.verifyRequest!(req) : undefined
+  })
+  
+  server.on('connection', (socket: WebSocket) => {
+    const session = options.createSession((message) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message))
+      }
+    })
+    
+    socket.on('message', (data) => {
+      let message: TwilioStreamMessage
+      try {
+        message = JSON.parse(data.toString())
+      } catch (error) {
+        console.warn('[MediaStream] Ignoring message that is not JSON')
+        return
+      }
+      
+      session.handleMessage(message)
+    })
+    
+    socket.on('close', () => session.close())
+    socket.on('error', (error) => console.error('[MediaStream] Socket error:', error))
+  })
+  
+  return server
+}
\ No newline at end of file
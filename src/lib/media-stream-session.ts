@@ -0,0 +1,355 @@
+import { CustomerTurnResult } from './call-orchestrator'
+import { getCallPrompt } from './call-prompts'
+import { splitIntoFrames } from './media-audio'
+import { SpeechRecognition, SpeechSynthesizer, SpeechTranscriber, splitIntoSentences } from './speech-stream'
+import { OutboundStreamMessage, TwilioStreamMessage } from '@/types/media-stream'
+import { SurveyQuestion } from '@/types/survey'
+
+/**
+ * The conversation a media stream drives - the call orchestrator
+ */
+export interface StreamConversation {
+  getOpeningMessage(callId: string): Promise<string>
+  handleCustomerInput(callId: string, input: string, onReplyText?: (text: string) => void): Promise<CustomerTurnResult>
+  answerSurveyQuestion(
+    callId: string,
+    questionId: string,
+    input: string,
+    source: 'speech' | 'dtmf',
+    attempt?: number
+  ): Promise<CustomerTurnResult>
+  handleKeyPress(callId: string, digits: string): Promise<CustomerTurnResult | null>
+  markReplyInterrupted(callId: string, heardContent?: string): Promise<void>
+}
+
+export interface MediaStreamSessionOptions {
+  conversation: StreamConversation
+  transcriber: SpeechTranscriber
+  synthesizer: SpeechSynthesizer
+  send: (message: OutboundStreamMessage) => void
+  hangUp: (callSid: string) => Promise<void> // Ends the call once the last message has played
+}
+
+// Silence after the bot finished speaking before the call is closed, like the <Gather> timeout
+const NO_INPUT_TIMEOUT_MS = 30 * 1000
+
+// Wait for a second key press when a score can take two digits
+const DTMF_DIGIT_TIMEOUT_MS = 2000
+
+// Text of a reply being generated up to its last finished sentence
+const FINISHED_SENTENCES_PATTERN = /^[\s\S]*[.!?؟]\s/
+
+/**
+ * One call's conversation over a Twilio Media Stream: customer audio is transcribed as it
+ * arrives, each utterance drives the orchestrator, and the reply is synthesized and streamed
+ * back sentence by sentence - the first sentence plays while the AI is still writing the rest.
+ * Turns run one at a time, in the order the customer spoke. Speaking over the bot (barge-in)
+ * stops its reply as soon as the first words are recognized - a cough or line noise doesn't.
+ */
+export class MediaStreamSession {
+  private recognition: SpeechRecognition | null = null
+  private streamSid = ''
+  private callSid = ''
+  private callId = ''
+  private locale?: string // Language of the call; follows the customer when they switch
+  private question?: { question: SurveyQuestion; attempt: number } // Survey question waiting for an answer
+  private turns: Promise<void> = Promise.resolve()
+  private pendingMarks: Array<{ name: string; sentence: string }> = [] // Audio sent to Twilio that hasn't finished playing
+  private markCount = 0
+  private speaking = false // Sentences of a reply are still being synthesized
+  private heardSentences: string[] = [] // Sentences of the current reply that have played
+  private queuedSentences = 0 // Sentences of the current reply handed to the synthesizer
+  private sending: Promise<void> = Promise.resolve() // Sentences of the current reply going out, in order
+  private interrupted = false // The customer barged in on the current reply
+  private digits = ''
+  private digitTimer: ReturnType<typeof setTimeout> | null = null
+  private noInputTimer: ReturnType<typeof setTimeout> | null = null
+  private hangUpAfterPlayback = false
+  private ended = false
+  
+  constructor(private options: MediaStreamSessionOptions) {}
+  
+  /**
+   * Handle one message received from Twilio
+   */
+  handleMessage(message: TwilioStreamMessage): void {
+    switch (message.event) {
+      case 'start':
+        this.streamSid = message.start.streamSid
+        this.callSid = message.start.callSid
+        this.callId = message.start.customParameters.callId || ''
+        this.locale = message.start.customParameters.locale
+        this.recognition = this.options.transcriber.start({
+          onSpeechStart: () => this.handleSpeechStart(),
+          onPartialTranscript: (text) => this.handlePartialTranscript(text),
+          onTranscript: (text) => this.handleTranscript(text)
+        })
+        console.log(`[MediaStream] Stream ${this.streamSid} started for call ${this.callId}`)
+        this.enqueueTurn(async () => {
+          await this.speak(await this.options.conversation.getOpeningMessage(this.callId))
+        })
+        break
+        
+      case 'media':
+        if (!this.ended && this.recognition && message.media.track !== 'outbound') {
+          this.recognition.write(new Uint8Array(Buffer.from(message.media.payload, 'base64')))
+        }
+        break
+        
+      case 'mark':
+        this.handlePlaybackMark(message.mark.name)
+        break
+        
+      case 'dtmf':
+        this.handleDigit(message.dtmf.digit)
+        break
+        
+      case 'stop':
+        console.log(`[MediaStream] Stream ${this.streamSid} stopped`)
+        this.close()
+        break
+    }
+  }
+  
+  /**
+   * Stop timers once the stream is gone
+   */
+  close(): void {
+    if (this.ended) return
+    this.ended = true
+    this.recognition?.close()
+    this.clearNoInputTimer()
+    if (this.digitTimer) clearTimeout(this.digitTimer)
+  }
+  
+  /**
+   * Whether bot audio sent to Twilio is still playing
+   */
+  isPlaying(): boolean {
+    return this.pendingMarks.length > 0
+  }
+  
+  private handleSpeechStart(): void {
+    this.clearNoInputTimer()
+  }
+  
+  /**
+   * Stop the reply the customer is talking over: drop its unplayed audio and record what was heard
+   */
+  private bargeIn(): void {
+    const heardContent = this.heardSentences.join(' ')
+    console.log(`[MediaStream] Customer barged in after: ${heardContent.substring(0, 100) || '(nothing)'}`)
+    
+    this.interrupted = true
+    this.pendingMarks = []
+    this.options.send({ event: 'clear', streamSid: this.streamSid })
+    
+    // Queued ahead of the customer's words, so the next turn sees the cut-off reply
+    this.enqueueTurn(() => this.options.conversation.markReplyInterrupted(this.callId, heardContent))
+  }
+  
+  /**
+   * Words recognized while the customer is still talking. The first ones stop the bot's reply;
+   * the closing message always plays to the end.
+   */
+  private handlePartialTranscript(text: string): void {
+    if (this.ended || !text) return
+    
+    if ((this.isPlaying() || this.speaking) && !this.interrupted && !this.hangUpAfterPlayback) {
+      this.bargeIn()
+    }
+  }
+  
+  private handleTranscript(text: string): void {
+    if (this.ended) return
+    
+    // Noise, not words: keep waiting for an answer
+    if (!text) {
+      if (!this.isPlaying() && !this.speaking) this.startNoInputTimer()
+      return
+    }
+    
+    console.log(`[MediaStream] Customer said: ${text.substring(0, 200)}`)
+    this.handlePartialTranscript(text)
+    this.enqueueTurn(() => this.respond(text, 'speech'))
+  }
+  
+  private handleDigit(digit: string): void {
+    if (this.ended) return
+    this.clearNoInputTimer()
+    if (this.digitTimer) clearTimeout(this.digitTimer)
+    
+    // Scores can take two keys, ended early with #
+    const maxDigits = this.question?.question.type === 'nps' ? 2 : 1
+    if (digit !== '#') this.digits += digit
+    
+    if (digit === '#' || this.digits.length >= maxDigits) {
+      this.submitDigits()
+    } else {
+      this.digitTimer = setTimeout(() => this.submitDigits(), DTMF_DIGIT_TIMEOUT_MS)
+    }
+  }
+  
+  private submitDigits(): void {
+    const digits = this.digits
+    this.digits = ''
+    this.digitTimer = null
+    
+    if (digits) this.enqueueTurn(() => this.respond(digits, 'dtmf'))
+  }
+  
+  /**
+   * Run the orchestrator for one customer answer and speak its reply
+   */
+  private async respond(input: string, source: 'speech' | 'dtmf'): Promise<void> {
+    if (this.ended || this.hangUpAfterPlayback) return
+    
+    const { conversation } = this.options
+    const pending = this.question
+    let result: CustomerTurnResult
+    
+    if (pending) {
+      result = await conversation.answerSurveyQuestion(this.callId, pending.question.id, input, source, pending.attempt)
+    } else if (source === 'dtmf') {
+      const keyResult = await conversation.handleKeyPress(this.callId, input)
+      if (!keyResult) return
+      result = keyResult
+    } else {
+      result = await conversation.handleCustomerInput(this.callId, input, (text) => this.speakStreamedText(text))
+    }
+    
+    this.question = result.question ? { question: result.question, attempt: result.questionAttempt || 0 } : undefined
+    if (result.endCall) this.hangUpAfterPlayback = true
+    if (result.locale) this.locale = result.locale
+    
+    // A streamed reply has its first sentences on the way already
+    if (!this.speaking) this.startReply()
+    const sentences = splitIntoSentences(result.message)
+    sentences.slice(result.streamed ? this.queuedSentences : 0).forEach(sentence => this.queueSentence(sentence))
+    await this.finishReply()
+  }
+  
+  /**
+   * Speak the finished sentences of a reply that is still being generated
+   */
+  private speakStreamedText(text: string): void {
+    if (this.ended) return
+    if (!this.speaking) this.startReply()
+    
+    const finished = text.match(FINISHED_SENTENCES_PATTERN)
+    const sentences = finished ? splitIntoSentences(finished[0]) : []
+    sentences.slice(this.queuedSentences).forEach(sentence => this.queueSentence(sentence))
+  }
+  
+  /**
+   * Synthesize and stream a message, one sentence at a time
+   */
+  private async speak(text: string): Promise<void> {
+    this.startReply()
+    splitIntoSentences(text).forEach(sentence => this.queueSentence(sentence))
+    await this.finishReply()
+  }
+  
+  private startReply(): void {
+    this.speaking = true
+    this.interrupted = false
+    this.heardSentences = []
+    this.queuedSentences = 0
+    this.sending = Promise.resolve()
+  }
+  
+  /**
+   * Start synthesizing a sentence of the current reply right away; it goes out after the
+   * sentences before it. Each sentence is followed by a mark, which Twilio echoes back once
+   * it has played.
+   */
+  private queueSentence(sentence: string): void {
+    const audio = this.options.synthesizer.synthesize(sentence)
+    this.queuedSentences++
+    
+    this.sending = this.sending.then(async () => {
+      let frames: Uint8Array[]
+      try {
+        frames = splitIntoFrames(await audio)
+      } catch (error) {
+        console.error('[MediaStream] Speech synthesis failed:', error)
+        return
+      }
+      
+      if (this.ended || this.interrupted) return
+      
+      for (const frame of frames) {
+        this.options.send({
+          event: 'media',
+          streamSid: this.streamSid,
+          media: { payload: Buffer.from(frame).toString('base64') }
+        })
+      }
+      
+      const name = `speech-${++this.markCount}`
+      this.pendingMarks.push({ name, sentence })
+      this.options.send({ event: 'mark', streamSid: this.streamSid, mark: { name } })
+    })
+  }
+  
+  private async finishReply(): Promise<void> {
+    await this.sending
+    this.speaking = false
+    if (!this.isPlaying() && !this.interrupted) this.handlePlaybackFinished()
+  }
+  
+  private handlePlaybackMark(name: string): void {
+    // Marks of audio dropped by a barge-in come back too, and are no longer tracked
+    const played = this.pendingMarks.filter(mark => mark.name === name)[0]
+    if (!played) return
+    
+    this.heardSentences.push(played.sentence)
+    this.pendingMarks = this.pendingMarks.filter(mark => mark !== played)
+    if (!this.isPlaying()) this.handlePlaybackFinished()
+  }
+  
+  private handlePlaybackFinished(): void {
+    if (this.ended || this.speaking) return
+    
+    if (this.hangUpAfterPlayback) {
+      this.endCall()
+      return
+    }
+    
+    this.startNoInputTimer()
+  }
+  
+  /**
+   * Close the call politely if the customer stays silent
+   */
+  private startNoInputTimer(): void {
+    if (this.ended || this.hangUpAfterPlayback) return
+    
+    this.clearNoInputTimer()
+    this.noInputTimer = setTimeout(() => {
+      this.hangUpAfterPlayback = true
+      this.enqueueTurn(() => this.speak(getCallPrompt('noResponse', this.locale)))
+    }, NO_INPUT_TIMEOUT_MS)
+  }
+  
+  private endCall(): void {
+    if (this.ended) return
+    this.close()
+    
+    console.log(`[MediaStream] Hanging up call ${this.callId}`)
+    this.options.hangUp(this.callSid).catch(error => {
+      console.error('[MediaStream] Failed to hang up:', error)
+    })
+  }
+  
+  private clearNoInputTimer(): void {
+    if (this.noInputTimer) clearTimeout(this.noInputTimer)
+    this.noInputTimer = null
+  }
+  
+  private enqueueTurn(turn: () => Promise<void>): void {
+    this.turns = this.turns.then(turn).catch(error => {
+      console.error('[MediaStream] Turn failed:', error)
+    })
+  }
+}
\ No newline at end of file
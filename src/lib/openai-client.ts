@@ -1,4 +1,15 @@
 import OpenAI from 'openai'
+import { BotScript, ConversationPolicy } from '@/types/call'
+import { DEFAULT_CONVERSATION_POLICY, getUncoveredTopics } from './conversation-policy'
+import { BotScriptVariables, DEFAULT_BOT_SCRIPT, getClosingLine, getOpeningLine, renderTemplate } from './bot-script'
+import { getCallPrompt } from './call-prompts'
+import { DEFAULT_VOICE_SETTINGS, getLanguageName } from './voice-settings'
+import { classifyIssueByKeywords, DEFAULT_ISSUE_TAXONOMY, listIssueCodes, normalizeIssueClassifications } from './issue-taxonomy'
+import { SurveyAnswerValue, SurveyQuestion } from '@/types/survey'
+import { IssueCategory, IssueClassification } from '@/types/issue'
+
+// Speech synthesis returns 24 kHz 16-bit mono PCM
+export const SPEECH_SYNTHESIS_SAMPLE_RATE = 24000
 
 export interface ConversationContext {
   callId: string
@@ -12,7 +23,11 @@ export interface ConversationContext {
     role: 'system' | 'user' | 'assistant'
     content: string
     timestamp: Date
+    interrupted?: boolean // Assistant reply the customer talked over
+    heardContent?: string // The part of an interrupted reply that played, when known
   }>
+  coveredTopics?: string[] // Required topics of the conversation policy covered so far
+  locale?: string // Language of the call, from the campaign's voice settings or the customer
 }
 
 export interface AIResponse {
@@ -20,32 +35,76 @@ export interface AIResponse {
   sentiment: 'positive' | 'negative' | 'neutral'
   keyIssues: string[]
   shouldEndCall: boolean
+  coveredTopics: string[] // Required topics the customer has addressed so far
+  streamed?: boolean // The message was passed to onMessageText while it was generated
   summary?: string
   resolution?: string
 }
 
+// JSON escapes of a string value, besides \uXXXX
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }
+
+/**
+ * The "message" of a turn reply that is still being generated, as far as it has arrived.
+ * Null until "readyToEnd" has arrived ahead of it as false - a reply that ends the call may be
+ * replaced by the closing line, so it isn't passed on.
+ */
+export function readStreamedMessage(content: string): string | null {
+  const readyToEnd = content.match(/"readyToEnd"\s*:\s*(true|false)/)
+  const message = content.match(/"message"\s*:\s*"/)
+  if (!readyToEnd || readyToEnd[1] !== 'false' || !message || message.index! < readyToEnd.index!) return null
+  
+  let text = ''
+  for (let i = message.index! + message[0].length; i < content.length; i++) {
+    const char = content[i]
+    if (char === '"') break
+    if (char !== '\\') {
+      text += char
+      continue
+    }
+    
+    // An escape cut off at the end of what has arrived is left for the next chunk
+    const escaped = content[i + 1]
+    if (escaped === undefined) break
+    if (escaped === 'u') {
+      const code = content.substr(i + 2, 4)
+      if (code.length < 4) break
+      text += String.fromCharCode(parseInt(code, 16))
+      i += 5
+    } else {
+      text += JSON_ESCAPES[escaped] || escaped
+      i++
+    }
+  }
+  
+  return text
+}
+
 export class OpenAIClient {
   private client: OpenAI
   
-  constructor() {
+  constructor(client?: OpenAI) {
     const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
+    if (!client && !apiKey) {
       throw new Error('OpenAI API key is required')
     }
     
-    this.client = new OpenAI({ apiKey })
+    this.client = client || new OpenAI({ apiKey })
   }
   
   /**
-   * Generate AI response for voice conversation
+   * Generate AI response for voice conversation. With onMessageText the reply is passed on
+   * as it is generated, once the turn turns out not to end the call.
    */
   async generateResponse(
     customerInput: string,
-    context: ConversationContext
+    context: ConversationContext,
+    policy: ConversationPolicy = DEFAULT_CONVERSATION_POLICY,
+    coveredTopics: string[] = [],
+    script: BotScript = DEFAULT_BOT_SCRIPT,
+    onMessageText?: (text: string) => void
   ): Promise<AIResponse> {
     try {
-      const systemPrompt = this.buildSystemPrompt(context)
-      
       // Add customer input to conversation history
       context.conversationHistory.push({
         role: 'user',
@@ -53,24 +112,40 @@ export class OpenAIClient {
         timestamp: new Date()
       })
       
+      const systemPrompt = this.buildSystemPrompt(context, policy, coveredTopics, script)
+      
       const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
         { role: 'system', content: systemPrompt },
         ...context.conversationHistory.map(msg => ({
           role: msg.role as 'system' | 'user' | 'assistant',
-          content: msg.content
+          content: this.formatHistoryContent(msg)
         }))
       ]
       
-      const completion = await this.client.chat.completions.create({
+      const stream = this.client.beta.chat.completions.stream({
         model: 'gpt-4o-mini',
         messages,
         temperature: 0.7,
-        max_tokens: 100,
+        max_tokens: 150,
         presence_penalty: 0.3,
-        frequency_penalty: 0.3
+        frequency_penalty: 0.3,
+        response_format: { type: 'json_object' }
       })
       
-      const aiMessage = completion.choices[0]?.message?.content || "I understand. Could you tell me more about that?"
+      let streamedMessage = ''
+      if (onMessageText) {
+        stream.on('content', (delta, snapshot) => {
+          const message = readStreamedMessage(snapshot)
+          if (message && message !== streamedMessage) {
+            streamedMessage = message
+            onMessageText(message)
+          }
+        })
+      }
+      
+      const completion = await stream.finalChatCompletion()
+      const turn = this.parseTurnResponse(completion.choices[0]?.message?.content, policy)
+      const aiMessage = turn.message || getCallPrompt('tellMeMore', context.locale)
       
       // Add AI response to conversation history
       context.conversationHistory.push({
@@ -79,17 +154,14 @@ export class OpenAIClient {
         timestamp: new Date()
       })
       
-      // Count customer responses
-      const customerResponseCount = context.conversationHistory.filter(msg => msg.role === 'user').length
-      
-      // SKIP ANALYSIS DURING CALL - just check if we should end based on count
-      const shouldEndCall = customerResponseCount >= 3
-      
+      // SKIP ANALYSIS DURING CALL - the orchestrator decides whether the policy lets the call end
       return {
         message: aiMessage,
         sentiment: 'neutral',  // Will be analyzed at call end
         keyIssues: [],  // Will be analyzed at call end
-        shouldEndCall,
+        shouldEndCall: turn.readyToEnd,
+        coveredTopics: Array.from(new Set([...coveredTopics, ...turn.coveredTopics])),
+        streamed: streamedMessage.length > 0,
         summary: undefined,
         resolution: undefined
       }
@@ -97,19 +169,65 @@ export class OpenAIClient {
     } catch (error) {
       console.error('OpenAI API error:', error)
       return {
-        message: "I apologize, I'm having some technical difficulties. Could you please repeat what you just said?",
+        message: getCallPrompt('repeatAfterError', context.locale),
         sentiment: 'neutral',
         keyIssues: [],
-        shouldEndCall: false
+        shouldEndCall: false,
+        coveredTopics
       }
     }
   }
   
   /**
-   * Build system prompt for the AI assistant
+   * Message content as the model sees it. Interrupted replies are flagged so the model
+   * doesn't assume the customer heard all of them.
+   */
+  private formatHistoryContent(msg: ConversationContext['conversationHistory'][number]): string {
+    if (msg.role !== 'assistant' || !msg.interrupted) return msg.content
+    
+    const heard = msg.heardContent ? `; they only heard: "${msg.heardContent}"` : ''
+    return `[Interrupted by the customer${heard}] ${msg.content}`
+  }
+  
+  /**
+   * Parse the JSON turn reply. Falls back to treating the raw text as the message.
    */
-  private buildSystemPrompt(context: ConversationContext): string {
-    const { customerName, customerReason, bankName, botName, services } = context
+  private parseTurnResponse(
+    content: string | null | undefined,
+    policy: ConversationPolicy
+  ): { message: string; coveredTopics: string[]; readyToEnd: boolean } {
+    if (!content) return { message: '', coveredTopics: [], readyToEnd: false }
+    
+    try {
+      const parsed = JSON.parse(content.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim())
+      const requiredTopics = policy.requiredTopics.map(topic => topic.toLowerCase())
+      
+      return {
+        message: String(parsed.message || ''),
+        // Only keep topics the policy actually asks for
+        coveredTopics: (Array.isArray(parsed.coveredTopics) ? parsed.coveredTopics : [])
+          .map((topic: unknown) => String(topic))
+          .filter((topic: string) => requiredTopics.includes(topic.trim().toLowerCase())),
+        readyToEnd: parsed.readyToEnd === true
+      }
+    } catch (error) {
+      console.warn('Turn response was not JSON, using it as the message')
+      return { message: content, coveredTopics: [], readyToEnd: false }
+    }
+  }
+  
+  /**
+   * Build system prompt for the AI assistant from the campaign's bot script
+   */
+  buildSystemPrompt(
+    context: ConversationContext,
+    policy: ConversationPolicy,
+    coveredTopics: string[],
+    script: BotScript = DEFAULT_BOT_SCRIPT
+  ): string {
+    const { customerReason, bankName, services } = context
+    const locale = context.locale || DEFAULT_VOICE_SETTINGS.locale
+    const persona = renderTemplate(script.systemPrompt, this.getScriptVariables(context))
     
     let reasonContext = ''
     if (customerReason && customerReason.trim()) {
@@ -120,26 +238,33 @@ export class OpenAIClient {
     
     // Count customer messages (excluding system messages)
     const customerMessageCount = context.conversationHistory.filter(msg => msg.role === 'user').length
+    const followUpsLeft = Math.max(policy.maxTurns - customerMessageCount, 0)
+    const uncoveredTopics = getUncoveredTopics(policy, coveredTopics)
+    
+    const topicsSection = policy.requiredTopics.length > 0
+      ? `
+TOPICS TO COVER (one at a time, woven naturally into the conversation):
+${policy.requiredTopics.map(topic => `- ${topic}${uncoveredTopics.includes(topic) ? '' : ' (covered)'}`).join('\n')}
+Do NOT wrap up while any topic is still uncovered.
+`
+      : ''
     
-    return `You are ${botName}, an empathetic and professional customer service AI from ${bankName}. You are conducting a voice call with ${customerName}. ${reasonContext}
+    return `${persona}
 
-CONVERSATION STATUS: Customer has responded ${customerMessageCount} time(s). You should ask a MAXIMUM of 2 follow-up questions, then wrap up the call.
+${reasonContext}
 
-Your primary goals:
-1. Listen empathetically and make the customer feel heard
-2. Understand their specific concerns - discover the real reasons behind their actions
-3. Gather detailed feedback about their experience
-4. DO NOT try to solve problems or offer solutions - just listen and understand
-5. Keep responses EXTREMELY concise - 1-2 sentences maximum (under 30 words)
-6. Ask follow-up questions to get deeper insights (MAX 2 follow-ups)
-7. After 2 follow-up questions, thank them warmly and end the call
+LANGUAGE: Speak only ${getLanguageName(locale)} (${locale}) - every reply is read aloud by a ${getLanguageName(locale)} voice.
 
+CONVERSATION STATUS: Customer has responded ${customerMessageCount} time(s). You can ask at most ${followUpsLeft} more follow-up question(s) before the call ends.
+${topicsSection}
 Services context: ${services.join(', ')}
 
 CALL FLOW:
-- First customer response: Acknowledge briefly and ask 1 short clarifying question
-- Second customer response: Ask 1 more brief follow-up if needed
-- Third customer response: Thank them and wrap up - DO NOT ask more questions
+- Acknowledge each response briefly and ask 1 short follow-up question
+- Use your remaining follow-ups on the most important open points and uncovered topics
+- Once you have understood their concerns and covered every topic, or have no follow-ups left, set readyToEnd - DO NOT ask more questions
+- Don't say goodbye yourself - the call's closing line is spoken for you
+- A reply marked [Interrupted by the customer] was cut off: respond to what they said instead of repeating it, and only bring back the unheard part if it still matters
 
 CRITICAL GUARDRAILS:
 - ONLY discuss: banking, customer service, account changes, financial services
@@ -158,101 +283,26 @@ Guidelines:
 Example responses:
 - "I'm sorry to hear that. What specifically went wrong?"
 - "Thank you for sharing. What would have made it better?"
-- "I understand completely. Thank you so much for your time today, ${customerName}. Your feedback is incredibly valuable."
-
-Remember: Your ONLY job is to LISTEN, UNDERSTAND, and DISCOVER reasons related to their banking experience. Keep it brief - maximum 2 follow-up questions, then end the call gracefully.`
-  }
-  
-  /**
-   * Analyze conversation for sentiment, issues, and completion
-   */
-  private async analyzeConversation(context: ConversationContext): Promise<{
-    sentiment: 'positive' | 'negative' | 'neutral'
-    keyIssues: string[]
-    shouldEndCall: boolean
-    summary?: string
-    resolution?: string
-  }> {
-    try {
-      const conversationText = context.conversationHistory
-        .filter(msg => msg.role !== 'system')
-        .map(msg => `${msg.role}: ${msg.content}`)
-        .join('\n')
-      
-      // Count customer responses
-      const customerResponseCount = context.conversationHistory.filter(msg => msg.role === 'user').length
-      
-      const analysisPrompt = `Analyze this customer service conversation and provide:
+- "I understand completely. What else should we know?"
 
-1. Overall sentiment (positive/negative/neutral)
-2. Key issues mentioned by the customer (list of specific problems)
-3. Whether the call should end (true if customer has responded 3+ times OR seems satisfied with being heard)
-4. If call should end, provide a brief summary
-5. Any resolution or next steps mentioned
-
-Customer has responded ${customerResponseCount} times. If this is 3 or more, shouldEndCall MUST be true.
-
-Conversation:
-${conversationText}
-
-Respond in JSON format:
+RESPONSE FORMAT - reply with JSON only, with the fields in this order:
 {
-  "sentiment": "positive|negative|neutral",
-  "keyIssues": ["issue1", "issue2"],
-  "shouldEndCall": true|false,
-  "summary": "brief summary if ending",
-  "resolution": "any resolution mentioned"
-}`
-      
-      const completion = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: analysisPrompt }],
-        temperature: 0.1,
-        max_tokens: 200
-      })
-      
-      const response = completion.choices[0]?.message?.content
-      if (!response) throw new Error('No analysis response')
-      
-      // Remove markdown code blocks if present
-      const cleanedResponse = response
-        .replace(/```json\s*/g, '')
-        .replace(/```\s*/g, '')
-        .trim()
-      
-      const analysis = JSON.parse(cleanedResponse)
-      
-      // Force end call after 3 customer responses
-      const shouldEndCall = analysis.shouldEndCall || customerResponseCount >= 3
-      
-      return {
-        sentiment: analysis.sentiment || 'neutral',
-        keyIssues: analysis.keyIssues || [],
-        shouldEndCall,
-        summary: analysis.summary,
-        resolution: analysis.resolution
-      }
-      
-    } catch (error) {
-      console.error('Conversation analysis failed:', error)
-      // Force end if too many messages
-      const customerResponseCount = context.conversationHistory.filter(msg => msg.role === 'user').length
-      return {
-        sentiment: 'neutral',
-        keyIssues: [],
-        shouldEndCall: customerResponseCount >= 3,
-        summary: 'Conversation completed'
-      }
-    }
+  "coveredTopics": ["topics from TOPICS TO COVER the customer has addressed so far, exactly as listed"],
+  "readyToEnd": true once the call should wrap up, otherwise false,
+  "message": "what you say to the customer next"
+}
+
+Remember: Your ONLY job is to LISTEN, UNDERSTAND, and DISCOVER reasons related to their banking experience. Keep it brief, then end the call gracefully.`
   }
   
   /**
-   * Generate call summary after completion
+   * Generate call summary after completion, with the key issues mapped onto the issue taxonomy
    */
-  async generateCallSummary(context: ConversationContext): Promise<{
+  async generateCallSummary(context: ConversationContext, taxonomy: IssueCategory[] = DEFAULT_ISSUE_TAXONOMY): Promise<{
     summary: string
     sentiment: 'positive' | 'negative' | 'neutral'
     keyIssues: string[]
+    issueClassifications: IssueClassification[]
     recommendations: string[]
   }> {
     try {
@@ -270,11 +320,15 @@ Services Affected: ${context.services.join(', ')}
 Conversation:
 ${conversationText}
 
+Issue codes:
+${listIssueCodes(taxonomy).map(issueCode => `- ${issueCode.code}: ${issueCode.label}`).join('\n')}
+
 Provide a detailed analysis in JSON format:
 {
   "summary": "2-3 paragraph summary of the key points discussed",
   "sentiment": "overall customer sentiment (positive/negative/neutral)",
   "keyIssues": ["specific issues mentioned by customer"],
+  "issues": [{"issue": "one of the keyIssues", "code": "the issue code that fits it best", "confidence": 0.0-1.0}],
   "recommendations": ["actionable recommendations for the bank based on feedback"]
 }
 
@@ -289,7 +343,7 @@ Focus on:
         model: 'gpt-4o-mini',
         messages: [{ role: 'user', content: summaryPrompt }],
         temperature: 0.3,
-        max_tokens: 500
+        max_tokens: 800
       })
       
       const response = completion.choices[0]?.message?.content
@@ -302,41 +356,134 @@ Focus on:
         .trim()
       
       const summary = JSON.parse(cleanedResponse)
+      const keyIssues: string[] = summary.keyIssues || []
+      const issueClassifications = normalizeIssueClassifications(Array.isArray(summary.issues) ? summary.issues : [], taxonomy)
+      
+      // Key issues the AI left unclassified still get a code
+      for (const issue of keyIssues) {
+        if (!issueClassifications.some(classification => classification.issue === issue)) {
+          issueClassifications.push(classifyIssueByKeywords(issue, taxonomy))
+        }
+      }
       
       return {
         summary: summary.summary || 'Call completed successfully',
         sentiment: summary.sentiment || 'neutral',
-        keyIssues: summary.keyIssues || [],
+        keyIssues,
+        issueClassifications,
         recommendations: summary.recommendations || []
       }
       
     } catch (error) {
       console.error('Summary generation failed:', error)
+      const keyIssues = context.customerReason ? [context.customerReason] : []
       return {
         summary: `Customer ${context.customerName} provided feedback about their experience.${context.customerReason ? ` Reason mentioned: ${context.customerReason}` : ''}`,
         sentiment: 'neutral',
-        keyIssues: context.customerReason ? [context.customerReason] : [],
+        keyIssues,
+        issueClassifications: keyIssues.map(issue => classifyIssueByKeywords(issue, taxonomy)),
         recommendations: ['Follow up with customer service improvements']
       }
     }
   }
   
   /**
-   * Generate closing message for the call
+   * Extract a typed survey answer from speech the simple parser couldn't read.
+   * Returns undefined when the customer didn't answer the question.
    */
-  generateClosingMessage(context: ConversationContext, summary?: string): string {
-    const { customerName, bankName } = context
+  async extractSurveyAnswer(question: SurveyQuestion, speech: string): Promise<SurveyAnswerValue | undefined> {
+    const expected = question.type === 'nps'
+      ? 'a whole number from 0 to 10'
+      : question.type === 'csat'
+        ? 'a whole number from 1 to 5'
+        : question.type === 'yes_no'
+          ? 'true for yes or false for no'
+          : `one of these codes: ${(question.options || []).map(option => `"${option.code}" (${option.label})`).join(', ')}`
     
-    const closingMessages = [
-      `Thank you so much for taking the time to speak with me today, ${customerName}. Your feedback is incredibly valuable to us at ${bankName}, and I want you to know that we've heard everything you've shared. We truly appreciate your honesty.`,
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{
+          role: 'user',
+          content: `A customer was asked: "${question.prompt}"
+They replied: "${speech}"
+
+Reply with JSON only: {"answered": true or false, "value": ${expected}}
+Set "answered" to false if the reply doesn't answer the question.`
+        }],
+        temperature: 0,
+        max_tokens: 50,
+        response_format: { type: 'json_object' }
+      })
       
-      `${customerName}, I really appreciate you sharing your experience with me. Your feedback helps us understand where we can do better. Thank you for giving us this opportunity to listen.`,
+      const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}')
+      if (parsed.answered !== true) return undefined
       
-      `Thank you, ${customerName}, for being so open about your experience. We value your feedback tremendously, and I want you to know that everything you've shared will be passed along to help us improve our services.`
-    ]
+      switch (question.type) {
+        case 'nps':
+          return Number.isInteger(parsed.value) && parsed.value >= 0 && parsed.value <= 10 ? parsed.value : undefined
+        case 'csat':
+          return Number.isInteger(parsed.value) && parsed.value >= 1 && parsed.value <= 5 ? parsed.value : undefined
+        case 'yes_no':
+          return typeof parsed.value === 'boolean' ? parsed.value : undefined
+        case 'multiple_choice':
+          return (question.options || []).some(option => option.code === parsed.value) ? parsed.value : undefined
+        default:
+          return speech
+      }
+      
+    } catch (error) {
+      console.error('Survey answer extraction failed:', error)
+      return undefined
+    }
+  }
+  
+  /**
+   * Generate opening message for the call from the bot script
+   */
+  generateOpeningMessage(context: ConversationContext, script: BotScript = DEFAULT_BOT_SCRIPT): string {
+    return renderTemplate(getOpeningLine(script, context.locale), this.getScriptVariables(context))
+  }
+  
+  /**
+   * Generate closing message for the call from the bot script
+   */
+  generateClosingMessage(context: ConversationContext, script: BotScript = DEFAULT_BOT_SCRIPT): string {
+    return renderTemplate(getClosingLine(script, context.locale), this.getScriptVariables(context))
+  }
+  
+  private getScriptVariables(context: ConversationContext): BotScriptVariables {
+    return {
+      customerName: context.customerName,
+      bankName: context.bankName,
+      botName: context.botName,
+      services: context.services,
+      customerReason: context.customerReason,
+      locale: context.locale
+    }
+  }
+  
+  /**
+   * Closing message after the customer asked not to be called again
+   */
+  generateOptOutMessage(context: ConversationContext): string {
+    const { customerName, bankName, locale } = context
+    
+    return getCallPrompt('optOutClosing', locale, { customerName, bankName })
+  }
+  
+  /**
+   * Synthesize speech for a media stream, as raw PCM at SPEECH_SYNTHESIS_SAMPLE_RATE
+   */
+  async synthesizeSpeech(text: string): Promise<Uint8Array> {
+    const response = await this.client.audio.speech.create({
+      model: 'tts-1',
+      voice: process.env.OPENAI_TTS_VOICE || 'alloy',
+      input: text,
+      response_format: 'pcm'
+    })
     
-    const messageIndex = Math.floor(Math.random() * closingMessages.length)
-    return closingMessages[messageIndex]
+    return new Uint8Array(await response.arrayBuffer())
   }
   
   /**
@@ -0,0 +1,175 @@
+import WebSocket from 'ws'
+import OpenAIClient, { SPEECH_SYNTHESIS_SAMPLE_RATE } from './openai-client'
+import { downsamplePcm, encodeMulaw, MULAW_SAMPLE_RATE, pcmFromBytes } from './media-audio'
+import { SpeechRecognition, SpeechRecognizerEvents, SpeechSynthesizer, SpeechTranscriber } from './speech-stream'
+
+const REALTIME_TRANSCRIPTION_URL = 'wss://api.openai.com/v1/realtime?intent=transcription'
+const TRANSCRIPTION_MODEL = 'gpt-4o-transcribe'
+
+// Server-side voice activity detection, tuned for telephone audio
+const TURN_DETECTION = { type: 'server_vad', threshold: 0.5, prefix_padding_ms: 200, silence_duration_ms: 700 }
+
+// The events of a realtime transcription session this client listens to
+interface RealtimeTranscriptionEvent {
+  type: string
+  item_id?: string
+  previous_item_id?: string | null
+  delta?: string
+  transcript?: string
+  error?: { message?: string }
+}
+
+/**
+ * OpenAI realtime transcription: the call's audio is streamed up as it arrives, OpenAI cuts
+ * it into utterances and sends the words back while the customer is still talking.
+ * The language isn't fixed, so the customer can answer in any language.
+ */
+export class OpenAISpeechTranscriber implements SpeechTranscriber {
+  private apiKey: string
+  
+  constructor(apiKey = process.env.OPENAI_API_KEY) {
+    if (!apiKey) {
+      throw new Error('OpenAI API key is required')
+    }
+    
+    this.apiKey = apiKey
+  }
+  
+  start(events: SpeechRecognizerEvents): SpeechRecognition {
+    const socket = new WebSocket(REALTIME_TRANSCRIPTION_URL, {
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'OpenAI-Beta': 'realtime=v1'
+      }
+    })
+    
+    return new RealtimeTranscription(socket, events)
+  }
+}
+
+/**
+ * One call's transcription session. Utterances can finish transcribing out of order, so
+ * transcripts are held back until the ones spoken before them are delivered.
+ */
+class RealtimeTranscription implements SpeechRecognition {
+  private pendingAudio: string[] = [] // Audio written before the socket opened, base64
+  private utterances: Array<{ itemId: string; text: string; done: boolean }> = [] // In the order they were spoken
+  
+  constructor(private socket: WebSocket, private events: SpeechRecognizerEvents) {
+    socket.on('open', () => {
+      this.send({
+        type: 'transcription_session.update',
+        session: {
+          input_audio_format: 'g711_ulaw',
+          input_audio_transcription: { model: TRANSCRIPTION_MODEL },
+          turn_detection: TURN_DETECTION
+        }
+      })
+      
+      this.pendingAudio.forEach(audio => this.send({ type: 'input_audio_buffer.append', audio }))
+      this.pendingAudio = []
+    })
+    
+    socket.on('message', (data) => {
+      let event: RealtimeTranscriptionEvent
+      try {
+        event = JSON.parse(data.toString())
+      } catch (error) {
+        console.warn('[Transcription] Ignoring message that is not JSON')
+        return
+      }
+      
+      this.handleEvent(event)
+    })
+    
+    socket.on('error', (error) => console.error('[Transcription] Socket error:', error))
+  }
+  
+  write(audio: Uint8Array): void {
+    const encoded = Buffer.from(audio).toString('base64')
+    
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.send({ type: 'input_audio_buffer.append', audio: encoded })
+    } else if (this.socket.readyState === WebSocket.CONNECTING) {
+      this.pendingAudio.push(encoded)
+    }
+  }
+  
+  close(): void {
+    this.socket.close()
+  }
+  
+  private handleEvent(event: RealtimeTranscriptionEvent): void {
+    switch (event.type) {
+      case 'input_audio_buffer.speech_started':
+        this.events.onSpeechStart?.()
+        break
+      
+      case 'input_audio_buffer.committed': {
+        // Placed right after the utterance spoken before it, which may not be delivered yet
+        const index = this.utterances.findIndex(utterance => utterance.itemId === event.previous_item_id)
+        this.utterances.splice(index + 1, 0, { itemId: event.item_id || '', text: '', done: false })
+        break
+      }
+      
+      case 'conversation.item.input_audio_transcription.delta': {
+        const utterance = this.getUtterance(event.item_id)
+        utterance.text += event.delta || ''
+        this.events.onPartialTranscript?.(utterance.text.trim())
+        break
+      }
+      
+      case 'conversation.item.input_audio_transcription.completed': {
+        const utterance = this.getUtterance(event.item_id)
+        utterance.text = event.transcript || ''
+        utterance.done = true
+        this.deliverTranscripts()
+        break
+      }
+      
+      case 'conversation.item.input_audio_transcription.failed': {
+        console.error('[Transcription] Utterance failed:', event.error?.message)
+        const utterance = this.getUtterance(event.item_id)
+        utterance.text = ''
+        utterance.done = true
+        this.deliverTranscripts()
+        break
+      }
+      
+      case 'error':
+        console.error('[Transcription] Error:', event.error?.message)
+        break
+    }
+  }
+  
+  private getUtterance(itemId?: string): { itemId: string; text: string; done: boolean } {
+    let utterance = this.utterances.filter(candidate => candidate.itemId === itemId)[0]
+    if (!utterance) {
+      utterance = { itemId: itemId || '', text: '', done: false }
+      this.utterances.push(utterance)
+    }
+    return utterance
+  }
+  
+  private deliverTranscripts(): void {
+    while (this.utterances.length > 0 && this.utterances[0].done) {
+      this.events.onTranscript(this.utterances.shift()!.text.trim())
+    }
+  }
+  
+  private send(event: Record<string, any>): void {
+    this.socket.send(JSON.stringify(event))
+  }
+}
+
+/**
+ * OpenAI speech synthesis, converted to telephone audio
+ */
+export class OpenAISpeechSynthesizer implements SpeechSynthesizer {
+  constructor(private openaiClient = new OpenAIClient()) {}
+  
+  async synthesize(text: string): Promise<Uint8Array> {
+    const pcm = pcmFromBytes(await this.openaiClient.synthesizeSpeech(text))
+    return encodeMulaw(downsamplePcm(pcm, SPEECH_SYNTHESIS_SAMPLE_RATE, MULAW_SAMPLE_RATE))
+  }
+}
\ No newline at end of file
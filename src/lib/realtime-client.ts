@@ -0,0 +1,44 @@
+import { RealtimeUpdate } from '@/types/api'
+
+export interface RealtimeSubscription {
+  onUpdate: (update: RealtimeUpdate) => void
+  onConnectionChange?: (connected: boolean) => void // false while callers should fall back to polling
+  includeConversations?: boolean // Also receive conversation_update events with live transcripts
+}
+
+/**
+ * Subscribe to the /api/events stream in the browser. Returns a function that unsubscribes.
+ * Where EventSource isn't available the subscription stays disconnected, so callers keep polling.
+ */
+export function subscribeToRealtimeUpdates(campaignId: string | undefined, subscription: RealtimeSubscription): () => void {
+  if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+    subscription.onConnectionChange?.(false)
+    return () => {}
+  }
+  
+  const params = new URLSearchParams()
+  if (campaignId) params.set('campaignId', campaignId)
+  if (subscription.includeConversations) params.set('include', 'conversations')
+  
+  const source = new EventSource(`/api/events${params.toString() ? `?${params.toString()}` : ''}`)
+  
+  const handleMessage = (event: MessageEvent) => {
+    try {
+      subscription.onUpdate(JSON.parse(event.data))
+    } catch (error) {
+      console.error('Invalid realtime update:', error)
+    }
+  }
+  
+  source.addEventListener('call_update', handleMessage as EventListener)
+  source.addEventListener('campaign_update', handleMessage as EventListener)
+  source.addEventListener('conversation_update', handleMessage as EventListener)
+  source.onopen = () => subscription.onConnectionChange?.(true)
+  
+  // EventSource reconnects by itself; updates may be missed until it does
+  source.onerror = () => subscription.onConnectionChange?.(false)
+  
+  return () => {
+    source.close()
+  }
+}
\ No newline at end of file
@@ -0,0 +1,209 @@
+import Database from './database'
+import { formatCallForResponse } from './call-format'
+import { formatCampaignSummary } from './campaign-summary'
+import { formatLiveConversation } from './live-calls'
+import { RealtimeUpdate } from '@/types/api'
+
+// How soon the browser reconnects once a stream ends
+export const REALTIME_RETRY_MS = 1000
+
+// Streams close before serverless time limits; EventSource reconnects on its own
+export const REALTIME_STREAM_MAX_DURATION_MS = 4 * 60 * 1000
+
+// Comment lines keep proxies from dropping an idle connection
+export const REALTIME_KEEP_ALIVE_MS = 15 * 1000
+
+// Changes written by other instances may carry slightly earlier timestamps
+const CLOCK_SKEW_MS = 5000
+
+const CALLS_PER_POLL = 200
+
+/**
+ * Publishes call, campaign and live transcript changes from the code paths that make them
+ * (the orchestrator, Twilio webhooks, API calls), so open streams don't poll the database.
+ * Each change is read back once and broadcast to the streams of every instance.
+ * A failed publish is logged and never fails the change itself.
+ */
+export class RealtimePublisher {
+  constructor(private db = Database.getInstance()) {}
+  
+  /**
+   * A call changed; its campaign's counts moved with it
+   */
+  async publishCallChange(callId: string): Promise<void> {
+    await this.publish(async () => {
+      const call = await this.db.getCallById(callId)
+      if (!call) return []
+      
+      return [{
+        type: 'call_update',
+        campaignId: call.campaignId,
+        callId: call.id,
+        data: formatCallForResponse(call),
+        timestamp: call.updatedAt.toISOString()
+      }, ...await this.getCampaignUpdates(call.campaignId)]
+    })
+  }
+  
+  async publishCampaignChange(campaignId: string): Promise<void> {
+    await this.publish(() => this.getCampaignUpdates(campaignId))
+  }
+  
+  /**
+   * A turn of a live call's transcript was saved
+   */
+  async publishConversationChange(callId: string): Promise<void> {
+    await this.publish(async () => {
+      const context = await this.db.getConversationByCallId(callId)
+      if (!context) return []
+      
+      const now = new Date()
+      return [{
+        type: 'conversation_update',
+        campaignId: context.campaignId,
+        callId,
+        data: formatLiveConversation(context, now),
+        timestamp: now.toISOString()
+      }]
+    })
+  }
+  
+  private async getCampaignUpdates(campaignId: string): Promise<RealtimeUpdate[]> {
+    const campaign = await this.db.getCampaignById(campaignId)
+    if (!campaign) return []
+    
+    const statusCounts = await this.db.getCallStatusCountsByCampaign([campaignId])
+    return [{
+      type: 'campaign_update',
+      campaignId,
+      data: formatCampaignSummary(campaign, statusCounts[campaignId] || {}),
+      timestamp: new Date().toISOString()
+    }]
+  }
+  
+  private async publish(getUpdates: () => Promise<RealtimeUpdate[]>): Promise<void> {
+    try {
+      for (const update of await getUpdates()) {
+        await this.db.publishRealtimeUpdate(update)
+      }
+    } catch (error) {
+      console.error('Failed to publish realtime update:', error)
+    }
+  }
+}
+
+/**
+ * Catches a reconnecting stream up on the call and campaign changes it missed while away,
+ * read back from the database once. Live updates then come from the RealtimePublisher.
+ */
+export class RealtimeFeed {
+  private db = Database.getInstance()
+  private cursor: Date
+  private sent = new Map<string, number>() // 'call:<id>' / 'campaign:<id>' / 'conversation:<call id>' -> updated_at sent
+  private catchingUp = false // The last poll hit the call limit
+  
+  constructor(private campaignId?: string, since = new Date(), private includeConversations = false) {
+    this.cursor = since
+  }
+  
+  /**
+   * Updates for everything that changed since the cursor
+   */
+  async poll(): Promise<RealtimeUpdate[]> {
+    // While catching up on a burst of changes, look back no further than the cursor so every poll makes progress
+    const since = new Date(this.cursor.getTime() - (this.catchingUp ? 0 : CLOCK_SKEW_MS))
+    const updates: RealtimeUpdate[] = []
+    
+    const changedCalls = await this.db.getCallsUpdatedSince(since, this.campaignId, CALLS_PER_POLL)
+    this.catchingUp = changedCalls.length >= CALLS_PER_POLL
+    
+    const calls = changedCalls.filter(call => this.markSent(`call:${call.id}`, call.updatedAt))
+    
+    for (const call of calls) {
+      updates.push({
+        type: 'call_update',
+        campaignId: call.campaignId,
+        callId: call.id,
+        data: formatCallForResponse(call),
+        timestamp: call.updatedAt.toISOString()
+      })
+    }
+    
+    // Call changes move their campaign's counts even when the campaign row itself didn't change
+    const changedCampaignIds = Array.from(new Set(calls.map(call => call.campaignId)))
+    const campaigns = await this.db.getCampaignsUpdatedSince(since, changedCampaignIds, this.campaignId)
+    const campaignsToSend = campaigns.filter(campaign =>
+      changedCampaignIds.includes(campaign.id) || this.markSent(`campaign:${campaign.id}`, campaign.updatedAt)
+    )
+    
+    if (campaignsToSend.length > 0) {
+      const statusCounts = await this.db.getCallStatusCountsByCampaign(campaignsToSend.map(campaign => campaign.id))
+      
+      for (const campaign of campaignsToSend) {
+        this.markSent(`campaign:${campaign.id}`, campaign.updatedAt)
+        updates.push({
+          type: 'campaign_update',
+          campaignId: campaign.id,
+          data: formatCampaignSummary(campaign, statusCounts[campaign.id] || {}),
+          timestamp: new Date().toISOString()
+        })
+      }
+    }
+    
+    // Transcripts of in-progress calls, as the orchestrator saves each turn
+    if (this.includeConversations) {
+      const conversations = (await this.db.getConversationsUpdatedSince(since, this.campaignId))
+        .filter(conversation => this.markSent(`conversation:${conversation.context.callId}`, conversation.updatedAt))
+      
+      for (const conversation of conversations) {
+        updates.push({
+          type: 'conversation_update',
+          campaignId: conversation.context.campaignId,
+          callId: conversation.context.callId,
+          data: formatLiveConversation(conversation.context, conversation.updatedAt),
+          timestamp: conversation.updatedAt.toISOString()
+        })
+        if (conversation.updatedAt > this.cursor) this.cursor = conversation.updatedAt
+      }
+    }
+    
+    for (const call of calls) {
+      if (call.updatedAt > this.cursor) this.cursor = call.updatedAt
+    }
+    for (const campaign of campaigns) {
+      if (campaign.updatedAt > this.cursor) this.cursor = campaign.updatedAt
+    }
+    
+    this.forgetOldChanges(since)
+    return updates
+  }
+  
+  /**
+   * Where to resume after a reconnect
+   */
+  getCursor(): Date {
+    return this.cursor
+  }
+  
+  private markSent(key: string, updatedAt: Date): boolean {
+    const previous = this.sent.get(key)
+    if (previous !== undefined && previous >= updatedAt.getTime()) return false
+    
+    this.sent.set(key, updatedAt.getTime())
+    return true
+  }
+  
+  private forgetOldChanges(before: Date): void {
+    const keys = Array.from(this.sent.keys())
+    for (const key of keys) {
+      if ((this.sent.get(key) || 0) < before.getTime()) this.sent.delete(key)
+    }
+  }
+}
+
+/**
+ * Serialize an update as a Server-Sent Event
+ */
+export function formatServerSentEvent(update: RealtimeUpdate, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}event: ${update.type}\ndata: ${JSON.stringify(update)}\n\n`
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { CallScoreCount } from '@/types/call'
+import { CsatSummary, NpsSummary, ScoreReportResponse } from '@/types/api'
+
+export type NpsCategory = 'promoter' | 'passive' | 'detractor'
+
+/**
+ * Standard NPS buckets: 9-10 promoters, 7-8 passives, 0-6 detractors
+ */
+export function getNpsCategory(score: number): NpsCategory {
+  if (score >= 9) return 'promoter'
+  if (score >= 7) return 'passive'
+  return 'detractor'
+}
+
+/**
+ * Net Promoter Score, the percentage of promoters minus the percentage of detractors
+ */
+export function calculateNps(counts: Record<string, number>): NpsSummary {
+  const summary: NpsSummary = { score: null, responses: 0, promoters: 0, passives: 0, detractors: 0 }
+  
+  for (const score of Object.keys(counts)) {
+    const category = getNpsCategory(Number(score))
+    if (category === 'promoter') summary.promoters += counts[score]
+    else if (category === 'passive') summary.passives += counts[score]
+    else summary.detractors += counts[score]
+    summary.responses += counts[score]
+  }
+  
+  if (summary.responses > 0) {
+    summary.score = Math.round(((summary.promoters - summary.detractors) / summary.responses) * 100)
+  }
+  
+  return summary
+}
+
+/**
+ * CSAT, the percentage of customers who answered 4 (satisfied) or 5 (very satisfied)
+ */
+export function calculateCsat(counts: Record<string, number>): CsatSummary {
+  let responses = 0
+  let satisfied = 0
+  let total = 0
+  
+  for (const score of Object.keys(counts)) {
+    responses += counts[score]
+    total += Number(score) * counts[score]
+    if (Number(score) >= 4) satisfied += counts[score]
+  }
+  
+  if (responses === 0) {
+    return { score: null, average: null, responses: 0 }
+  }
+  
+  return {
+    score: Math.round((satisfied / responses) * 100),
+    average: Math.round((total / responses) * 10) / 10,
+    responses
+  }
+}
+
+// Calls per score of one group of the report
+interface ScoreCounts {
+  nps: Record<string, number>
+  csat: Record<string, number>
+}
+
+/**
+ * Score distribution, NPS/CSAT and their trend per period, service and campaign, from the
+ * database's counts (see Database.getCallScoreCounts)
+ */
+export function buildScoreReport(
+  counts: CallScoreCount[],
+  campaignNames: Record<string, string> = {}
+): ScoreReportResponse {
+  const distribution: ScoreCounts = { nps: {}, csat: {} }
+  for (let score = 0; score <= 10; score++) distribution.nps[String(score)] = 0
+  for (let score = 1; score <= 5; score++) distribution.csat[String(score)] = 0
+  
+  const groups: Record<CallScoreCount['dimension'], Record<string, ScoreCounts>> = {
+    overall: {},
+    trend: {},
+    service: {},
+    campaign: {}
+  }
+  
+  for (const count of counts) {
+    const group = groups[count.dimension][count.key] || (groups[count.dimension][count.key] = { nps: {}, csat: {} })
+    group[count.type][String(count.score)] = count.count
+    if (count.dimension === 'overall') distribution[count.type][String(count.score)] = count.count
+  }
+  
+  return {
+    ...summarizeScores(groups.overall[''] || { nps: {}, csat: {} }),
+    distribution,
+    trend: Object.keys(groups.trend).sort().map(period => ({
+      period,
+      ...summarizeScores(groups.trend[period])
+    })),
+    byService: Object.keys(groups.service)
+      .map(service => ({ service, ...summarizeScores(groups.service[service]) }))
+      .sort((a, b) => (b.nps.responses + b.csat.responses) - (a.nps.responses + a.csat.responses)),
+    byCampaign: Object.keys(groups.campaign)
+      .map(campaignId => ({
+        campaignId,
+        campaignName: campaignNames[campaignId] || campaignId,
+        ...summarizeScores(groups.campaign[campaignId])
+      }))
+      .sort((a, b) => (b.nps.responses + b.csat.responses) - (a.nps.responses + a.csat.responses))
+  }
+}
+
+function summarizeScores(counts: ScoreCounts): { nps: NpsSummary; csat: CsatSummary } {
+  return {
+    nps: calculateNps(counts.nps),
+    csat: calculateCsat(counts.csat)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,215 @@
+import Database from './database'
+import { BotScript, Call, CallCampaign, ScriptVariant, ScriptVariantCount } from '@/types/call'
+import { Script, ScriptDiff, ScriptDiffLine, ScriptVersion } from '@/types/script'
+import { AnalyticsScriptVariant, ScriptResponse, ScriptVariantRequest, ScriptVariantStats, ScriptVersionResponse } from '@/types/api'
+
+// Variants a single campaign can split its calls between
+export const MAX_SCRIPT_VARIANTS = 4
+
+/**
+ * Format a library script for API response
+ */
+export function formatScriptForResponse(script: Script): ScriptResponse {
+  return {
+    id: script.id,
+    name: script.name,
+    description: script.description,
+    latestVersion: script.latestVersion,
+    createdAt: script.createdAt.toISOString(),
+    updatedAt: script.updatedAt.toISOString()
+  }
+}
+
+export function formatScriptVersionForResponse(version: ScriptVersion): ScriptVersionResponse {
+  return {
+    version: version.version,
+    botScript: version.botScript,
+    notes: version.notes,
+    createdAt: version.createdAt.toISOString()
+  }
+}
+
+/**
+ * Validate the script variants requested for a campaign, returning an error message or null
+ */
+export function validateScriptVariantRequests(requests: ScriptVariantRequest[]): string | null {
+  if (!Array.isArray(requests)) {
+    return 'Script variants must be a list'
+  }
+  
+  if (requests.length > MAX_SCRIPT_VARIANTS) {
+    return `At most ${MAX_SCRIPT_VARIANTS} script variants are supported`
+  }
+  
+  for (const request of requests) {
+    if (!request.scriptId) {
+      return 'Every script variant needs a scriptId'
+    }
+    if (request.version !== undefined && (!Number.isInteger(request.version) || request.version < 1)) {
+      return 'Script variant versions must be positive whole numbers'
+    }
+    if (request.weight !== undefined && (!Number.isFinite(request.weight) || request.weight <= 0)) {
+      return 'Script variant weights must be greater than zero'
+    }
+  }
+  
+  return null
+}
+
+/**
+ * Snapshot the requested library script versions as the campaign's variants A, B, ...
+ */
+export async function resolveScriptVariants(
+  requests: ScriptVariantRequest[]
+): Promise<{ variants: ScriptVariant[]; error?: string }> {
+  const db = Database.getInstance()
+  const variants: ScriptVariant[] = []
+  
+  for (let index = 0; index < requests.length; index++) {
+    const request = requests[index]
+    const script = await db.getScriptById(request.scriptId)
+    if (!script) {
+      return { variants: [], error: `Script not found: ${request.scriptId}` }
+    }
+    
+    const versionNumber = request.version ?? script.latestVersion
+    const version = await db.getScriptVersion(script.id, versionNumber)
+    if (!version) {
+      return { variants: [], error: `Script "${script.name}" has no version ${versionNumber}` }
+    }
+    
+    variants.push({
+      id: String.fromCharCode(65 + index),
+      scriptId: script.id,
+      scriptVersion: version.version,
+      scriptName: script.name,
+      botScript: version.botScript,
+      weight: request.weight ?? 1
+    })
+  }
+  
+  return { variants }
+}
+
+/**
+ * Variant id for each of `count` calls. Smooth weighted round robin keeps the split
+ * close to the weights at any point of the list, not just at its end.
+ */
+export function assignScriptVariants(variants: ScriptVariant[], count: number): Array<string | undefined> {
+  if (variants.length === 0) return new Array(count).fill(undefined)
+  
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0)
+  const current = variants.map(() => 0)
+  const assignments: string[] = []
+  
+  for (let i = 0; i < count; i++) {
+    let best = 0
+    for (let v = 0; v < variants.length; v++) {
+      current[v] += variants[v].weight
+      if (current[v] > current[best]) best = v
+    }
+    current[best] -= totalWeight
+    assignments.push(variants[best].id)
+  }
+  
+  return assignments
+}
+
+/**
+ * Bot script a call runs with: its variant's script, or the campaign's own
+ */
+export function getBotScriptForCall(campaign: CallCampaign, call?: Call | null): BotScript {
+  const variant = call?.scriptVariant
+    ? campaign.scriptVariants.find(candidate => candidate.id === call.scriptVariant)
+    : undefined
+  return variant?.botScript || campaign.botScript
+}
+
+/**
+ * Line diff between two versions of a bot script
+ */
+export function diffBotScripts(from: BotScript, to: BotScript): ScriptDiff {
+  return {
+    systemPrompt: diffLines(from.systemPrompt, to.systemPrompt),
+    openingLine: diffLines(from.openingLine, to.openingLine),
+    closingLine: diffLines(from.closingLine, to.closingLine)
+  }
+}
+
+/**
+ * Completion rate, duration and sentiment of each variant, from one campaign's variant counts
+ */
+export function summarizeScriptVariants(variants: ScriptVariant[], counts: ScriptVariantCount[]): ScriptVariantStats[] {
+  return variants.map(variant => {
+    const count = counts.filter(candidate => candidate.variantId === variant.id)[0]
+    const finishedCalls = count ? count.finishedCalls : 0
+    const completedCalls = count ? count.completedCalls : 0
+    
+    return {
+      variantId: variant.id,
+      scriptId: variant.scriptId,
+      scriptVersion: variant.scriptVersion,
+      scriptName: variant.scriptName,
+      weight: variant.weight,
+      totalCalls: count ? count.totalCalls : 0,
+      finishedCalls,
+      completedCalls,
+      completionRate: finishedCalls > 0 ? Math.round((completedCalls / finishedCalls) * 100) : 0,
+      averageDuration: count ? count.averageDuration : 0,
+      sentiment: count ? count.sentiment : { positive: 0, negative: 0, neutral: 0 }
+    }
+  })
+}
+
+/**
+ * Variant stats of every campaign that A/B tests scripts, for the analytics
+ */
+export function summarizeCampaignScriptVariants(
+  campaigns: CallCampaign[],
+  counts: ScriptVariantCount[]
+): AnalyticsScriptVariant[] {
+  const stats: AnalyticsScriptVariant[] = []
+  
+  campaigns.forEach(campaign => {
+    const campaignCounts = counts.filter(count => count.campaignId === campaign.id)
+    summarizeScriptVariants(campaign.scriptVariants, campaignCounts).forEach(variant => {
+      stats.push({ ...variant, campaignId: campaign.id, campaignName: campaign.name })
+    })
+  })
+  
+  return stats
+}
+
+/**
+ * Longest-common-subsequence line diff. Scripts are short, so the quadratic table is fine.
+ */
+function diffLines(from: string, to: string): ScriptDiffLine[] {
+  const a = from.split('\n')
+  const b = to.split('\n')
+  
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  
+  const lines: ScriptDiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] })
+    } else {
+      lines.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] })
+  
+  return lines
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * Streaming speech-to-text: opens one recognition per call, fed with the call's audio as it arrives
+ */
+export interface SpeechTranscriber {
+  start(events: SpeechRecognizerEvents): SpeechRecognition
+}
+
+/**
+ * A running recognition of one call's inbound audio
+ */
+export interface SpeechRecognition {
+  write(audio: Uint8Array): void // 8 kHz μ-law, as Twilio sends it
+  close(): void
+}
+
+/**
+ * Turns text into 8 kHz μ-law audio, ready to stream to Twilio
+ */
+export interface SpeechSynthesizer {
+  synthesize(text: string): Promise<Uint8Array>
+}
+
+export interface SpeechRecognizerEvents {
+  onSpeechStart?: () => void
+  onPartialTranscript?: (text: string) => void // Words of the current utterance recognized so far
+  onTranscript: (text: string) => void // Called once per utterance, in order, with '' when nothing was understood
+}
+
+/**
+ * Split a reply into sentences, so the first one can play while the rest are synthesized
+ */
+export function splitIntoSentences(text: string): string[] {
+  return (text.match(/[^.!?؟]+[.!?؟]*/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0)
+}
\ No newline at end of file
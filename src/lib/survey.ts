@@ -0,0 +1,203 @@
+import { SurveyAnswer, SurveyAnswerValue, SurveyQuestion } from '@/types/survey'
+import { SurveyQuestionResults } from '@/types/api'
+import { getCallPrompt } from './call-prompts'
+
+export const MAX_SURVEY_QUESTIONS = 10
+export const MAX_SURVEY_OPTIONS = 8 // Keeps every option on a single key
+
+// Spoken scores, indexed by their value
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten']
+
+// "Not sure" is no answer, and "definitely not" is a no, not a yes. Otherwise the first yes or no
+// word is the answer, so a negation later on ("yes, I did not have issues") doesn't turn it around.
+const UNSURE_PATTERN = /\b(not sure|unsure|maybe|perhaps|don't know|dont know|no idea|je ne sais pas|sais pas|peut-être)\b|لست متأكد|مش متأكد|ربما|पता नहीं|शायद/
+const NEGATED_YES_PATTERN = /\b(definitely|absolutely|certainly|of course|sure|really) not\b|\bnot really\b|\bpas vraiment\b|\bque non\b|जी नहीं/
+const NO_PATTERN = /\b(no|nope|nah|not|never|non|jamais)\b|^لا|\sلا|नहीं/
+const YES_PATTERN = /\b(yes|yeah|yep|yup|sure|correct|definitely|absolutely|of course|oui|ouais|bien sûr)\b|نعم|أيوه|हाँ|हां|जी/
+
+// Phrases with a "no" in them that aren't an answer
+const NEUTRAL_PHRASES = /\bno (problem|worries)\b|\bpas de (problème|souci)/g
+
+/**
+ * Fill in ids, option codes and defaults of the questions given when starting a campaign
+ */
+export function resolveSurveyQuestions(questions?: Array<Partial<SurveyQuestion>>): SurveyQuestion[] {
+  return (questions || []).map((question, index) => ({
+    id: question.id?.trim() || `q${index + 1}`,
+    type: question.type || 'free_text',
+    prompt: (question.prompt || '').trim(),
+    options: question.type === 'multiple_choice'
+      ? (question.options || []).map(option => ({
+        code: (option.code || option.label || '').trim().toLowerCase().replace(/\s+/g, '_'),
+        label: (option.label || option.code || '').trim()
+      }))
+      : undefined,
+    required: question.required ?? true
+  }))
+}
+
+/**
+ * Validate survey questions, returning an error message or null
+ */
+export function validateSurveyQuestions(questions: SurveyQuestion[]): string | null {
+  if (questions.length > MAX_SURVEY_QUESTIONS) {
+    return `At most ${MAX_SURVEY_QUESTIONS} survey questions are supported`
+  }
+  
+  const ids = new Set<string>()
+  for (const question of questions) {
+    if (ids.has(question.id)) {
+      return `Duplicate survey question id: ${question.id}`
+    }
+    ids.add(question.id)
+    
+    if (!['nps', 'csat', 'yes_no', 'multiple_choice', 'free_text'].includes(question.type)) {
+      return `Unknown survey question type: ${question.type}`
+    }
+    
+    if (!question.prompt || question.prompt.length > 300) {
+      return `Question ${question.id} needs a prompt of at most 300 characters`
+    }
+    
+    if (question.type === 'multiple_choice') {
+      const options = question.options || []
+      if (options.length < 2 || options.length > MAX_SURVEY_OPTIONS) {
+        return `Question ${question.id} needs between 2 and ${MAX_SURVEY_OPTIONS} options`
+      }
+      if (options.some(option => !option.code || !option.label)) {
+        return `Every option of question ${question.id} needs a label`
+      }
+      if (new Set(options.map(option => option.code)).size !== options.length) {
+        return `Options of question ${question.id} must have different codes`
+      }
+    }
+  }
+  
+  return null
+}
+
+/**
+ * The question as spoken, including how to answer it
+ */
+export function getSurveyQuestionPrompt(question: SurveyQuestion, locale?: string): string {
+  switch (question.type) {
+    case 'nps':
+      return `${question.prompt} ${getCallPrompt('npsInstructions', locale)}`
+    case 'csat':
+      return `${question.prompt} ${getCallPrompt('csatInstructions', locale)}`
+    case 'yes_no':
+      return `${question.prompt} ${getCallPrompt('yesNoInstructions', locale)}`
+    case 'multiple_choice':
+      return `${question.prompt} ${(question.options || [])
+        .map((option, index) => getCallPrompt('optionInstruction', locale, { label: option.label, digit: index + 1 }))
+        .join(' ')} ${getCallPrompt('optionsOutro', locale)}`
+    default:
+      return question.prompt
+  }
+}
+
+/**
+ * Read a typed answer from the customer's speech or key presses. Returns undefined
+ * when the input doesn't answer the question.
+ */
+export function parseSurveyAnswer(
+  question: SurveyQuestion,
+  input: string,
+  source: 'speech' | 'dtmf'
+): SurveyAnswerValue | undefined {
+  const text = input.trim().toLowerCase()
+  if (!text) return undefined
+  
+  switch (question.type) {
+    case 'nps':
+    case 'csat': {
+      const [min, max] = question.type === 'nps' ? [0, 10] : [1, 5]
+      
+      // The first number mentioned is the score: "eight out of ten" is 8
+      const words = text.replace(/#/g, '').split(/[^a-z0-9]+/)
+      for (const word of words) {
+        const score = /^\d+$/.test(word) ? parseInt(word) : NUMBER_WORDS.indexOf(word)
+        if (score >= 0) return score >= min && score <= max ? score : undefined
+      }
+      return undefined
+    }
+    
+    case 'yes_no': {
+      if (source === 'dtmf') {
+        return text === '1' ? true : text === '2' ? false : undefined
+      }
+      
+      const answer = text.replace(/[’‘]/g, '\'').replace(NEUTRAL_PHRASES, '')
+      if (UNSURE_PATTERN.test(answer)) return undefined
+      if (NEGATED_YES_PATTERN.test(answer)) return false
+      
+      const yes = answer.search(YES_PATTERN)
+      const no = answer.search(NO_PATTERN)
+      if (no >= 0 && (yes < 0 || no < yes)) return false
+      if (yes >= 0) return true
+      return undefined
+    }
+    
+    case 'multiple_choice': {
+      const options = question.options || []
+      const index = source === 'dtmf' ? parseInt(text) - 1 : -1
+      if (index >= 0 && index < options.length) return options[index].code
+      if (source === 'dtmf') return undefined
+      
+      const match = options.find(option =>
+        text.includes(option.label.toLowerCase()) || text.includes(option.code.replace(/_/g, ' '))
+      )
+      return match?.code
+    }
+    
+    default:
+      return source === 'speech' ? input.trim() : undefined
+  }
+}
+
+/**
+ * First question without a recorded answer, or null once the survey is done
+ */
+export function getNextSurveyQuestion(questions: SurveyQuestion[], answers: SurveyAnswer[]): SurveyQuestion | null {
+  const answered = new Set(answers.map(answer => answer.questionId))
+  return questions.find(question => !answered.has(question.id)) || null
+}
+
+/**
+ * Aggregate the answers of a campaign per question
+ */
+export function summarizeSurveyAnswers(questions: SurveyQuestion[], answers: SurveyAnswer[]): SurveyQuestionResults[] {
+  return questions.map(question => {
+    const questionAnswers = answers.filter(answer => answer.questionId === question.id)
+    const given = questionAnswers.filter(answer => answer.value !== null)
+    const distribution: Record<string, number> = {}
+    
+    if (question.type !== 'free_text') {
+      for (const answer of given) {
+        const key = typeof answer.value === 'boolean' ? (answer.value ? 'yes' : 'no') : String(answer.value)
+        distribution[key] = (distribution[key] || 0) + 1
+      }
+    }
+    
+    const scores = question.type === 'nps' || question.type === 'csat' ? given.map(answer => Number(answer.value)) : []
+    
+    return {
+      questionId: question.id,
+      type: question.type,
+      prompt: question.prompt,
+      options: question.options,
+      responses: given.length,
+      skipped: questionAnswers.length - given.length,
+      average: scores.length > 0
+        ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+        : undefined,
+      distribution,
+      recentTexts: question.type === 'free_text'
+        ? given
+          .sort((a, b) => b.answeredAt.getTime() - a.answeredAt.getTime())
+          .slice(0, 10)
+          .map(answer => String(answer.value))
+        : undefined
+    }
+  })
+}
\ No newline at end of file
@@ -1,47 +1,54 @@
 import twilio from 'twilio'
-import { Call, CallStatus } from '@/types/call'
+import { buildCallbackUrl, buildMediaStreamUrl, escapeXml, getAppBaseUrl } from './callback-url'
+import { DEFAULT_VOICE_SETTINGS, getSayAttributes } from './voice-settings'
+import { getCallPrompt } from './call-prompts'
+import { Call, CallStatus, VoiceSettings } from '@/types/call'
 
 export class TwilioClient {
   private client: twilio.Twilio
   private fromNumber: string
-  private webhookUrl: string
   
   constructor() {
     const accountSid = process.env.TWILIO_ACCOUNT_SID
     const authToken = process.env.TWILIO_AUTH_TOKEN
     const phoneNumber = process.env.TWILIO_PHONE_NUMBER
-    const appUrl = process.env.NEXT_PUBLIC_APP_URL
     
-    if (!accountSid || !authToken || !phoneNumber || !appUrl) {
+    // The app's URL isn't needed here: each campaign records the URL it was started on
+    if (!accountSid || !authToken || !phoneNumber) {
       throw new Error('Missing required Twilio environment variables')
     }
     
     this.client = twilio(accountSid, authToken)
     this.fromNumber = phoneNumber
-    this.webhookUrl = `${appUrl}/api/calls/webhook`
   }
   
   /**
-   * Initiate a voice call with AI bot
+   * Initiate a voice call with AI bot. Callbacks go to baseUrl, or NEXT_PUBLIC_APP_URL when unset.
    */
-  async makeCall(call: Call): Promise<{ success: boolean; twilioSid?: string; error?: string }> {
+  async makeCall(
+    call: Call,
+    options: { detectMessageEnd?: boolean; baseUrl?: string } = {}
+  ): Promise<{ success: boolean; twilioSid?: string; error?: string }> {
     try {
+      const baseUrl = options.baseUrl || getAppBaseUrl()
+      
       // Create TwiML for the call
-      const twimlUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/calls/twiml?callId=${call.id}&campaignId=${call.campaignId}`
+      const twimlUrl = buildCallbackUrl('/api/calls/twiml', { callId: call.id, campaignId: call.campaignId }, baseUrl)
       
       const twilioCall = await this.client.calls.create({
         to: call.customerPhone,
         from: this.fromNumber,
         url: twimlUrl,
         method: 'POST',
-        statusCallback: this.webhookUrl,
+        statusCallback: buildCallbackUrl('/api/calls/webhook', {}, baseUrl),
         statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
         statusCallbackMethod: 'POST',
         timeout: 30, // Ring for 30 seconds
         record: true, // Record the call for transcription
-        // Custom parameters to track our call
-        machineDetection: 'Enable',
-        machineDetectionTimeout: 5,
+        // Answering machine detection - AnsweredBy is sent with the TwiML request.
+        // DetectMessageEnd waits for the greeting to finish so a voicemail can be left.
+        machineDetection: options.detectMessageEnd ? 'DetectMessageEnd' : 'Enable',
+        machineDetectionTimeout: options.detectMessageEnd ? 30 : 5,
         // Add custom parameters
         sendDigits: undefined // We'll handle this in TwiML
       })
@@ -61,35 +68,25 @@ export class TwilioClient {
   }
   
   /**
-   * Generate TwiML for AI-powered conversation
+   * Generate TwiML that connects the call to the media stream server, which runs the
+   * conversation in real time (see scripts/media-stream-server.ts)
    */
-  generateTwiML(callId: string, campaignId: string, customerName: string, reason: string): string {
-    const bankName = process.env.BANK_NAME || 'Your Bank'
-    const botName = process.env.BOT_NAME || 'Customer Care Assistant'
-    
-    // Create opening script based on customer data
-    const openingMessage = this.generateOpeningScript(customerName, reason, bankName, botName)
+  generateTwiML(callId: string, campaignId: string, baseUrl?: string, voice: VoiceSettings = DEFAULT_VOICE_SETTINGS): string {
+    const streamUrl = buildMediaStreamUrl(baseUrl)
     
-    // TwiML for AI conversation using Twilio's Voice Intelligence or connect to external AI
     const twiml = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="alice" language="en-US">${openingMessage}</Say>
-    
-    <!-- Start conversation with AI -->
     <Connect>
-        <Stream url="wss://${process.env.NEXT_PUBLIC_APP_URL?.replace('http://', '').replace('https://', '')}/api/calls/stream">
-            <Parameter name="callId" value="${callId}" />
-            <Parameter name="campaignId" value="${campaignId}" />
-            <Parameter name="customerName" value="${customerName}" />
-            <Parameter name="reason" value="${reason}" />
+        <Stream url="${escapeXml(streamUrl)}">
+            <Parameter name="callId" value="${escapeXml(callId)}" />
+            <Parameter name="campaignId" value="${escapeXml(campaignId)}" />
+            <Parameter name="locale" value="${escapeXml(voice.locale)}" />
         </Stream>
     </Connect>
     
     <!-- Fallback if stream fails -->
-    <Say voice="alice" language="en-US">
-        I apologize, but we're experiencing technical difficulties. 
-        Please call our customer service line directly, and we'll be happy to help you. 
-        Thank you for your time.
+    <Say ${getSayAttributes(voice)}>
+        ${escapeXml(getCallPrompt('streamUnavailable', voice.locale))}
     </Say>
     
     <Hangup />
@@ -99,45 +96,19 @@ export class TwilioClient {
   }
   
   /**
-   * Generate opening script based on customer data
+   * Handle machine detection response - leave the voicemail message, or just hang up
    */
-  private generateOpeningScript(customerName: string, reason: string, bankName: string, botName: string): string {
-    // Analyze reason to customize opening
-    const lowerReason = reason.toLowerCase()
-    
-    let contextualMessage = ''
-    
-    if (lowerReason.includes('credit card') || lowerReason.includes('card')) {
-      contextualMessage = 'regarding your recent credit card account closure'
-    } else if (lowerReason.includes('account') || lowerReason.includes('banking')) {
-      contextualMessage = 'regarding your recent account changes'
-    } else if (lowerReason.includes('loan') || lowerReason.includes('mortgage')) {
-      contextualMessage = 'regarding your lending experience with us'
-    } else if (lowerReason.includes('service') || lowerReason.includes('staff')) {
-      contextualMessage = 'regarding your recent service experience'
-    } else {
-      contextualMessage = 'regarding your recent experience with our bank'
+  generateMachineDetectionTwiML(voicemailMessage: string | null, voice: VoiceSettings = DEFAULT_VOICE_SETTINGS): string {
+    if (!voicemailMessage) {
+      return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Hangup />
+</Response>`
     }
     
-    return `Hello ${customerName}, this is ${botName} calling from ${bankName}. 
-    I hope I'm reaching you at a good time. 
-    I'm calling ${contextualMessage}. 
-    We truly value your feedback and would love to understand your experience better 
-    so we can improve our services. 
-    Do you have a few minutes to share your thoughts with me?`
-  }
-  
-  /**
-   * Handle machine detection response
-   */
-  generateMachineDetectionTwiML(): string {
     return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say voice="alice" language="en-US">
-        Hello, this is a call from ${process.env.BANK_NAME || 'your bank'} regarding your recent feedback. 
-        We'd love to speak with you personally about your experience. 
-        Please call us back at your convenience. Thank you.
-    </Say>
+    <Say ${getSayAttributes(voice)}>${escapeXml(voicemailMessage)}</Say>
     <Hangup />
 </Response>`
   }
@@ -0,0 +1,105 @@
+import twilio from 'twilio'
+import { NextRequest, NextResponse } from 'next/server'
+import { getAppBaseUrl } from './callback-url'
+
+/**
+ * Reconstruct the URL Twilio requested. Behind Vercel's proxy request.url may not
+ * match the public host, so the path and query are rebased onto the app's base URL.
+ */
+export function getPublicRequestUrl(request: NextRequest): string {
+  const url = new URL(request.url)
+  return `${getAppBaseUrl(request)}${url.pathname}${url.search}`
+}
+
+/**
+ * Convert a form-encoded body into the param map Twilio signs
+ */
+export function parseTwilioParams(rawBody: string): Record<string, string> {
+  const params: Record<string, string> = {}
+  new URLSearchParams(rawBody).forEach((value, key) => {
+    params[key] = value
+  })
+  return params
+}
+
+/**
+ * Verify the X-Twilio-Signature header of a webhook request
+ */
+export function verifyTwilioRequest(request: NextRequest, rawBody: string): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  
+  // Local development against a tunnel can opt out, production never does
+  if (process.env.TWILIO_SKIP_SIGNATURE_VALIDATION === 'true' && process.env.NODE_ENV !== 'production') {
+    return true
+  }
+  
+  if (!authToken) {
+    console.error('[verifyTwilioRequest] TWILIO_AUTH_TOKEN is not set, rejecting request')
+    return false
+  }
+  
+  const signature = request.headers.get('x-twilio-signature')
+  if (!signature) {
+    console.warn('[verifyTwilioRequest] Missing X-Twilio-Signature header')
+    return false
+  }
+  
+  const contentType = request.headers.get('content-type') || ''
+  const params = contentType.includes('application/x-www-form-urlencoded')
+    ? parseTwilioParams(rawBody)
+    : {}
+  
+  const url = getPublicRequestUrl(request)
+  const valid = twilio.validateRequest(authToken, signature, url, params)
+  
+  if (!valid) {
+    console.warn('[verifyTwilioRequest] Invalid signature for', url)
+  }
+  
+  return valid
+}
+
+/**
+ * Verify the X-Twilio-Signature header of a media stream's WebSocket upgrade.
+ * Twilio signs the stream URL from the TwiML, without params.
+ */
+export function verifyTwilioStreamRequest(signature: string | undefined, streamUrl: string): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  
+  if (process.env.TWILIO_SKIP_SIGNATURE_VALIDATION === 'true' && process.env.NODE_ENV !== 'production') {
+    return true
+  }
+  
+  if (!authToken || !signature) {
+    console.warn('[verifyTwilioStreamRequest] Missing auth token or X-Twilio-Signature header')
+    return false
+  }
+  
+  const valid = twilio.validateRequest(authToken, signature, streamUrl, {})
+  
+  if (!valid) {
+    console.warn('[verifyTwilioStreamRequest] Invalid signature for', streamUrl)
+  }
+  
+  return valid
+}
+
+/**
+ * Sign a request the way Twilio does, for building webhook fixtures
+ */
+export function signTwilioRequest(
+  url: string,
+  params: Record<string, string>,
+  authToken = process.env.TWILIO_AUTH_TOKEN || ''
+): string {
+  return twilio.getExpectedTwilioSignature(authToken, url, params)
+}
+
+/**
+ * 403 response for requests that fail signature verification
+ */
+export function forbiddenTwilioResponse(): NextResponse {
+  return NextResponse.json({
+    error: 'Invalid Twilio signature'
+  }, { status: 403 })
+}
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { VoiceSettings } from '@/types/call'
+import { escapeXml } from './callback-url'
+
+// Used when a campaign doesn't configure its own voice
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  locale: 'en-US',
+  voice: 'Polly.Joanna-Neural',
+  language: 'en-US',
+  speechLanguage: 'en-US'
+}
+
+// Voice and Twilio language codes for each supported locale. Picking a locale alone, or
+// a customer's locale override, uses these. Standard Arabic speaks with language 'arb'.
+export const LOCALE_VOICE_SETTINGS: Record<string, VoiceSettings> = {
+  'en-US': DEFAULT_VOICE_SETTINGS,
+  'en-GB': { locale: 'en-GB', voice: 'Polly.Amy-Neural', language: 'en-GB', speechLanguage: 'en-GB' },
+  'en-IN': { locale: 'en-IN', voice: 'Polly.Kajal-Neural', language: 'en-IN', speechLanguage: 'en-IN' },
+  'ar-SA': { locale: 'ar-SA', voice: 'Polly.Zeina', language: 'arb', speechLanguage: 'ar-SA' },
+  'ar-AE': { locale: 'ar-AE', voice: 'Polly.Hala-Neural', language: 'ar-AE', speechLanguage: 'ar-AE' },
+  'fr-FR': { locale: 'fr-FR', voice: 'Polly.Lea-Neural', language: 'fr-FR', speechLanguage: 'fr-FR' },
+  'hi-IN': { locale: 'hi-IN', voice: 'Polly.Kajal-Neural', language: 'hi-IN', speechLanguage: 'hi-IN' }
+}
+
+// Twilio speech model that recognizes several languages in one <Gather>, and the ones of ours it knows
+const MULTILINGUAL_SPEECH_MODEL = 'deepgram_nova-3'
+const MULTILINGUAL_LANGUAGES = ['en', 'fr', 'hi']
+
+// Names the AI is told to speak in, by language subtag
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  ar: 'Arabic',
+  fr: 'French',
+  hi: 'Hindi'
+}
+
+/**
+ * Supported locale matching the given one, ignoring case ('ar-sa' -> 'ar-SA'), or null
+ */
+export function getSupportedLocale(locale: string | undefined | null): string | null {
+  if (!locale) return null
+  
+  const normalized = locale.trim().replace('_', '-').toLowerCase()
+  return Object.keys(LOCALE_VOICE_SETTINGS).filter(supported => supported.toLowerCase() === normalized)[0] || null
+}
+
+/**
+ * Fill in missing fields of (partial) voice settings from the defaults of their locale
+ */
+export function resolveVoiceSettings(settings?: Partial<VoiceSettings> | null): VoiceSettings {
+  const locale = getSupportedLocale(settings?.locale) || settings?.locale?.trim() || DEFAULT_VOICE_SETTINGS.locale
+  const defaults = LOCALE_VOICE_SETTINGS[locale] || DEFAULT_VOICE_SETTINGS
+  
+  return {
+    locale,
+    voice: settings?.voice?.trim() || defaults.voice,
+    language: settings?.language?.trim() || defaults.language,
+    speechLanguage: settings?.speechLanguage?.trim() || defaults.speechLanguage
+  }
+}
+
+/**
+ * Validate voice settings, returning an error message or null
+ */
+export function validateVoiceSettings(settings: VoiceSettings): string | null {
+  if (!getSupportedLocale(settings.locale)) {
+    return `Unsupported locale: ${settings.locale}. Supported locales are ${Object.keys(LOCALE_VOICE_SETTINGS).join(', ')}`
+  }
+  
+  if (!/^[A-Za-z0-9.\-]+$/.test(settings.voice)) {
+    return `Invalid voice: ${settings.voice}`
+  }
+  
+  if (!/^[a-z]{2,3}(-[A-Z]{2})?$/.test(settings.language) || !/^[a-z]{2,3}(-[A-Z]{2})?$/.test(settings.speechLanguage)) {
+    return 'Languages must be language codes such as en-US'
+  }
+  
+  return null
+}
+
+/**
+ * Voice settings of one call: the customer's locale, when set and different, overrides the campaign's
+ */
+export function getCallVoiceSettings(campaignSettings: VoiceSettings | undefined, customerLocale?: string): VoiceSettings {
+  const settings = campaignSettings || DEFAULT_VOICE_SETTINGS
+  const locale = getSupportedLocale(customerLocale)
+  
+  if (!locale || locale === settings.locale) return settings
+  return LOCALE_VOICE_SETTINGS[locale]
+}
+
+/**
+ * Name of the locale's language, for the AI's instructions
+ */
+export function getLanguageName(locale: string): string {
+  return LANGUAGE_NAMES[locale.split('-')[0].toLowerCase()] || locale
+}
+
+/**
+ * Speech recognition attributes of a <Gather>. While the customer's language is still being
+ * detected, a call in a language the multilingual model knows listens for any of its languages;
+ * otherwise recognition is locked to the call's language.
+ */
+export function getGatherLanguageAttributes(settings: VoiceSettings, detectingLanguage = false): string {
+  if (detectingLanguage && MULTILINGUAL_LANGUAGES.includes(settings.locale.split('-')[0].toLowerCase())) {
+    return `speechModel="${MULTILINGUAL_SPEECH_MODEL}" language="multi"`
+  }
+  
+  return `language="${escapeXml(settings.speechLanguage)}"`
+}
+
+/**
+ * voice and language attributes of a <Say> element
+ */
+export function getSayAttributes(settings: VoiceSettings): string {
+  return `voice="${escapeXml(settings.voice)}" language="${escapeXml(settings.language)}"`
+}
\ No newline at end of file
@@ -1,3 +1,8 @@
+import { BotScript, CallingWindow, ConversationPolicy, VoiceSettings } from './call'
+import { ScriptDiff } from './script'
+import { IssueCategory } from './issue'
+import { SurveyQuestion, SurveyQuestionOption, SurveyQuestionType } from './survey'
+
 // Generic API Response wrapper
 export interface ApiResponse<T = any> {
   success: boolean
@@ -14,6 +19,8 @@ export interface UploadResponse {
     phone: string
     reason?: string
     matchedServices?: string[]
+    timeZone?: string
+    locale?: string
   }>
   summary: {
     totalRows: number
@@ -30,6 +37,8 @@ export interface StartCampaignRequest {
     name: string
     phone: string
     reason?: string
+    timeZone?: string
+    locale?: string // One of the supported locales, overrides the campaign's voice settings
   }>
   services: string[]
   settings?: {
@@ -37,18 +46,331 @@ export interface StartCampaignRequest {
     retrySettings?: {
       maxRetries: number
       retryDelay: number
+      backoff?: 'fixed' | 'exponential'
+      retryOnVoicemail?: boolean
     }
-    botScript?: string
+    callingWindow?: CallingWindow
+    conversationPolicy?: Partial<ConversationPolicy>
+    botScript?: Partial<BotScript> | string // A string sets only the system prompt
+    scriptVariants?: ScriptVariantRequest[] // Split calls between library scripts
+    surveyQuestions?: Array<Partial<SurveyQuestion>> // Ids default to q1, q2, ...
+    voicemailMessage?: string
+    voiceSettings?: Partial<VoiceSettings> // A locale alone picks its default voice
   }
 }
 
 export interface StartCampaignResponse {
   campaignId: string
   callsScheduled: number
+  callsSuppressed: number // Customers skipped because they are on the do-not-call list
   estimatedDuration: number
   status: string
 }
 
+// Do-not-call API
+export interface DoNotCallAddRequest {
+  phones: string[]
+  reason?: string
+}
+
+export interface DoNotCallAddResponse {
+  added: number
+  alreadyListed: number
+  invalid: string[]
+}
+
+export interface DoNotCallEntryResponse {
+  phone: string
+  source: string
+  reason?: string
+  callId?: string
+  createdAt: string
+}
+
+// Library script version a share of the campaign's calls uses
+export interface ScriptVariantRequest {
+  scriptId: string
+  version?: number // Latest version when omitted
+  weight?: number // Relative share of calls, 1 when omitted
+}
+
+// Script library API
+export interface ScriptCreateRequest {
+  name: string
+  description?: string
+  botScript: Partial<BotScript> | string
+  notes?: string
+}
+
+export interface ScriptUpdateRequest {
+  name?: string
+  description?: string
+  botScript?: Partial<BotScript> | string // Creates a new version
+  notes?: string
+}
+
+export interface ScriptResponse {
+  id: string
+  name: string
+  description?: string
+  latestVersion: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScriptVersionResponse {
+  version: number
+  botScript: BotScript
+  notes?: string
+  createdAt: string
+}
+
+export interface ScriptDetailResponse {
+  script: ScriptResponse
+  versions: ScriptVersionResponse[] // Newest first
+}
+
+export interface ScriptDiffResponse {
+  scriptId: string
+  from: number
+  to: number
+  diff: ScriptDiff
+}
+
+// Bot script preview API
+export interface BotScriptPreviewRequest {
+  botScript?: Partial<BotScript> | string
+  // Sample customer the script is rendered for
+  customerName?: string
+  customerReason?: string
+  services?: string[]
+}
+
+export interface BotScriptPreviewResponse {
+  botScript: BotScript // Rendered with the sample customer
+  variables: string[] // Variables the script references
+}
+
+// Campaign control API (pause / resume / cancel)
+export interface CampaignControlRequest {
+  campaignId: string
+  action?: 'pause' | 'resume'
+  hangUpActiveCalls?: boolean
+}
+
+export interface CampaignControlResponse {
+  campaignId: string
+  status: string
+  callsCancelled?: number
+}
+
+// Campaign list API
+export interface CampaignListRequest extends PaginationParams {
+  status?: string
+  service?: string
+  dateFrom?: string
+  dateTo?: string
+  search?: string
+}
+
+export interface CampaignSummary {
+  id: string
+  name: string
+  status: string
+  services: string[]
+  totalCalls: number
+  completedCalls: number
+  failedCalls: number
+  inProgressCalls: number
+  pendingCalls: number
+  maxConcurrentCalls: number
+  startedAt: string
+  completedAt?: string
+  createdAt: string
+}
+
+export interface CampaignDetailResponse {
+  campaign: CampaignSummary & {
+    retrySettings: {
+      maxRetries: number
+      retryDelay: number
+      backoff: 'fixed' | 'exponential'
+      retryOnBusy: boolean
+      retryOnNoAnswer: boolean
+      retryOnFailed: boolean
+      retryOnVoicemail: boolean
+    }
+    callingWindow: CallingWindow
+    conversationPolicy: ConversationPolicy
+    botScript: BotScript
+    surveyQuestions: SurveyQuestion[]
+    voicemailMessage?: string
+    estimatedDuration?: number
+  }
+  statusCounts: Record<string, number>
+  progress: number
+  scriptVariants: ScriptVariantStats[] // Empty unless the campaign A/B tests scripts
+}
+
+// Outcome of one script variant of a campaign
+export interface ScriptVariantStats {
+  variantId: string
+  scriptId?: string
+  scriptVersion?: number
+  scriptName?: string
+  weight: number
+  totalCalls: number
+  finishedCalls: number
+  completedCalls: number
+  completionRate: number // % of finished calls that completed
+  averageDuration: number // Seconds, over completed calls
+  sentiment: {
+    positive: number
+    negative: number
+    neutral: number
+  }
+}
+
+// Campaign survey results API
+export interface SurveyResultsResponse {
+  campaignId: string
+  respondents: number // Calls with at least one answer
+  questions: SurveyQuestionResults[]
+}
+
+export interface SurveyQuestionResults {
+  questionId: string
+  type: SurveyQuestionType
+  prompt: string
+  options?: SurveyQuestionOption[]
+  responses: number
+  skipped: number // Asked but not understood
+  average?: number // nps and csat only
+  distribution: Record<string, number> // Score, 'yes' / 'no' or option code -> answers
+  recentTexts?: string[] // free_text only, newest first
+}
+
+// Issue taxonomy API
+export interface IssueTaxonomyResponse {
+  categories: IssueCategory[]
+  isDefault: boolean // No taxonomy saved yet, the default one applies
+}
+
+export interface IssueTaxonomyUpdateRequest {
+  categories: Array<Partial<IssueCategory>>
+}
+
+// Issue analytics API
+export interface IssueReportRequest {
+  campaignId?: string
+  service?: string
+  dateFrom?: string
+  dateTo?: string
+  minConfidence?: number
+}
+
+export interface IssueReportResponse {
+  totalIssues: number
+  byCategory: Array<{
+    category: string
+    label: string
+    count: number
+    percentage: number
+  }>
+  issues: IssueRollUp[]
+}
+
+export interface IssueRollUp {
+  code: string // 'category.subcategory'
+  category: string
+  categoryLabel: string
+  subcategory: string
+  subcategoryLabel: string
+  count: number
+  percentage: number
+}
+
+// Live call monitoring API
+export interface LiveCallsResponse {
+  calls: LiveCall[]
+}
+
+export interface LiveCall extends LiveConversation {
+  customerName: string
+  customerPhone: string
+  status: string // calling, ringing or answered
+  startedAt?: string
+  elapsedSeconds: number
+  maxTurns: number // From the campaign's conversation policy
+  maxDurationSeconds: number
+  requiredTopics: string[]
+}
+
+// The in-progress part of a live call, also sent as conversation_update events
+export interface LiveConversation {
+  callId: string
+  campaignId: string
+  turnCount: number // Customer responses so far
+  coveredTopics: string[]
+  transcript: Array<{
+    role: 'user' | 'assistant'
+    content: string
+    timestamp: string
+    interrupted?: boolean // Assistant reply the customer talked over
+  }>
+  lastActivityAt?: string
+}
+
+// Score analytics API
+export interface ScoreReportRequest {
+  campaignId?: string
+  service?: string
+  dateFrom?: string
+  dateTo?: string
+  interval?: ScoreTrendInterval
+}
+
+export type ScoreTrendInterval = 'day' | 'week' | 'month'
+
+export interface ScoreReportResponse {
+  nps: NpsSummary
+  csat: CsatSummary
+  distribution: {
+    nps: Record<string, number> // Score 0-10 -> calls
+    csat: Record<string, number> // Score 1-5 -> calls
+  }
+  trend: Array<{
+    period: string // Start of the period, YYYY-MM-DD
+    nps: NpsSummary
+    csat: CsatSummary
+  }>
+  byService: Array<{
+    service: string
+    nps: NpsSummary
+    csat: CsatSummary
+  }>
+  byCampaign: Array<{
+    campaignId: string
+    campaignName: string
+    nps: NpsSummary
+    csat: CsatSummary
+  }>
+}
+
+export interface NpsSummary {
+  score: number | null // % promoters - % detractors, null without responses
+  responses: number
+  promoters: number // 9-10
+  passives: number // 7-8
+  detractors: number // 0-6
+}
+
+export interface CsatSummary {
+  score: number | null // % of responses that are 4 or 5, null without responses
+  average: number | null
+  responses: number
+}
+
 // Call status API
 export interface CallStatusRequest {
   campaignId?: string
@@ -123,7 +445,8 @@ export interface AnalyticsResponse {
     neutral: number
   }
   topIssues: Array<{
-    issue: string
+    issue: string // Issue taxonomy code where the calls were classified
+    label: string
     count: number
     percentage: number
   }>
@@ -133,6 +456,12 @@ export interface AnalyticsResponse {
     completed: number
     failed: number
   }>
+  scriptVariants: AnalyticsScriptVariant[] // Of the campaigns that A/B test scripts
+}
+
+export interface AnalyticsScriptVariant extends ScriptVariantStats {
+  campaignId: string
+  campaignName: string
 }
 
 // Webhook payload from Twilio
@@ -149,6 +478,7 @@ export interface TwilioWebhookPayload {
   RecordingSid?: string
   TranscriptionText?: string
   TranscriptionStatus?: string
+  AnsweredBy?: string
   // Custom parameters we add
   campaignId?: string
   customerId?: string
@@ -190,7 +520,7 @@ export interface PaginatedResponse<T> {
 
 // Real-time updates (for WebSocket or SSE)
 export interface RealtimeUpdate {
-  type: 'call_update' | 'campaign_update' | 'system_status'
+  type: 'call_update' | 'campaign_update' | 'conversation_update' | 'system_status'
   campaignId?: string
   callId?: string
   data: any
@@ -1,8 +1,14 @@
+import { SurveyQuestion } from './survey'
+import { IssueClassification } from './issue'
+
 export interface Call {
   id: string
   customerId: string
   customerName: string
   customerPhone: string
+  timeZone?: string // Customer's IANA time zone, used for the calling window
+  locale?: string // Customer's language, when it differs from the campaign's
+  detectedLocale?: string // Language the customer answered in, detected from their first answer
   status: CallStatus
   // Twilio specific
   twilioSid?: string
@@ -16,11 +22,17 @@ export interface Call {
   summary?: string
   sentiment?: 'positive' | 'negative' | 'neutral'
   keyIssues?: string[]
+  issueClassifications?: IssueClassification[] // keyIssues mapped onto the issue taxonomy
   resolution?: string
+  npsScore?: number // 0-10, from the first NPS question the customer answered
+  csatScore?: number // 1-5, from the first CSAT question the customer answered
+  scoredAt?: Date // When the first score was captured
   // Technical details
   errorMessage?: string
   retryCount: number
   maxRetries: number
+  nextAttemptAt?: Date // Set while the call waits in 'retry'
+  scriptVariant?: string // Id of the campaign's script variant used for this call
   // Metadata
   campaignId: string
   services: string[]
@@ -39,6 +51,31 @@ export type CallStatus =
   | 'voicemail'   // Went to voicemail
   | 'retry'       // Scheduled for retry
 
+// Recorded on every call status transition
+export interface CallEvent {
+  id: string
+  callId: string
+  campaignId: string
+  fromStatus: CallStatus
+  toStatus: CallStatus
+  cause: string
+  createdAt: Date
+}
+
+// One dial of a call, recorded when the attempt ends
+export interface CallAttempt {
+  id: string
+  callId: string
+  campaignId: string
+  attemptNumber: number
+  twilioSid?: string
+  outcome: CallStatus
+  errorMessage?: string
+  duration?: number // in seconds
+  startedAt?: Date
+  endedAt: Date
+}
+
 export interface CallCampaign {
   id: string
   name: string
@@ -56,7 +93,14 @@ export interface CallCampaign {
   // Configuration
   maxConcurrentCalls: number
   retrySettings: RetrySettings
-  botScript: string
+  callingWindow: CallingWindow
+  conversationPolicy: ConversationPolicy
+  botScript: BotScript
+  scriptVariants: ScriptVariant[] // Empty unless the campaign A/B tests scripts
+  surveyQuestions: SurveyQuestion[] // Asked after the open conversation
+  voicemailMessage?: string // Left after the beep when answering machine detection hits
+  voiceSettings: VoiceSettings
+  callbackBaseUrl?: string // Public URL of the deployment that started the campaign, for Twilio callbacks
   // Metadata
   createdBy?: string
   createdAt: Date
@@ -74,9 +118,65 @@ export type CampaignStatus =
 export interface RetrySettings {
   maxRetries: number
   retryDelay: number // minutes
+  backoff: 'fixed' | 'exponential' // exponential doubles the delay after every attempt
   retryOnBusy: boolean
   retryOnNoAnswer: boolean
   retryOnFailed: boolean
+  retryOnVoicemail: boolean
+}
+
+// Local hours in which customers may be called
+export interface CallingWindow {
+  days: number[] // 0 = Sunday … 6 = Saturday
+  startTime: string // 'HH:mm' local time
+  endTime: string // 'HH:mm' local time, exclusive
+  defaultTimeZone: string // For customers whose time zone couldn't be inferred
+}
+
+// How the bot sounds and listens
+export interface VoiceSettings {
+  locale: string // Conversation language, e.g. 'en-US' or 'ar-SA' - the AI replies in it
+  voice: string // Twilio <Say> voice, e.g. 'Polly.Joanna-Neural'
+  language: string // <Say language> of the voice
+  speechLanguage: string // <Gather language> for speech recognition
+}
+
+// How long a conversation may run and when the bot may wrap it up
+export interface ConversationPolicy {
+  maxTurns: number // Customer responses before the bot wraps up
+  maxDurationSeconds: number // Wrap up once the call has run this long
+  requiredTopics: string[] // Covered before the bot may end the call early
+  earlyExit: {
+    onAiDecision: boolean // The AI may wrap up once all required topics are covered
+    onCustomerGoodbye: boolean // Wrap up as soon as the customer says goodbye
+  }
+}
+
+// Templated lines the bot speaks and the prompt behind it. Templates may use
+// {{customerName}}, {{bankName}}, {{botName}}, {{services}} and {{customerReason}}
+export interface BotScript {
+  systemPrompt: string // Persona and goals given to the AI
+  openingLine: string // Spoken when the customer picks up
+  closingLine: string // Spoken when the conversation wraps up
+}
+
+// One arm of a script A/B test, with the script snapshotted when the campaign started
+export interface ScriptVariant {
+  id: string // 'A', 'B', ...
+  scriptId?: string // Library script the variant came from
+  scriptVersion?: number
+  scriptName?: string
+  botScript: BotScript
+  weight: number // Relative share of the campaign's calls
+}
+
+// Number of calls that gave one score, in the whole report or one of its groups
+export interface CallScoreCount {
+  dimension: 'overall' | 'trend' | 'service' | 'campaign'
+  key: string // Start of the period (YYYY-MM-DD), service or campaign ID; empty for 'overall'
+  type: 'nps' | 'csat'
+  score: number
+  count: number
 }
 
 export interface CallAnalytics {
@@ -98,6 +198,50 @@ export interface CallAnalytics {
   callsByService: Record<string, number>
 }
 
+// Call aggregates as computed by the database, before percentages and labels
+export interface CallAnalyticsAggregates {
+  overview: {
+    totalCampaigns: number
+    totalCalls: number
+    completedCalls: number
+    finishedCalls: number // completed, failed or voicemail
+    averageDuration: number // Of completed calls, in seconds
+  }
+  callsByStatus: Record<string, number>
+  callsByService: Record<string, number>
+  sentiment: {
+    positive: number
+    negative: number
+    neutral: number
+  }
+  totalIssues: number
+  topIssues: Array<{
+    issue: string // Taxonomy code, or the raw key issue of calls classified before the taxonomy
+    count: number
+  }>
+  timeSeries: Array<{
+    date: string // YYYY-MM-DD, UTC
+    calls: number
+    completed: number
+    failed: number
+  }>
+}
+
+// Outcomes of one campaign's script variant as computed by the database, before rates
+export interface ScriptVariantCount {
+  campaignId: string
+  variantId: string
+  totalCalls: number
+  finishedCalls: number // completed, failed or voicemail
+  completedCalls: number
+  averageDuration: number // Of completed calls, in seconds
+  sentiment: {
+    positive: number
+    negative: number
+    neutral: number
+  }
+}
+
 export interface CallWebhookPayload {
   CallSid: string
   CallStatus: string
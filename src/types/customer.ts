@@ -9,6 +9,8 @@ export interface Customer {
   serviceType?: string
   dateLeft?: string
   lastContactDate?: string
+  timeZone?: string // IANA zone, inferred from the phone number when not in the file
+  locale?: string // Language to call in, overriding the campaign's
   // Processed fields
   matchedServices?: string[]
   priority?: 'high' | 'medium' | 'low'
@@ -42,6 +44,21 @@ export interface ProcessedCustomer extends Customer {
   updatedAt: Date
 }
 
+// Number that must never be called again
+export interface DoNotCallEntry {
+  phone: string // Normalized E.164
+  source: DoNotCallSource
+  reason?: string
+  callId?: string // Call in which the customer opted out
+  createdAt: Date
+}
+
+export type DoNotCallSource =
+  | 'import'      // Uploaded suppression file
+  | 'api'         // Added through the API or dashboard
+  | 'speech'      // Customer asked not to be called again during a call
+  | 'dtmf'        // Customer pressed the opt-out key during a call
+
 // Excel column mapping interface
 export interface ExcelColumnMapping {
   name?: string
@@ -51,6 +68,8 @@ export interface ExcelColumnMapping {
   accountNumber?: string
   serviceType?: string
   dateLeft?: string
+  timeZone?: string
+  locale?: string
 }
 
 // Service keywords for matching
@@ -0,0 +1,31 @@
+// Top level of the issue taxonomy, e.g. a banking service
+export interface IssueCategory {
+  code: string // e.g. 'credit-card'
+  label: string
+  keywords: string[] // Used to classify issues when the AI isn't available
+  subcategories: IssueSubcategory[]
+}
+
+export interface IssueSubcategory {
+  code: string // Unique within its category, e.g. 'fees'
+  label: string
+  keywords: string[]
+}
+
+// One of a call's key issues mapped onto the taxonomy
+export interface IssueClassification {
+  issue: string // As summarized from the call
+  code: string // 'category.subcategory', e.g. 'credit-card.fees'
+  category: string
+  subcategory: string
+  confidence: number // 0-1
+  source: 'ai' | 'keywords'
+}
+
+// Number of classified issues with one code, over the calls of an issue report
+export interface IssueClassificationCount {
+  code: string
+  category: string
+  subcategory: string
+  count: number
+}
\ No newline at end of file
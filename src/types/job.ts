@@ -0,0 +1,36 @@
+export interface Job {
+  id: string
+  type: JobType
+  payload: Record<string, any>
+  status: JobStatus
+  // Scheduling
+  runAt: Date
+  attempts: number
+  maxAttempts: number
+  lastError?: string
+  // Locking
+  lockedBy?: string
+  lockedAt?: Date
+  // Only one queued job may exist per dedupe key
+  dedupeKey?: string
+  // Metadata
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type JobType =
+  | 'dispatch_campaign'  // Dial pending calls of a campaign up to its concurrency limit
+  | 'retry_call'         // Move a failed call back to pending
+  | 'complete_call'      // Summarize and close a finished conversation
+
+export type JobStatus =
+  | 'queued'      // Waiting for runAt
+  | 'running'     // Claimed by a worker
+  | 'completed'   // Handler finished
+  | 'failed'      // Out of attempts
+
+export interface JobRunResult {
+  claimed: number
+  completed: number
+  failed: number
+}
\ No newline at end of file
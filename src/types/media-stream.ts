@@ -0,0 +1,34 @@
+// Messages Twilio sends over a bidirectional Media Stream (<Connect><Stream>)
+export type TwilioStreamMessage =
+  | { event: 'connected'; protocol: string; version: string }
+  | { event: 'start'; sequenceNumber: string; streamSid: string; start: TwilioStreamStart }
+  | { event: 'media'; sequenceNumber: string; streamSid: string; media: TwilioStreamMedia }
+  | { event: 'mark'; sequenceNumber: string; streamSid: string; mark: { name: string } }
+  | { event: 'dtmf'; sequenceNumber: string; streamSid: string; dtmf: { track: string; digit: string } }
+  | { event: 'stop'; sequenceNumber: string; streamSid: string; stop: { accountSid: string; callSid: string } }
+
+export interface TwilioStreamStart {
+  streamSid: string
+  accountSid: string
+  callSid: string
+  tracks: string[]
+  customParameters: Record<string, string> // <Parameter> values of the TwiML, e.g. callId
+  mediaFormat: {
+    encoding: string // 'audio/x-mulaw'
+    sampleRate: number // 8000
+    channels: number
+  }
+}
+
+export interface TwilioStreamMedia {
+  track: 'inbound' | 'outbound'
+  chunk: string
+  timestamp: string // ms since the stream started
+  payload: string // base64 μ-law audio
+}
+
+// Messages sent back to Twilio on the same stream
+export type OutboundStreamMessage =
+  | { event: 'media'; streamSid: string; media: { payload: string } }
+  | { event: 'mark'; streamSid: string; mark: { name: string } } // Echoed back once the audio before it has played
+  | { event: 'clear'; streamSid: string } // Drops audio that hasn't played yet
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { BotScript } from './call'
+
+// A named script in the library; every content change creates a new version
+export interface Script {
+  id: string
+  name: string
+  description?: string
+  latestVersion: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ScriptVersion {
+  id: string
+  scriptId: string
+  version: number
+  botScript: BotScript
+  notes?: string // What changed compared to the previous version
+  createdAt: Date
+}
+
+export interface ScriptDiffLine {
+  type: 'unchanged' | 'added' | 'removed'
+  text: string
+}
+
+// Line diff of each part of a bot script
+export type ScriptDiff = Record<keyof BotScript, ScriptDiffLine[]>
\ No newline at end of file
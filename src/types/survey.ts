@@ -0,0 +1,34 @@
+// A question the bot asks after the open conversation, with a typed answer
+export interface SurveyQuestion {
+  id: string // Stable within the campaign, e.g. 'q1'
+  type: SurveyQuestionType
+  prompt: string // Spoken as-is
+  options?: SurveyQuestionOption[] // multiple_choice only, answered by saying the label or pressing its number
+  required: boolean // Asked again once when the answer isn't understood
+}
+
+export type SurveyQuestionType =
+  | 'nps'               // 0-10 score
+  | 'csat'              // 1-5 satisfaction score
+  | 'yes_no'            // 1 = yes, 2 = no
+  | 'multiple_choice'   // One of the options' reason codes
+  | 'free_text'         // Whatever the customer says
+
+export interface SurveyQuestionOption {
+  code: string // Reason code stored as the answer, e.g. 'fees'
+  label: string // Spoken to the customer
+}
+
+export interface SurveyAnswer {
+  callId: string
+  campaignId: string
+  questionId: string
+  type: SurveyQuestionType
+  value: SurveyAnswerValue // null when the question went unanswered
+  source: 'speech' | 'dtmf'
+  rawInput: string
+  answeredAt: Date
+}
+
+// number for nps and csat, boolean for yes_no, reason code for multiple_choice, text for free_text
+export type SurveyAnswerValue = number | boolean | string | null
\ No newline at end of file
@@ -0,0 +1,121 @@
+import './helpers/env'
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { CallOrchestrator } from '@/lib/call-orchestrator'
+import OpenAIClient from '@/lib/openai-client'
+import { JobQueue, MemoryJobQueueDriver } from '@/lib/job-queue'
+import { TwilioClient } from '@/lib/twilio-client'
+import { DEFAULT_BOT_SCRIPT } from '@/lib/bot-script'
+import { DEFAULT_CALLING_WINDOW } from '@/lib/calling-window'
+import { DEFAULT_CONVERSATION_POLICY } from '@/lib/conversation-policy'
+import { DEFAULT_VOICE_SETTINGS } from '@/lib/voice-settings'
+import { CallStatus } from '@/types/call'
+import { FakeDatabase, FakeOpenAI } from './helpers/fakes'
+
+/**
+ * A running campaign with one call in each of the given statuses
+ */
+function createCampaign(statuses: CallStatus[]) {
+  const now = new Date()
+  const db = new FakeDatabase()
+  
+  db.campaigns.set('campaign-1', {
+    id: 'campaign-1',
+    name: 'Closed accounts',
+    status: 'running',
+    totalCalls: statuses.length,
+    completedCalls: 0,
+    successfulCalls: 0,
+    failedCalls: 0,
+    services: ['mobile_app'],
+    customerCount: statuses.length,
+    startedAt: now,
+    maxConcurrentCalls: 5,
+    retrySettings: { maxRetries: 2, retryDelay: 5, backoff: 'fixed', retryOnBusy: true, retryOnNoAnswer: true, retryOnFailed: true, retryOnVoicemail: false },
+    callingWindow: DEFAULT_CALLING_WINDOW,
+    conversationPolicy: DEFAULT_CONVERSATION_POLICY,
+    botScript: DEFAULT_BOT_SCRIPT,
+    scriptVariants: [],
+    surveyQuestions: [],
+    voiceSettings: DEFAULT_VOICE_SETTINGS,
+    createdAt: now,
+    updatedAt: now
+  })
+  
+  statuses.forEach((status, index) => {
+    db.calls.set(`call-${index + 1}`, {
+      id: `call-${index + 1}`,
+      customerId: `customer-${index + 1}`,
+      customerName: 'Jane',
+      customerPhone: `+1555123456${index}`,
+      status,
+      scheduledAt: now,
+      retryCount: 0,
+      maxRetries: 2,
+      campaignId: 'campaign-1',
+      services: ['mobile_app'],
+      createdAt: now,
+      updatedAt: now
+    })
+  })
+  
+  const queue = new MemoryJobQueueDriver()
+  const orchestrator = new CallOrchestrator(
+    db.asDatabase(),
+    {} as TwilioClient,
+    new OpenAIClient(new FakeOpenAI().asOpenAI()),
+    new JobQueue(queue)
+  )
+  
+  return { db, queue, orchestrator }
+}
+
+describe('CallOrchestrator campaign progress', () => {
+  it('counts the campaign\'s calls by status', async () => {
+    const { orchestrator } = createCampaign(['completed', 'completed', 'failed', 'ringing', 'answered', 'pending'])
+    
+    const progress = await orchestrator.getCampaignStatus('campaign-1')
+    
+    assert.ok(progress)
+    assert.equal(progress.calls, 6)
+    assert.deepEqual(progress.statusCounts, { completed: 2, failed: 1, ringing: 1, answered: 1, pending: 1 })
+    assert.equal(progress.completed, 2)
+    assert.equal(progress.failed, 1)
+    assert.equal(progress.inProgress, 2)
+    assert.equal(progress.pending, 1)
+  })
+  
+  it('returns null for an unknown campaign', async () => {
+    const { orchestrator } = createCampaign([])
+    
+    assert.equal(await orchestrator.getCampaignStatus('campaign-2'), null)
+  })
+})
+
+describe('CallOrchestrator failed calls', () => {
+  it('cancels a call that fails after its campaign was cancelled instead of retrying it', async () => {
+    const { db, queue, orchestrator } = createCampaign(['pending', 'ringing'])
+    db.calls.get('call-2')!.twilioSid = 'CA2'
+    
+    const result = await orchestrator.cancelCampaign('campaign-1', { hangUpActiveCalls: false })
+    assert.equal(result.callsCancelled, 1)
+    assert.equal(db.calls.get('call-2')!.status, 'ringing')
+    
+    await orchestrator.handleTwilioWebhook({ CallSid: 'CA2', CallStatus: 'busy' })
+    
+    assert.equal(db.calls.get('call-2')!.status, 'cancelled')
+    assert.equal(queue.getJobs().filter(job => job.type === 'retry_call').length, 0)
+  })
+  
+  it('still schedules the retry of a paused campaign\'s call', async () => {
+    const { db, queue, orchestrator } = createCampaign(['ringing'])
+    db.calls.get('call-1')!.twilioSid = 'CA1'
+    db.campaigns.get('campaign-1')!.status = 'paused'
+    
+    await orchestrator.handleTwilioWebhook({ CallSid: 'CA1', CallStatus: 'busy' })
+    
+    assert.equal(db.calls.get('call-1')!.status, 'retry')
+    assert.equal(db.calls.get('call-1')!.retryCount, 1)
+    assert.deepEqual(queue.getJobs().filter(job => job.type === 'retry_call').map(job => job.payload), [{ callId: 'call-1' }])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,4 @@
+// Imported first by tests that load the database module, which creates its client on import
+process.env.NEXT_PUBLIC_SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || 'http://localhost:54321'
+process.env.SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || 'test-service-role-key'
+process.env.JOB_QUEUE_DRIVER = 'memory'
\ No newline at end of file
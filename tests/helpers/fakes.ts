@@ -0,0 +1,367 @@
+import OpenAI from 'openai'
+import Database from '@/lib/database'
+import { ConversationContext } from '@/lib/openai-client'
+import { MULAW_SAMPLE_RATE, MULAW_SILENCE } from '@/lib/media-audio'
+import { assertCallTransition, InvalidCallTransitionError } from '@/lib/call-state-machine'
+import { SpeechRecognition, SpeechRecognizerEvents, SpeechSynthesizer, SpeechTranscriber } from '@/lib/speech-stream'
+import { Call, CallCampaign, CallStatus, CampaignStatus } from '@/types/call'
+import { DoNotCallEntry, ProcessedCustomer } from '@/types/customer'
+import { OutboundStreamMessage, TwilioStreamMessage } from '@/types/media-stream'
+import { RealtimeUpdate } from '@/types/api'
+
+// Rough speaking rate used to size fake audio
+const MS_PER_CHARACTER = 60
+
+/**
+ * In-memory stand-in for the database, with the methods a call's conversation uses.
+ * Conversations are copied in and out, like rows.
+ */
+export class FakeDatabase {
+  calls = new Map<string, Call>()
+  campaigns = new Map<string, CallCampaign>()
+  customers = new Map<string, ProcessedCustomer>()
+  conversations = new Map<string, ConversationContext>()
+  doNotCall: DoNotCallEntry[] = []
+  published: RealtimeUpdate[] = []
+  
+  asDatabase(): Database {
+    return this as unknown as Database
+  }
+  
+  async getCallById(id: string): Promise<Call | null> {
+    const call = this.calls.get(id)
+    return call ? { ...call } : null
+  }
+  
+  async getCampaignById(id: string): Promise<CallCampaign | null> {
+    return this.campaigns.get(id) || null
+  }
+  
+  async updateCampaignStatus(id: string, status: CampaignStatus): Promise<void> {
+    const campaign = this.campaigns.get(id)
+    if (campaign) this.campaigns.set(id, { ...campaign, status })
+  }
+  
+  async getCustomerById(id: string): Promise<ProcessedCustomer | null> {
+    return this.customers.get(id) || null
+  }
+  
+  async getCallByTwilioSid(twilioSid: string): Promise<Call | null> {
+    const call = Array.from(this.calls.values()).filter(candidate => candidate.twilioSid === twilioSid)[0]
+    return call ? { ...call } : null
+  }
+  
+  async getCallsByCampaign(campaignId: string): Promise<Call[]> {
+    return Array.from(this.calls.values())
+      .filter(call => call.campaignId === campaignId)
+      .map(call => ({ ...call }))
+  }
+  
+  async getCallsByPhone(customerPhone: string, statuses: CallStatus[]): Promise<Call[]> {
+    return Array.from(this.calls.values())
+      .filter(call => call.customerPhone === customerPhone && statuses.includes(call.status))
+  }
+  
+  /**
+   * Same rules as the real update: only transitions the state machine allows, and only
+   * if the status read is still the call's status when the change is written
+   */
+  async updateCallStatus(id: string, status: CallStatus, updates?: Partial<Call>): Promise<void> {
+    const current = this.calls.get(id)
+    if (!current) throw new Error(`Call ${id} not found`)
+    if (current.status !== status) assertCallTransition(current.status, status)
+    
+    await Promise.resolve()
+    const call = this.calls.get(id)!
+    if (call.status !== current.status) {
+      throw new InvalidCallTransitionError(current.status, status, 'call status changed concurrently')
+    }
+    
+    this.calls.set(id, {
+      ...call,
+      ...updates,
+      status,
+      twilioSid: status === 'pending' ? undefined : updates?.twilioSid || call.twilioSid,
+      nextAttemptAt: status === 'retry' ? updates?.nextAttemptAt : undefined
+    })
+  }
+  
+  async updateCallDetectedLocale(id: string, detectedLocale: string): Promise<void> {
+    const call = this.calls.get(id)
+    if (call) this.calls.set(id, { ...call, detectedLocale })
+  }
+  
+  async getConversationByCallId(callId: string): Promise<ConversationContext | null> {
+    const context = this.conversations.get(callId)
+    return context ? copyConversation(context) : null
+  }
+  
+  async insertConversation(context: ConversationContext): Promise<void> {
+    this.conversations.set(context.callId, copyConversation(context))
+  }
+  
+  async updateConversationHistory(
+    callId: string,
+    history: ConversationContext['conversationHistory'],
+    coveredTopics?: string[]
+  ): Promise<void> {
+    const context = this.conversations.get(callId)
+    if (!context) return
+    
+    this.conversations.set(callId, copyConversation({
+      ...context,
+      conversationHistory: history,
+      coveredTopics: coveredTopics || context.coveredTopics
+    }))
+  }
+  
+  async deleteConversation(callId: string): Promise<void> {
+    this.conversations.delete(callId)
+  }
+  
+  async updateConversationLocale(callId: string, locale: string): Promise<void> {
+    const context = this.conversations.get(callId)
+    if (context) context.locale = locale
+  }
+  
+  async getSurveyAnswersByCall(): Promise<[]> {
+    return []
+  }
+  
+  async addToDoNotCallList(entries: DoNotCallEntry[]): Promise<string[]> {
+    this.doNotCall.push(...entries)
+    return entries.map(entry => entry.phone)
+  }
+  
+  async getCallStatusCountsByCampaign(campaignIds: string[]): Promise<Record<string, Record<string, number>>> {
+    const counts: Record<string, Record<string, number>> = {}
+    Array.from(this.calls.values())
+      .filter(call => campaignIds.includes(call.campaignId))
+      .forEach(call => {
+        const campaignCounts = counts[call.campaignId] || (counts[call.campaignId] = {})
+        campaignCounts[call.status] = (campaignCounts[call.status] || 0) + 1
+      })
+    return counts
+  }
+  
+  async publishRealtimeUpdate(update: RealtimeUpdate): Promise<void> {
+    this.published.push(update)
+  }
+}
+
+function copyConversation(context: ConversationContext): ConversationContext {
+  return { ...context, conversationHistory: context.conversationHistory.map(message => ({ ...message })) }
+}
+
+/**
+ * Stand-in for the OpenAI SDK's streamed chat completions. Each completion streams the next
+ * scripted reply in small chunks, and holds the end back until release() while held.
+ */
+export class FakeOpenAI {
+  held = false
+  completions = 0
+  private replies: string[] = []
+  private releaseHeld: (() => void) | null = null
+  
+  beta = {
+    chat: {
+      completions: {
+        stream: () => this.createStream()
+      }
+    }
+  }
+  
+  asOpenAI(): OpenAI {
+    return this as unknown as OpenAI
+  }
+  
+  /**
+   * Queue the JSON turn reply of the next completion
+   */
+  reply(turn: { coveredTopics?: string[]; readyToEnd?: boolean; message: string }): void {
+    this.replies.push(JSON.stringify({ coveredTopics: turn.coveredTopics || [], readyToEnd: !!turn.readyToEnd, message: turn.message }))
+  }
+  
+  release(): void {
+    this.held = false
+    if (this.releaseHeld) this.releaseHeld()
+    this.releaseHeld = null
+  }
+  
+  private createStream() {
+    const content = this.replies.shift() || '{"coveredTopics":[],"readyToEnd":false,"message":"Could you tell me more?"}'
+    const handlers: Array<(delta: string, snapshot: string) => void> = []
+    this.completions++
+    
+    const stream = {
+      on: (event: string, handler: (delta: string, snapshot: string) => void) => {
+        if (event === 'content') handlers.push(handler)
+        return stream
+      },
+      finalChatCompletion: async () => {
+        let snapshot = ''
+        for (let i = 0; i < content.length; i += 8) {
+          await new Promise(resolve => setImmediate(resolve))
+          const delta = content.substring(i, i + 8)
+          snapshot += delta
+          handlers.forEach(handler => handler(delta, snapshot))
+        }
+        
+        if (this.held) await new Promise<void>(resolve => { this.releaseHeld = resolve })
+        return { choices: [{ message: { role: 'assistant', content } }] }
+      }
+    }
+    
+    return stream
+  }
+}
+
+/**
+ * Transcriber the test speaks through: each utterance comes in as partial transcripts,
+ * word by word, followed by the full transcript
+ */
+export class FakeSpeechTranscriber implements SpeechTranscriber {
+  audioBytes = 0
+  closed = false
+  private events: SpeechRecognizerEvents | null = null
+  
+  start(events: SpeechRecognizerEvents): SpeechRecognition {
+    this.events = events
+    return {
+      write: (audio) => { this.audioBytes += audio.length },
+      close: () => { this.closed = true }
+    }
+  }
+  
+  say(text: string): void {
+    this.startSaying(text)
+    this.events!.onTranscript(text)
+  }
+  
+  /**
+   * The customer has started an utterance and its first words are recognized
+   */
+  startSaying(text: string): void {
+    this.events!.onSpeechStart?.()
+    
+    const words = text.split(' ')
+    for (let i = 1; i <= words.length; i++) {
+      this.events!.onPartialTranscript?.(words.slice(0, i).join(' '))
+    }
+  }
+  
+  /**
+   * Something was heard, but no words in it
+   */
+  noise(): void {
+    this.events!.onSpeechStart?.()
+    this.events!.onTranscript('')
+  }
+}
+
+/**
+ * Synthesizer that returns silence as long as the text would take to say
+ */
+export class FakeSpeechSynthesizer implements SpeechSynthesizer {
+  sentences: string[] = []
+  
+  async synthesize(text: string): Promise<Uint8Array> {
+    this.sentences.push(text)
+    
+    const audio = new Uint8Array(Math.round((text.length * MS_PER_CHARACTER / 1000) * MULAW_SAMPLE_RATE))
+    for (let i = 0; i < audio.length; i++) audio[i] = MULAW_SILENCE
+    return audio
+  }
+}
+
+/**
+ * Plays the part of Twilio: produces the stream messages of a call and keeps what the
+ * session sends back
+ */
+export class FakeTwilioStream {
+  sent: OutboundStreamMessage[] = []
+  private streamSid = 'MZfake'
+  private callSid = 'CAfake'
+  private sequenceNumber = 0
+  private echoed = 0 // Marks sent back so far
+  
+  constructor(private callId: string) {}
+  
+  send = (message: OutboundStreamMessage): void => {
+    this.sent.push(message)
+  }
+  
+  start(): TwilioStreamMessage {
+    return {
+      event: 'start',
+      sequenceNumber: this.nextSequenceNumber(),
+      streamSid: this.streamSid,
+      start: {
+        streamSid: this.streamSid,
+        accountSid: 'ACfake',
+        callSid: this.callSid,
+        tracks: ['inbound'],
+        customParameters: { callId: this.callId, locale: 'en-US' },
+        mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: MULAW_SAMPLE_RATE, channels: 1 }
+      }
+    }
+  }
+  
+  media(audio: Uint8Array): TwilioStreamMessage {
+    return {
+      event: 'media',
+      sequenceNumber: this.nextSequenceNumber(),
+      streamSid: this.streamSid,
+      media: { track: 'inbound', chunk: this.sequenceNumber.toString(), timestamp: '0', payload: Buffer.from(audio).toString('base64') }
+    }
+  }
+  
+  digit(digit: string): TwilioStreamMessage {
+    return {
+      event: 'dtmf',
+      sequenceNumber: this.nextSequenceNumber(),
+      streamSid: this.streamSid,
+      dtmf: { track: 'inbound_track', digit }
+    }
+  }
+  
+  /**
+   * Twilio's echoes of the marks sent since the last call - their audio has played
+   */
+  playedMarks(): TwilioStreamMessage[] {
+    const marks = this.marks().slice(this.echoed)
+    this.echoed += marks.length
+    
+    return marks.map(name => ({
+      event: 'mark' as const,
+      sequenceNumber: this.nextSequenceNumber(),
+      streamSid: this.streamSid,
+      mark: { name }
+    }))
+  }
+  
+  marks(): string[] {
+    return this.sent
+      .filter((message): message is Extract<OutboundStreamMessage, { event: 'mark' }> => message.event === 'mark')
+      .map(message => message.mark.name)
+  }
+  
+  cleared(): boolean {
+    return this.sent.some(message => message.event === 'clear')
+  }
+  
+  private nextSequenceNumber(): string {
+    return String(++this.sequenceNumber)
+  }
+}
+
+/**
+ * Let pending promise chains and immediates run until the condition holds
+ */
+export async function waitFor(condition: () => boolean, turns = 500): Promise<void> {
+  for (let i = 0; i < turns && !condition(); i++) {
+    await new Promise(resolve => setImmediate(resolve))
+  }
+  
+  if (!condition()) throw new Error('Condition not met in time')
+}
\ No newline at end of file
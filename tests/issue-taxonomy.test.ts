@@ -0,0 +1,29 @@
+import './helpers/env'
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { rollUpIssueCategories, rollUpIssues } from '@/lib/issue-taxonomy'
+import { IssueCategory } from '@/types/issue'
+
+const categories: IssueCategory[] = [{
+  code: 'credit-card',
+  label: 'Credit Card',
+  keywords: [],
+  subcategories: [{ code: 'fees', label: 'Fees', keywords: [] }]
+}]
+
+describe('rollUpIssues', () => {
+  it('labels the counts with the taxonomy, most frequent first', () => {
+    const issues = rollUpIssues([
+      { code: 'credit-card.other', category: 'credit-card', subcategory: 'other', count: 1 },
+      { code: 'credit-card.fees', category: 'credit-card', subcategory: 'fees', count: 3 }
+    ], categories)
+    
+    assert.deepEqual(issues.map(issue => [issue.code, issue.subcategoryLabel, issue.percentage]), [
+      ['credit-card.fees', 'Fees', 75],
+      ['credit-card.other', 'other', 25]
+    ])
+    assert.deepEqual(rollUpIssueCategories(issues), [
+      { category: 'credit-card', label: 'Credit Card', count: 4, percentage: 100 }
+    ])
+  })
+})
\ No newline at end of file
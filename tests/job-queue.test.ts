@@ -0,0 +1,143 @@
+import './helpers/env'
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { JobHandlers, JobQueue, MemoryJobQueueDriver } from '@/lib/job-queue'
+import { CallOrchestrator } from '@/lib/call-orchestrator'
+import OpenAIClient from '@/lib/openai-client'
+import { TwilioClient } from '@/lib/twilio-client'
+import { FakeDatabase, FakeOpenAI, waitFor } from './helpers/fakes'
+
+const noop = async () => {}
+
+describe('JobQueue with the memory driver', () => {
+  afterEach(() => {
+    mock.timers.reset()
+  })
+  
+  it('runs jobs once they are due', async () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.now() })
+    const driver = new MemoryJobQueueDriver()
+    const queue = new JobQueue(driver)
+    const ran: string[] = []
+    const handlers: JobHandlers = { dispatch_campaign: noop, retry_call: noop, complete_call: async job => { ran.push(job.payload.callId) } }
+    
+    await queue.enqueue('complete_call', { callId: 'call-1' }, { delayMs: 5000 })
+    assert.deepEqual(await queue.runDueJobs(handlers), { claimed: 0, completed: 0, failed: 0 })
+    
+    mock.timers.tick(5000)
+    assert.deepEqual(await queue.runDueJobs(handlers), { claimed: 1, completed: 1, failed: 0 })
+    assert.deepEqual(ran, ['call-1'])
+    assert.equal(driver.getJobs()[0].status, 'completed')
+  })
+  
+  it('reuses a queued job with the same dedupe key, brought forward', async () => {
+    const driver = new MemoryJobQueueDriver()
+    const queue = new JobQueue(driver)
+    
+    const first = await queue.enqueue('dispatch_campaign', { campaignId: 'campaign-1' }, { delayMs: 60000, dedupeKey: 'dispatch:campaign-1' })
+    const second = await queue.enqueue('dispatch_campaign', { campaignId: 'campaign-1' }, { dedupeKey: 'dispatch:campaign-1' })
+    
+    assert.equal(second, first)
+    assert.equal(driver.getJobs().length, 1)
+    assert.ok(driver.getJobs()[0].runAt.getTime() <= Date.now())
+  })
+  
+  it('retries a failing job with backoff, then marks it failed', async () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.now() })
+    const driver = new MemoryJobQueueDriver()
+    const queue = new JobQueue(driver)
+    const handlers: JobHandlers = { dispatch_campaign: noop, complete_call: noop, retry_call: async () => { throw new Error('Twilio is down') } }
+    
+    await queue.enqueue('retry_call', { callId: 'call-1' }, { maxAttempts: 2 })
+    assert.equal((await queue.runDueJobs(handlers)).failed, 1)
+    assert.equal(driver.getJobs()[0].status, 'queued')
+    
+    // Retried after 2 seconds
+    assert.equal((await queue.runDueJobs(handlers)).claimed, 0)
+    mock.timers.tick(2000)
+    assert.equal((await queue.runDueJobs(handlers)).failed, 1)
+    
+    const [job] = driver.getJobs()
+    assert.equal(job.status, 'failed')
+    assert.equal(job.lastError, 'Twilio is down')
+  })
+  
+  it('completes a failed job instead of re-queuing it when a newer one with its dedupe key is queued', async () => {
+    const driver = new MemoryJobQueueDriver()
+    const queue = new JobQueue(driver)
+    const handlers: JobHandlers = {
+      retry_call: noop,
+      complete_call: noop,
+      // Schedules the next dispatch, then fails
+      dispatch_campaign: async () => {
+        await queue.enqueue('dispatch_campaign', { campaignId: 'campaign-1' }, { delayMs: 10000, dedupeKey: 'dispatch:campaign-1' })
+        throw new Error('Database timeout')
+      }
+    }
+    
+    const first = await queue.enqueue('dispatch_campaign', { campaignId: 'campaign-1' }, { dedupeKey: 'dispatch:campaign-1' })
+    assert.deepEqual(await queue.runDueJobs(handlers), { claimed: 1, completed: 0, failed: 1 })
+    
+    const jobs = driver.getJobs()
+    assert.equal(jobs.filter(job => job.id === first)[0].status, 'completed')
+    assert.equal(jobs.filter(job => job.status === 'queued').length, 1)
+  })
+  
+  it('runs the other claimed jobs when a failure can\'t be recorded', async () => {
+    const driver = new MemoryJobQueueDriver()
+    driver.failJob = async () => { throw new Error('Connection reset') }
+    const queue = new JobQueue(driver)
+    const ran: string[] = []
+    const handlers: JobHandlers = {
+      dispatch_campaign: noop,
+      retry_call: async () => { throw new Error('Twilio is down') },
+      complete_call: async job => { ran.push(job.payload.callId) }
+    }
+    
+    await queue.enqueue('retry_call', { callId: 'call-1' })
+    await queue.enqueue('complete_call', { callId: 'call-2' })
+    
+    assert.deepEqual(await queue.runDueJobs(handlers), { claimed: 2, completed: 1, failed: 1 })
+    assert.deepEqual(ran, ['call-2'])
+  })
+})
+
+describe('CallOrchestrator completion job', () => {
+  afterEach(() => {
+    mock.timers.reset()
+  })
+  
+  it('runs once the closing message has had time to play, without waiting for the next tick', async () => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'], now: Date.now() })
+    const now = new Date()
+    const db = new FakeDatabase()
+    db.calls.set('call-1', {
+      id: 'call-1',
+      customerId: 'customer-1',
+      customerName: 'Jane',
+      customerPhone: '+15551234567',
+      status: 'answered',
+      scheduledAt: now,
+      retryCount: 0,
+      maxRetries: 0,
+      campaignId: 'campaign-1',
+      services: [],
+      createdAt: now,
+      updatedAt: now
+    })
+    
+    const driver = new MemoryJobQueueDriver()
+    const orchestrator = new CallOrchestrator(
+      db.asDatabase(),
+      {} as TwilioClient,
+      new OpenAIClient(new FakeOpenAI().asOpenAI()),
+      new JobQueue(driver)
+    )
+    
+    await orchestrator.handleKeyPress('call-1', '9')
+    assert.deepEqual(driver.getJobs().map(job => [job.type, job.status]), [['complete_call', 'queued']])
+    
+    mock.timers.tick(5000)
+    await waitFor(() => driver.getJobs()[0].status === 'completed')
+  })
+})
\ No newline at end of file
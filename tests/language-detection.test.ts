@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { detectCustomerLocale, detectLanguage } from '@/lib/language-detection'
+
+describe('detectLanguage', () => {
+  it('tells languages by their script', () => {
+    assert.equal(detectLanguage('مرحبا، لدي مشكلة في بطاقتي'), 'ar')
+    assert.equal(detectLanguage('मेरा खाता बंद हो गया'), 'hi')
+  })
+  
+  it('tells short Latin-script answers apart', () => {
+    assert.equal(detectLanguage('Oui, bonjour'), 'fr')
+    assert.equal(detectLanguage('Non merci'), 'fr')
+    assert.equal(detectLanguage('Yes'), 'en')
+    assert.equal(detectLanguage('Yes, I had a problem with my account'), 'en')
+  })
+  
+  it('gives up on answers that give nothing away', () => {
+    assert.equal(detectLanguage('ok'), null)
+    assert.equal(detectLanguage('123'), null)
+    assert.equal(detectLanguage(''), null)
+  })
+})
+
+describe('detectCustomerLocale', () => {
+  it('keeps the current locale when the customer speaks its language', () => {
+    assert.equal(detectCustomerLocale('Yes, that is right', 'en-GB'), 'en-GB')
+  })
+  
+  it('switches to a locale of the language the customer speaks', () => {
+    assert.equal(detectCustomerLocale('Oui, bonjour', 'en-US'), 'fr-FR')
+    assert.equal(detectCustomerLocale('Yes', 'ar-SA'), 'en-US')
+    assert.equal(detectCustomerLocale('نعم', 'en-US'), 'ar-SA')
+  })
+  
+  it('returns null when the language can\'t be told', () => {
+    assert.equal(detectCustomerLocale('ok', 'fr-FR'), null)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,210 @@
+import './helpers/env'
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { CallOrchestrator } from '@/lib/call-orchestrator'
+import OpenAIClient from '@/lib/openai-client'
+import { JobQueue, MemoryJobQueueDriver } from '@/lib/job-queue'
+import { MediaStreamSession } from '@/lib/media-stream-session'
+import { TwilioClient } from '@/lib/twilio-client'
+import { DEFAULT_BOT_SCRIPT } from '@/lib/bot-script'
+import { DEFAULT_CALLING_WINDOW } from '@/lib/calling-window'
+import { DEFAULT_CONVERSATION_POLICY } from '@/lib/conversation-policy'
+import { DEFAULT_VOICE_SETTINGS } from '@/lib/voice-settings'
+import {
+  FakeDatabase,
+  FakeOpenAI,
+  FakeSpeechSynthesizer,
+  FakeSpeechTranscriber,
+  FakeTwilioStream,
+  waitFor
+} from './helpers/fakes'
+
+const sessions: MediaStreamSession[] = []
+
+/**
+ * A live call driven by the real session and orchestrator, with the database, OpenAI,
+ * speech services and Twilio faked
+ */
+function startCall() {
+  const now = new Date()
+  const db = new FakeDatabase()
+  
+  db.campaigns.set('campaign-1', {
+    id: 'campaign-1',
+    name: 'Closed accounts',
+    status: 'running',
+    totalCalls: 1,
+    completedCalls: 0,
+    successfulCalls: 0,
+    failedCalls: 0,
+    services: ['mobile_app'],
+    customerCount: 1,
+    startedAt: now,
+    maxConcurrentCalls: 1,
+    retrySettings: { maxRetries: 0, retryDelay: 5, backoff: 'fixed', retryOnBusy: false, retryOnNoAnswer: false, retryOnFailed: false, retryOnVoicemail: false },
+    callingWindow: DEFAULT_CALLING_WINDOW,
+    conversationPolicy: DEFAULT_CONVERSATION_POLICY,
+    botScript: DEFAULT_BOT_SCRIPT,
+    scriptVariants: [],
+    surveyQuestions: [],
+    voiceSettings: DEFAULT_VOICE_SETTINGS,
+    createdAt: now,
+    updatedAt: now
+  })
+  db.customers.set('customer-1', {
+    id: 'customer-1',
+    name: 'Jane',
+    phone: '+15551234567',
+    matchedServices: ['mobile_app'],
+    priority: 'medium',
+    callEligible: true,
+    createdAt: now,
+    updatedAt: now
+  })
+  db.calls.set('call-1', {
+    id: 'call-1',
+    customerId: 'customer-1',
+    customerName: 'Jane',
+    customerPhone: '+15551234567',
+    status: 'answered',
+    scheduledAt: now,
+    startedAt: now,
+    retryCount: 0,
+    maxRetries: 0,
+    campaignId: 'campaign-1',
+    services: ['mobile_app'],
+    createdAt: now,
+    updatedAt: now
+  })
+  
+  const openai = new FakeOpenAI()
+  const queue = new MemoryJobQueueDriver()
+  const orchestrator = new CallOrchestrator(
+    db.asDatabase(),
+    {} as TwilioClient, // Not used once the call is connected
+    new OpenAIClient(openai.asOpenAI()),
+    new JobQueue(queue)
+  )
+  
+  const transcriber = new FakeSpeechTranscriber()
+  const synthesizer = new FakeSpeechSynthesizer()
+  const twilio = new FakeTwilioStream('call-1')
+  const hangUps: string[] = []
+  
+  const session = new MediaStreamSession({
+    conversation: orchestrator,
+    transcriber,
+    synthesizer,
+    send: twilio.send,
+    hangUp: async (callSid) => {
+      hangUps.push(callSid)
+    }
+  })
+  sessions.push(session)
+  
+  const play = () => twilio.playedMarks().forEach(mark => session.handleMessage(mark))
+  const allSent = () => synthesizer.sentences.length > 0 && twilio.marks().length === synthesizer.sentences.length
+  
+  return { db, openai, queue, transcriber, synthesizer, twilio, hangUps, session, play, allSent }
+}
+
+describe('MediaStreamSession with the call orchestrator', () => {
+  afterEach(() => {
+    sessions.splice(0).forEach(session => session.close())
+    mock.timers.reset()
+  })
+  
+  it('speaks the opening line and passes the customer\'s audio to the transcriber', async () => {
+    const { session, synthesizer, transcriber, twilio, allSent } = startCall()
+    
+    session.handleMessage(twilio.start())
+    await waitFor(allSent)
+    
+    assert.match(synthesizer.sentences[0], /^Hello Jane, this is/)
+    
+    session.handleMessage(twilio.media(new Uint8Array(160)))
+    assert.equal(transcriber.audioBytes, 160)
+  })
+  
+  it('starts speaking the AI\'s reply before the completion has finished', async () => {
+    const { db, openai, session, synthesizer, transcriber, twilio, play, allSent } = startCall()
+    
+    session.handleMessage(twilio.start())
+    await waitFor(allSent)
+    play()
+    
+    openai.reply({ message: 'I\'m sorry to hear that. What happened when you tried to pay?' })
+    openai.held = true
+    transcriber.say('The app kept logging me out')
+    
+    const marksBefore = twilio.marks().length
+    await waitFor(() => twilio.marks().length > marksBefore)
+    assert.ok(openai.held, 'the completion is still running')
+    assert.ok(synthesizer.sentences.includes('I\'m sorry to hear that.'))
+    
+    openai.release()
+    await waitFor(() => synthesizer.sentences.includes('What happened when you tried to pay?'))
+    await waitFor(() => db.conversations.get('call-1')!.conversationHistory.length === 2)
+    
+    const history = db.conversations.get('call-1')!.conversationHistory
+    assert.deepEqual(history.map(message => message.role), ['user', 'assistant'])
+    assert.equal(history[1].content, 'I\'m sorry to hear that. What happened when you tried to pay?')
+    assert.equal(synthesizer.sentences.filter(sentence => sentence === 'I\'m sorry to hear that.').length, 1)
+    
+    // The live call monitor gets the new turn
+    const transcripts = db.published.filter(update => update.type === 'conversation_update' && update.callId === 'call-1')
+    assert.ok(transcripts.length > 0)
+  })
+  
+  it('stops the reply on the customer\'s first words and records what they heard', async () => {
+    const { db, openai, session, synthesizer, transcriber, twilio, play, allSent } = startCall()
+    
+    session.handleMessage(twilio.start())
+    await waitFor(allSent)
+    play()
+    
+    openai.reply({ message: 'I\'m sorry to hear that. What happened when you tried to pay?' })
+    transcriber.say('The app kept logging me out')
+    await waitFor(() => synthesizer.sentences.includes('What happened when you tried to pay?') && allSent())
+    
+    // Only the first sentence has played when the customer starts talking
+    session.handleMessage(twilio.playedMarks()[0])
+    transcriber.startSaying('It froze')
+    assert.ok(twilio.cleared())
+    
+    await waitFor(() => db.conversations.get('call-1')!.conversationHistory.some(message => message.interrupted))
+    const reply = db.conversations.get('call-1')!.conversationHistory[1]
+    assert.equal(reply.heardContent, 'I\'m sorry to hear that.')
+  })
+  
+  it('does not stop the reply for noise', async () => {
+    const { session, transcriber, twilio, allSent } = startCall()
+    
+    session.handleMessage(twilio.start())
+    await waitFor(allSent)
+    
+    transcriber.noise()
+    assert.ok(!twilio.cleared())
+  })
+  
+  it('hangs up after the closing message when the customer presses the opt-out key', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] }) // The completion job stays queued
+    const { db, queue, session, twilio, hangUps, play, allSent } = startCall()
+    
+    session.handleMessage(twilio.start())
+    await waitFor(allSent)
+    play()
+    
+    const marksBefore = twilio.marks().length
+    session.handleMessage(twilio.digit('9'))
+    await waitFor(() => twilio.marks().length > marksBefore && allSent() && queue.getJobs().length > 0)
+    assert.deepEqual(hangUps, [])
+    
+    play()
+    await waitFor(() => hangUps.length > 0)
+    
+    assert.deepEqual(hangUps, ['CAfake'])
+    assert.deepEqual(db.doNotCall.map(entry => entry.phone), ['+15551234567'])
+    assert.deepEqual(queue.getJobs().map(job => job.type), ['complete_call'])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,68 @@
+import './helpers/env'
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import OpenAI from 'openai'
+import OpenAIClient, { ConversationContext, readStreamedMessage } from '@/lib/openai-client'
+import { formatServices } from '@/lib/bot-script'
+import { FakeOpenAI } from './helpers/fakes'
+
+function frenchCall(): ConversationContext {
+  return {
+    callId: 'call-1',
+    campaignId: 'campaign-1',
+    customerName: 'Camille',
+    customerReason: '',
+    services: ['credit-card', 'loans'],
+    bankName: 'Banque',
+    botName: 'Assistant',
+    conversationHistory: [],
+    locale: 'fr-FR'
+  }
+}
+
+describe('readStreamedMessage', () => {
+  it('reads the message as far as it has arrived', () => {
+    assert.equal(readStreamedMessage('{"coveredTopics":[],"readyToEnd":false,"message":"I\'m sorry to hear th'), 'I\'m sorry to hear th')
+    assert.equal(readStreamedMessage('{"coveredTopics":[],"readyToEnd":false,"message":"Done."}'), 'Done.')
+  })
+  
+  it('decodes escapes, and waits for the rest of one that is cut off', () => {
+    assert.equal(readStreamedMessage('{"readyToEnd":false,"message":"They said \\"no\\"\\n'), 'They said "no"\n')
+    assert.equal(readStreamedMessage('{"readyToEnd":false,"message":"caf\\u00e9'), 'café')
+    assert.equal(readStreamedMessage('{"readyToEnd":false,"message":"caf\\u00'), 'caf')
+    assert.equal(readStreamedMessage('{"readyToEnd":false,"message":"a\\'), 'a')
+  })
+  
+  it('holds the message back until the turn is known not to end the call', () => {
+    assert.equal(readStreamedMessage('{"coveredTopics":["fees"],"readyTo'), null)
+    assert.equal(readStreamedMessage('{"coveredTopics":[],"readyToEnd":true,"message":"Thanks'), null)
+    assert.equal(readStreamedMessage('{"message":"Thanks","readyToEnd":false'), null)
+  })
+})
+
+describe('OpenAIClient.generateResponse fallbacks', () => {
+  it('asks for more in the call\'s language when the reply is empty', async () => {
+    const openai = new FakeOpenAI()
+    openai.reply({ message: '' })
+    
+    const response = await new OpenAIClient(openai.asOpenAI()).generateResponse('Bonjour', frenchCall())
+    
+    assert.equal(response.message, 'Je comprends. Pourriez-vous m\'en dire plus ?')
+  })
+  
+  it('apologizes in the call\'s language when the completion fails', async () => {
+    const failing = { beta: { chat: { completions: { stream: () => { throw new Error('Service unavailable') } } } } }
+    
+    const response = await new OpenAIClient(failing as unknown as OpenAI).generateResponse('Bonjour', frenchCall())
+    
+    assert.equal(response.message, 'Pardon, nous rencontrons un problème technique. Pourriez-vous répéter, s\'il vous plaît ?')
+  })
+})
+
+describe('formatServices', () => {
+  it('joins the services in the call\'s language', () => {
+    assert.equal(formatServices(['credit-card', 'loans']), 'credit card and loans')
+    assert.equal(formatServices(['credit-card', 'personal-banking', 'loans'], 'fr-FR'), 'credit card, personal banking et loans')
+    assert.equal(formatServices([], 'hi-IN'), 'हमारी सेवाएँ')
+  })
+})
\ No newline at end of file
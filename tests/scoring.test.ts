@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildScoreReport, calculateCsat, calculateNps } from '@/lib/scoring'
+import { CallScoreCount } from '@/types/call'
+
+describe('calculateNps', () => {
+  it('subtracts the share of detractors from the share of promoters', () => {
+    assert.deepEqual(calculateNps({ '10': 2, '9': 1, '7': 1, '3': 1 }), {
+      score: 40,
+      responses: 5,
+      promoters: 3,
+      passives: 1,
+      detractors: 1
+    })
+  })
+  
+  it('has no score without responses', () => {
+    assert.equal(calculateNps({}).score, null)
+  })
+})
+
+describe('calculateCsat', () => {
+  it('counts 4 and 5 as satisfied', () => {
+    assert.deepEqual(calculateCsat({ '5': 1, '4': 2, '2': 1 }), { score: 75, average: 3.8, responses: 4 })
+  })
+})
+
+describe('buildScoreReport', () => {
+  const counts: CallScoreCount[] = [
+    { dimension: 'overall', key: '', type: 'nps', score: 10, count: 3 },
+    { dimension: 'overall', key: '', type: 'nps', score: 2, count: 1 },
+    { dimension: 'overall', key: '', type: 'csat', score: 5, count: 2 },
+    { dimension: 'trend', key: '2026-02-01', type: 'nps', score: 2, count: 1 },
+    { dimension: 'trend', key: '2026-01-01', type: 'nps', score: 10, count: 3 },
+    { dimension: 'trend', key: '2026-01-01', type: 'csat', score: 5, count: 2 },
+    { dimension: 'service', key: 'cards', type: 'nps', score: 10, count: 1 },
+    { dimension: 'service', key: 'mobile_app', type: 'nps', score: 10, count: 2 },
+    { dimension: 'service', key: 'mobile_app', type: 'nps', score: 2, count: 1 },
+    { dimension: 'campaign', key: 'campaign-1', type: 'nps', score: 10, count: 3 },
+    { dimension: 'campaign', key: 'campaign-1', type: 'nps', score: 2, count: 1 },
+    { dimension: 'campaign', key: 'campaign-1', type: 'csat', score: 5, count: 2 }
+  ]
+  
+  it('summarizes the counts overall and per group', () => {
+    const report = buildScoreReport(counts, { 'campaign-1': 'Closed accounts' })
+    
+    assert.equal(report.nps.score, 50)
+    assert.equal(report.csat.score, 100)
+    assert.equal(report.distribution.nps['10'], 3)
+    assert.equal(report.distribution.nps['5'], 0)
+    assert.deepEqual(report.trend.map(point => [point.period, point.nps.responses]), [['2026-01-01', 3], ['2026-02-01', 1]])
+    assert.deepEqual(report.byService.map(group => group.service), ['mobile_app', 'cards'])
+    assert.equal(report.byCampaign[0].campaignName, 'Closed accounts')
+    assert.equal(report.byCampaign[0].csat.responses, 2)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,68 @@
+import './helpers/env'
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { summarizeCampaignScriptVariants, summarizeScriptVariants } from '@/lib/script-library'
+import { DEFAULT_BOT_SCRIPT } from '@/lib/bot-script'
+import { CallCampaign, ScriptVariant, ScriptVariantCount } from '@/types/call'
+
+const variants: ScriptVariant[] = [
+  { id: 'A', scriptId: 'script-1', scriptVersion: 2, scriptName: 'Apology first', botScript: DEFAULT_BOT_SCRIPT, weight: 1 },
+  { id: 'B', botScript: DEFAULT_BOT_SCRIPT, weight: 1 }
+]
+
+const counts: ScriptVariantCount[] = [
+  {
+    campaignId: 'campaign-1',
+    variantId: 'A',
+    totalCalls: 10,
+    finishedCalls: 8,
+    completedCalls: 6,
+    averageDuration: 185,
+    sentiment: { positive: 3, negative: 1, neutral: 2 }
+  }
+]
+
+describe('summarizeScriptVariants', () => {
+  it('turns the database counts into completion rates', () => {
+    const [a] = summarizeScriptVariants(variants, counts)
+    
+    assert.deepEqual(a, {
+      variantId: 'A',
+      scriptId: 'script-1',
+      scriptVersion: 2,
+      scriptName: 'Apology first',
+      weight: 1,
+      totalCalls: 10,
+      finishedCalls: 8,
+      completedCalls: 6,
+      completionRate: 75,
+      averageDuration: 185,
+      sentiment: { positive: 3, negative: 1, neutral: 2 }
+    })
+  })
+  
+  it('lists variants without calls yet', () => {
+    const b = summarizeScriptVariants(variants, counts)[1]
+    
+    assert.equal(b.variantId, 'B')
+    assert.equal(b.totalCalls, 0)
+    assert.equal(b.completionRate, 0)
+    assert.deepEqual(b.sentiment, { positive: 0, negative: 0, neutral: 0 })
+  })
+})
+
+describe('summarizeCampaignScriptVariants', () => {
+  it('names each variant\'s campaign and keeps campaigns apart', () => {
+    const campaigns = [
+      { id: 'campaign-1', name: 'Closed accounts', scriptVariants: variants },
+      { id: 'campaign-2', name: 'Card disputes', scriptVariants: [variants[0]] }
+    ] as CallCampaign[]
+    
+    const stats = summarizeCampaignScriptVariants(campaigns, counts)
+    
+    assert.deepEqual(
+      stats.map(variant => [variant.campaignName, variant.variantId, variant.totalCalls]),
+      [['Closed accounts', 'A', 10], ['Closed accounts', 'B', 0], ['Card disputes', 'A', 0]]
+    )
+  })
+})
\ No newline at end of file
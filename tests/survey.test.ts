@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getSurveyQuestionPrompt, parseSurveyAnswer } from '@/lib/survey'
+import { SurveyQuestion } from '@/types/survey'
+
+const yesNo: SurveyQuestion = { id: 'q1', type: 'yes_no', prompt: 'Would you recommend us?', required: true }
+
+describe('parseSurveyAnswer - yes/no', () => {
+  it('reads plain answers', () => {
+    assert.equal(parseSurveyAnswer(yesNo, 'Yes', 'speech'), true)
+    assert.equal(parseSurveyAnswer(yesNo, 'yeah sure', 'speech'), true)
+    assert.equal(parseSurveyAnswer(yesNo, 'No', 'speech'), false)
+    assert.equal(parseSurveyAnswer(yesNo, 'نعم', 'speech'), true)
+    assert.equal(parseSurveyAnswer(yesNo, 'لا', 'speech'), false)
+    assert.equal(parseSurveyAnswer(yesNo, 'oui', 'speech'), true)
+    assert.equal(parseSurveyAnswer(yesNo, 'non merci', 'speech'), false)
+    assert.equal(parseSurveyAnswer(yesNo, 'हाँ', 'speech'), true)
+    assert.equal(parseSurveyAnswer(yesNo, 'जी नहीं', 'speech'), false)
+  })
+  
+  it('reads negations as no', () => {
+    assert.equal(parseSurveyAnswer(yesNo, 'definitely not', 'speech'), false)
+    assert.equal(parseSurveyAnswer(yesNo, 'of course not', 'speech'), false)
+    assert.equal(parseSurveyAnswer(yesNo, 'absolutely not', 'speech'), false)
+    assert.equal(parseSurveyAnswer(yesNo, 'not really', 'speech'), false)
+  })
+  
+  it('leaves unsure answers unanswered', () => {
+    assert.equal(parseSurveyAnswer(yesNo, 'not sure', 'speech'), undefined)
+    assert.equal(parseSurveyAnswer(yesNo, 'I\'m not sure', 'speech'), undefined)
+    assert.equal(parseSurveyAnswer(yesNo, 'I don’t know', 'speech'), undefined)
+    assert.equal(parseSurveyAnswer(yesNo, 'maybe', 'speech'), undefined)
+    assert.equal(parseSurveyAnswer(yesNo, 'je ne sais pas', 'speech'), undefined)
+    assert.equal(parseSurveyAnswer(yesNo, 'पता नहीं', 'speech'), undefined)
+  })
+  
+  it('does not read "no problem" as a no', () => {
+    assert.equal(parseSurveyAnswer(yesNo, 'yes, no problem', 'speech'), true)
+  })
+  
+  it('goes by the leading answer when a negation comes after it', () => {
+    assert.equal(parseSurveyAnswer(yesNo, 'yes, not a problem', 'speech'), true)
+    assert.equal(parseSurveyAnswer(yesNo, 'Yes, I did not have issues', 'speech'), true)
+    assert.equal(parseSurveyAnswer(yesNo, 'oui, je n\'ai jamais eu de souci', 'speech'), true)
+    assert.equal(parseSurveyAnswer(yesNo, 'no, it was not resolved', 'speech'), false)
+    assert.equal(parseSurveyAnswer(yesNo, 'I would not, no', 'speech'), false)
+  })
+  
+  it('reads key presses', () => {
+    assert.equal(parseSurveyAnswer(yesNo, '1', 'dtmf'), true)
+    assert.equal(parseSurveyAnswer(yesNo, '2', 'dtmf'), false)
+    assert.equal(parseSurveyAnswer(yesNo, '3', 'dtmf'), undefined)
+  })
+})
+
+describe('getSurveyQuestionPrompt', () => {
+  it('explains how to answer in the call\'s language', () => {
+    assert.equal(
+      getSurveyQuestionPrompt(yesNo, 'fr-FR'),
+      'Would you recommend us? Vous pouvez répondre oui ou non, ou appuyer sur 1 pour oui et 2 pour non.'
+    )
+  })
+  
+  it('falls back to English for other languages', () => {
+    assert.equal(
+      getSurveyQuestionPrompt(yesNo, 'de-DE'),
+      'Would you recommend us? You can say yes or no, or press 1 for yes and 2 for no.'
+    )
+  })
+})
\ No newline at end of file
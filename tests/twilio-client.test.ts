@@ -0,0 +1,65 @@
+import { beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { TwilioClient } from '@/lib/twilio-client'
+import { Call } from '@/types/call'
+
+/**
+ * A Twilio client whose REST calls are kept instead of sent
+ */
+function createClient() {
+  const created: Array<Record<string, any>> = []
+  const client = new TwilioClient()
+  ;(client as any).client = {
+    calls: {
+      create: async (params: Record<string, any>) => {
+        created.push(params)
+        return { sid: 'CA123' }
+      }
+    }
+  }
+  return { client, created }
+}
+
+const call = {
+  id: 'call-1',
+  campaignId: 'campaign-1',
+  customerPhone: '+15551234567'
+} as Call
+
+describe('TwilioClient.makeCall', () => {
+  beforeEach(() => {
+    process.env.TWILIO_ACCOUNT_SID = 'AC00000000000000000000000000000000'
+    process.env.TWILIO_AUTH_TOKEN = 'test-auth-token'
+    process.env.TWILIO_PHONE_NUMBER = '+15550000000'
+    delete process.env.NEXT_PUBLIC_APP_URL
+  })
+  
+  it('points the callbacks at the campaign\'s base URL without NEXT_PUBLIC_APP_URL', async () => {
+    const { client, created } = createClient()
+    
+    const result = await client.makeCall(call, { baseUrl: 'https://bot.example.com' })
+    
+    assert.deepEqual(result, { success: true, twilioSid: 'CA123' })
+    assert.equal(created[0].url, 'https://bot.example.com/api/calls/twiml?callId=call-1&campaignId=campaign-1')
+    assert.equal(created[0].statusCallback, 'https://bot.example.com/api/calls/webhook')
+  })
+  
+  it('falls back to NEXT_PUBLIC_APP_URL', async () => {
+    process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com/'
+    const { client, created } = createClient()
+    
+    await client.makeCall(call)
+    
+    assert.equal(created[0].statusCallback, 'https://app.example.com/api/calls/webhook')
+  })
+  
+  it('fails the dial when there is no base URL at all', async () => {
+    const { client, created } = createClient()
+    
+    const result = await client.makeCall(call)
+    
+    assert.equal(result.success, false)
+    assert.match(result.error!, /NEXT_PUBLIC_APP_URL is required/)
+    assert.equal(created.length, 0)
+  })
+})
\ No newline at end of file
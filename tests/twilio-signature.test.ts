@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { signTwilioRequest, verifyTwilioRequest, verifyTwilioStreamRequest } from '@/lib/twilio-signature'
+
+const AUTH_TOKEN = 'test-auth-token'
+const WEBHOOK_URL = 'https://bot.example.com/api/calls/webhook?callId=call-1'
+
+/**
+ * A status callback as Twilio posts it, proxied to a different internal host
+ */
+function webhookRequest(params: Record<string, string>, signature?: string): { request: NextRequest; body: string } {
+  const body = new URLSearchParams(params).toString()
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-www-form-urlencoded',
+    'x-forwarded-host': 'bot.example.com',
+    'x-forwarded-proto': 'https'
+  }
+  if (signature) headers['x-twilio-signature'] = signature
+  
+  return {
+    request: new NextRequest('http://localhost:3000/api/calls/webhook?callId=call-1', { method: 'POST', headers, body }),
+    body
+  }
+}
+
+describe('Twilio signature verification', () => {
+  const params = { CallSid: 'CA123', CallStatus: 'completed', CallDuration: '42' }
+  
+  beforeEach(() => {
+    process.env.TWILIO_AUTH_TOKEN = AUTH_TOKEN
+    delete process.env.NEXT_PUBLIC_APP_URL
+    delete process.env.TWILIO_SKIP_SIGNATURE_VALIDATION
+  })
+  
+  afterEach(() => {
+    delete process.env.TWILIO_AUTH_TOKEN
+  })
+  
+  it('accepts a webhook signed for its public URL and params', () => {
+    const { request, body } = webhookRequest(params, signTwilioRequest(WEBHOOK_URL, params))
+    assert.equal(verifyTwilioRequest(request, body), true)
+  })
+  
+  it('rejects a webhook whose params were changed after signing', () => {
+    const { request, body } = webhookRequest({ ...params, CallStatus: 'failed' }, signTwilioRequest(WEBHOOK_URL, params))
+    assert.equal(verifyTwilioRequest(request, body), false)
+  })
+  
+  it('rejects a webhook signed with another auth token or without a signature', () => {
+    const forged = webhookRequest(params, signTwilioRequest(WEBHOOK_URL, params, 'another-token'))
+    assert.equal(verifyTwilioRequest(forged.request, forged.body), false)
+    
+    const unsigned = webhookRequest(params)
+    assert.equal(verifyTwilioRequest(unsigned.request, unsigned.body), false)
+  })
+  
+  it('verifies media stream upgrades against the stream URL alone', () => {
+    const streamUrl = 'wss://bot.example.com/api/calls/stream'
+    
+    assert.equal(verifyTwilioStreamRequest(signTwilioRequest(streamUrl, {}), streamUrl), true)
+    assert.equal(verifyTwilioStreamRequest(signTwilioRequest(streamUrl, {}), 'wss://evil.example.com/api/calls/stream'), false)
+    assert.equal(verifyTwilioStreamRequest(undefined, streamUrl), false)
+  })
+})
\ No newline at end of file